@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import AspectRatioPicker from '../AspectRatioPicker.vue'
+
+const CUSTOM = { width: 4, height: 5 }
+
+describe('AspectRatioPicker', () => {
+  it('依序顯示預設值，自由與自訂顯示對應的文字', () => {
+    const wrapper = mount(AspectRatioPicker, {
+      props: { presets: ['free', '1:1', '16:9', 'custom'], preset: '1:1', custom: CUSTOM },
+    })
+
+    const options = wrapper.findAll('.aspect-ratio-option')
+    expect(options.map((option) => option.text())).toEqual(['自由', '1:1', '16:9', '自訂'])
+    expect(options[1]!.attributes('aria-checked')).toBe('true')
+    expect(wrapper.find('.custom-ratio').exists()).toBe(false)
+  })
+
+  it('點擊預設值時觸發 select', async () => {
+    const wrapper = mount(AspectRatioPicker, {
+      props: { presets: ['free', '1:1'], preset: '1:1', custom: CUSTOM },
+    })
+
+    await wrapper.findAll('.aspect-ratio-option')[0]!.trigger('click')
+
+    expect(wrapper.emitted('select')).toEqual([['free']])
+  })
+
+  it('修改自訂比例時沿用另一個欄位的值', async () => {
+    const wrapper = mount(AspectRatioPicker, {
+      props: { presets: ['custom'], preset: 'custom', custom: CUSTOM },
+    })
+
+    const [widthInput] = wrapper.findAll('.custom-ratio input')
+    await widthInput!.setValue('3')
+
+    expect(wrapper.emitted('custom')).toEqual([[3, 5]])
+  })
+})
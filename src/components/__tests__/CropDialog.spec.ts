@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import CropDialog from '../CropDialog.vue'
+import MovableCroppingContainer from '../MovableCroppingContainer.vue'
+import MovableBackgroundImageContainer from '../MovableBackgroundImageContainer.vue'
+import { DEFAULT_IMAGE_ADJUSTMENTS } from '@/utils/adjustmentUtils'
+import { UploadError, type Uploader } from '@/utils/uploadUtils'
+import type { CropResultInfo } from '@/utils/imageUtils'
+
+const FILE = new File(['image'], 'photo-cropped.webp', { type: 'image/webp' })
+
+const INFO: CropResultInfo = {
+  aspectRatio: 1,
+  width: 100,
+  height: 100,
+  cropData: { x: 0, y: 0, width: 100, height: 100, rotate: 0, scaleX: 1, scaleY: 1 },
+  adjustments: { ...DEFAULT_IMAGE_ADJUSTMENTS },
+}
+
+const uploader: Uploader = { upload: async () => null }
+
+const mountDialog = (props: InstanceType<typeof CropDialog>['$props'] = {}) =>
+  mount(CropDialog, {
+    props,
+    global: { stubs: { MovableCroppingContainer: true, MovableBackgroundImageContainer: true } },
+  })
+
+describe('CropDialog', () => {
+  it('依 mode 使用對應的容器並傳入 props 與 src', () => {
+    const wrapper = mountDialog({
+      mode: 'background',
+      src: 'https://example.com/photo.jpg',
+      containerProps: { aspectRatio: 1 },
+    })
+
+    const container = wrapper.findComponent(MovableBackgroundImageContainer)
+    expect(container.exists()).toBe(true)
+    expect(container.props()).toMatchObject({
+      aspectRatio: 1,
+      src: 'https://example.com/photo.jpg',
+    })
+    expect(wrapper.findComponent(MovableCroppingContainer).exists()).toBe(false)
+    expect(wrapper.find('.crop-dialog-title').text()).toBe('裁切圖片')
+  })
+
+  it('容器觸發 upload 或 download 時回傳裁切結果', async () => {
+    const wrapper = mountDialog()
+    const container = wrapper.findComponent(MovableCroppingContainer)
+
+    container.vm.$emit('upload', FILE, INFO)
+    container.vm.$emit('download', FILE, INFO)
+
+    expect(wrapper.emitted('close')).toEqual([
+      [{ action: 'upload', blob: FILE, info: INFO }],
+      [{ action: 'download', blob: FILE, info: INFO }],
+    ])
+  })
+
+  it('指定 uploader 時上傳成功後才回傳結果，失敗時維持開啟', async () => {
+    const wrapper = mountDialog({ containerProps: { uploader } })
+    const container = wrapper.findComponent(MovableCroppingContainer)
+
+    container.vm.$emit('upload', FILE, INFO)
+    container.vm.$emit('upload-result', {
+      ok: false,
+      error: new UploadError('network-error'),
+      attempts: 3,
+    })
+    expect(wrapper.emitted('close')).toBeUndefined()
+
+    container.vm.$emit('upload', FILE, INFO)
+    container.vm.$emit('upload-result', { ok: true, data: { id: 1 }, attempts: 1 })
+    expect(wrapper.emitted('close')).toEqual([
+      [
+        {
+          action: 'upload',
+          blob: FILE,
+          info: INFO,
+          upload: { ok: true, data: { id: 1 }, attempts: 1 },
+        },
+      ],
+    ])
+  })
+
+  it('按下 Esc 或關閉按鈕時回傳 null', async () => {
+    const wrapper = mountDialog()
+
+    await wrapper.find('dialog').trigger('cancel')
+    await wrapper.find('.crop-dialog-close').trigger('click')
+
+    expect(wrapper.emitted('close')).toEqual([[null], [null]])
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { effectScope, nextTick, ref } from 'vue'
+import { findAspectRatioPreset, toAspectRatioParts, useAspectRatio } from '../useAspectRatio'
+
+const setup = (defaultAspectRatio = 9 / 16) => {
+  const source = ref(defaultAspectRatio)
+  const scope = effectScope()
+  const result = scope.run(() => useAspectRatio(() => source.value))!
+  return { ...result, source, stop: () => scope.stop() }
+}
+
+describe('findAspectRatioPreset', () => {
+  it('比例與預設值相同時返回該預設值 (容許浮點誤差)', () => {
+    expect(findAspectRatioPreset(9 / 16)).toBe('9:16')
+    expect(findAspectRatioPreset(0.5625)).toBe('9:16')
+    expect(findAspectRatioPreset(1)).toBe('1:1')
+    expect(findAspectRatioPreset(16 / 9)).toBe('16:9')
+  })
+
+  it('null 為自由比例，其他比例為自訂', () => {
+    expect(findAspectRatioPreset(null)).toBe('free')
+    expect(findAspectRatioPreset(0.8)).toBe('custom')
+  })
+})
+
+describe('toAspectRatioParts', () => {
+  it('換算為分母最小的整數寬高', () => {
+    expect(toAspectRatioParts(0.8)).toEqual({ width: 4, height: 5 })
+    expect(toAspectRatioParts(21 / 9)).toEqual({ width: 7, height: 3 })
+  })
+
+  it('找不到整數寬高時以 100 為高度近似', () => {
+    expect(toAspectRatioParts(Math.PI)).toEqual({ width: 314, height: 100 })
+  })
+})
+
+describe('useAspectRatio', () => {
+  it('以初始比例對應的預設值開始', () => {
+    const { preset, aspectRatio, stop } = setup(9 / 16)
+
+    expect(preset.value).toBe('9:16')
+    expect(aspectRatio.value).toBeCloseTo(9 / 16)
+    stop()
+  })
+
+  it('切換為自由比例時 aspectRatio 為 null', () => {
+    const { aspectRatio, select, stop } = setup()
+
+    select('free')
+    expect(aspectRatio.value).toBeNull()
+
+    select('4:3')
+    expect(aspectRatio.value).toBeCloseTo(4 / 3)
+    stop()
+  })
+
+  it('初始比例不是預設值時使用自訂比例', () => {
+    const { preset, custom, aspectRatio, stop } = setup(0.8)
+
+    expect(preset.value).toBe('custom')
+    expect(custom.value).toEqual({ width: 4, height: 5 })
+    expect(aspectRatio.value).toBeCloseTo(0.8)
+    stop()
+  })
+
+  it('初始比例無法換算為整數寬高時仍使用原本的比例', () => {
+    const { aspectRatio, stop } = setup(Math.PI)
+
+    expect(aspectRatio.value).toBe(Math.PI)
+    stop()
+  })
+
+  it('setCustom 設定自訂比例並切換為 custom，無效的寬高會被忽略', () => {
+    const { preset, aspectRatio, setCustom, stop } = setup()
+
+    setCustom(5, 4)
+    expect(preset.value).toBe('custom')
+    expect(aspectRatio.value).toBeCloseTo(1.25)
+
+    setCustom(0, 4)
+    setCustom(5, Number.NaN)
+    expect(aspectRatio.value).toBeCloseTo(1.25)
+    stop()
+  })
+
+  it('初始比例改變時重設選擇', async () => {
+    const { preset, aspectRatio, select, source, stop } = setup()
+
+    select('free')
+    source.value = 1
+    await nextTick()
+
+    expect(preset.value).toBe('1:1')
+    expect(aspectRatio.value).toBe(1)
+    stop()
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { useCropHistory, type CropHistoryState } from '../useCropHistory'
+
+const createState = (x: number, overrides: Partial<CropHistoryState> = {}): CropHistoryState => ({
+  selection: { x, y: 0, width: 90, height: 160 },
+  matrix: [1, 0, 0, 1, 0, 0],
+  rotation: 0,
+  straightenAngle: 0,
+  isFlippedX: false,
+  isFlippedY: false,
+  ...overrides,
+})
+
+describe('useCropHistory', () => {
+  it('只有一筆紀錄時無法復原或重做', () => {
+    const { record, canUndo, canRedo, undo } = useCropHistory()
+    record(createState(0))
+
+    expect(canUndo.value).toBe(false)
+    expect(canRedo.value).toBe(false)
+    expect(undo()).toBeNull()
+  })
+
+  it('復原回到上一筆狀態，重做回到下一筆狀態', () => {
+    const { record, undo, redo, canUndo, canRedo } = useCropHistory()
+    record(createState(0))
+    record(createState(10))
+
+    expect(canUndo.value).toBe(true)
+    expect(undo()?.selection.x).toBe(0)
+    expect(canRedo.value).toBe(true)
+    expect(redo()?.selection.x).toBe(10)
+    expect(canRedo.value).toBe(false)
+  })
+
+  it('略過與目前狀態相同的快照 (容許浮點誤差)', () => {
+    const { record, canUndo } = useCropHistory()
+    record(createState(0))
+    record(createState(0.0001))
+
+    expect(canUndo.value).toBe(false)
+  })
+
+  it('矩陣或翻轉狀態改變時會記錄', () => {
+    const { record, undo } = useCropHistory()
+    record(createState(0))
+    record(createState(0, { matrix: [-1, 0, 0, 1, 0, 0], isFlippedX: true }))
+
+    expect(undo()).toMatchObject({ matrix: [1, 0, 0, 1, 0, 0], isFlippedX: false })
+  })
+
+  it('復原後記錄新狀態會捨棄可重做的紀錄', () => {
+    const { record, undo, canRedo } = useCropHistory()
+    record(createState(0))
+    record(createState(10))
+    undo()
+    record(createState(20))
+
+    expect(canRedo.value).toBe(false)
+    expect(undo()?.selection.x).toBe(0)
+  })
+
+  it('超過上限時丟棄最舊的紀錄', () => {
+    const { record, undo } = useCropHistory(3)
+    ;[0, 10, 20, 30].forEach((x) => record(createState(x)))
+
+    expect(undo()?.selection.x).toBe(20)
+    expect(undo()?.selection.x).toBe(10)
+    expect(undo()).toBeNull()
+  })
+
+  it('回傳的快照與內部紀錄互不影響', () => {
+    const { record, undo, redo } = useCropHistory()
+    const state = createState(0)
+    record(state)
+    record(createState(10))
+
+    state.selection.x = 999
+    const previous = undo()!
+    previous.matrix[0] = 5
+
+    expect(previous.selection.x).toBe(0)
+    redo()
+    expect(undo()?.matrix[0]).toBe(1)
+  })
+
+  it('clear 清除所有紀錄', () => {
+    const { record, clear, canUndo, canRedo } = useCropHistory()
+    record(createState(0))
+    record(createState(10))
+    clear()
+
+    expect(canUndo.value).toBe(false)
+    expect(canRedo.value).toBe(false)
+  })
+})
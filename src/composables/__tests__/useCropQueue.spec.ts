@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { effectScope, ref } from 'vue'
+import { useCropQueue } from '../useCropQueue'
+import type { CropHistoryState } from '../useCropHistory'
+
+vi.mock('../useHeicSupport', () => ({
+  useHeicSupport: () => ({
+    isSupported: ref(false),
+  }),
+}))
+
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff, 0xe0]
+
+const createJpeg = (name: string) =>
+  new File([new Uint8Array(JPEG_SIGNATURE), 'test'], name, { type: 'image/jpeg' })
+
+const createCropState = (x: number): CropHistoryState => ({
+  selection: { x, y: 0, width: 90, height: 160 },
+  matrix: [1, 0, 0, 1, 0, 0],
+  rotation: 0,
+  straightenAngle: 0,
+  isFlippedX: false,
+  isFlippedY: false,
+})
+
+describe('useCropQueue', () => {
+  let revokeObjectURLSpy: ReturnType<typeof vi.spyOn>
+  let createObjectURLSpy: ReturnType<typeof vi.spyOn>
+  let urlCount = 0
+
+  beforeEach(() => {
+    urlCount = 0
+    revokeObjectURLSpy = vi.spyOn(URL, 'revokeObjectURL')
+    createObjectURLSpy = vi
+      .spyOn(URL, 'createObjectURL')
+      .mockImplementation(() => `blob:mock-url-${++urlCount}`)
+  })
+
+  afterEach(() => {
+    revokeObjectURLSpy.mockRestore()
+    createObjectURLSpy.mockRestore()
+  })
+
+  const runInScope = async (fn: (queue: ReturnType<typeof useCropQueue>) => Promise<void>) => {
+    const scope = effectScope()
+    await scope.run(() => fn(useCropQueue()))
+    scope.stop()
+  }
+
+  it('加入通過驗證的圖片並自動選取第一張', async () => {
+    await runInScope(async ({ items, activeItem, activeIndex, addFiles }) => {
+      const rejected = await addFiles([createJpeg('a.jpg'), createJpeg('b.jpg')])
+
+      expect(rejected).toEqual([])
+      expect(items.value.map((item) => item.name)).toEqual(['a.jpg', 'b.jpg'])
+      expect(items.value[0]).toMatchObject({
+        url: 'blob:mock-url-1',
+        mimeType: 'image/jpeg',
+        cropState: null,
+        framing: null,
+        status: 'pending',
+      })
+      expect(activeItem.value?.name).toBe('a.jpg')
+      expect(activeIndex.value).toBe(0)
+    })
+  })
+
+  it('回傳未通過驗證的檔案，不加入佇列', async () => {
+    await runInScope(async ({ items, addFiles }) => {
+      const invalid = new File(['not an image'], 'fake.jpg', { type: 'image/jpeg' })
+      const rejected = await addFiles([invalid, createJpeg('a.jpg')])
+
+      expect(items.value.map((item) => item.name)).toEqual(['a.jpg'])
+      expect(rejected).toHaveLength(1)
+      expect(rejected[0]!.file).toBe(invalid)
+      expect(rejected[0]!.result.code).toBe('invalid-content')
+    })
+  })
+
+  it('移除編輯中的圖片時改選取下一張並釋放 URL', async () => {
+    await runInScope(async ({ items, activeItem, addFiles, select, remove }) => {
+      await addFiles([createJpeg('a.jpg'), createJpeg('b.jpg'), createJpeg('c.jpg')])
+      const [, second, third] = items.value
+      select(second!.id)
+
+      remove(second!.id)
+
+      expect(revokeObjectURLSpy).toHaveBeenCalledWith(second!.url)
+      expect(activeItem.value?.id).toBe(third!.id)
+
+      remove(third!.id)
+      expect(activeItem.value?.name).toBe('a.jpg')
+    })
+  })
+
+  it('保存裁切狀態時清除待套用的裁切範圍', async () => {
+    await runInScope(async ({ items, addFiles, saveCropState, applyFramingToAll }) => {
+      await addFiles([createJpeg('a.jpg'), createJpeg('b.jpg')])
+      const [first, second] = items.value
+      applyFramingToAll({ x: 0.1, y: 0.1, width: 0.5, height: 0.5 }, first!.id)
+
+      saveCropState(second!.id, createCropState(10))
+
+      expect(items.value[1]!.cropState).toEqual(createCropState(10))
+      expect(items.value[1]!.framing).toBeNull()
+    })
+  })
+
+  it('套用裁切範圍到其他圖片並捨棄其裁切狀態', async () => {
+    await runInScope(async ({ items, addFiles, saveCropState, applyFramingToAll }) => {
+      await addFiles([createJpeg('a.jpg'), createJpeg('b.jpg'), createJpeg('c.jpg')])
+      const [first, second] = items.value
+      saveCropState(first!.id, createCropState(0))
+      saveCropState(second!.id, createCropState(20))
+
+      const framing = { x: 0.2, y: 0.1, width: 0.5, height: 0.6 }
+      applyFramingToAll(framing, first!.id)
+
+      expect(items.value[0]!.cropState).toEqual(createCropState(0))
+      expect(items.value[0]!.framing).toBeNull()
+      expect(items.value[1]!.cropState).toBeNull()
+      expect(items.value[1]!.framing).toEqual(framing)
+      expect(items.value[2]!.framing).toEqual(framing)
+    })
+  })
+
+  it('捨棄其他圖片的裁切狀態並保留待套用的裁切範圍', async () => {
+    await runInScope(
+      async ({ items, addFiles, saveCropState, applyFramingToAll, resetCropStates }) => {
+        await addFiles([createJpeg('a.jpg'), createJpeg('b.jpg'), createJpeg('c.jpg')])
+        const [first, second] = items.value
+        const framing = { x: 0.2, y: 0.1, width: 0.5, height: 0.6 }
+        applyFramingToAll(framing, first!.id)
+        saveCropState(first!.id, createCropState(0))
+        saveCropState(second!.id, createCropState(20))
+
+        resetCropStates(first!.id)
+
+        expect(items.value[0]!.cropState).toEqual(createCropState(0))
+        expect(items.value[1]!.cropState).toBeNull()
+        expect(items.value[2]!.cropState).toBeNull()
+        expect(items.value[2]!.framing).toEqual(framing)
+      },
+    )
+  })
+
+  it('依匯出狀態計算進度', async () => {
+    await runInScope(async ({ items, progress, addFiles, updateItem }) => {
+      await addFiles([createJpeg('a.jpg'), createJpeg('b.jpg'), createJpeg('c.jpg')])
+      const [first, second, third] = items.value
+
+      updateItem(first!.id, { status: 'done' })
+      updateItem(second!.id, { status: 'error', error: 'failed' })
+      updateItem(third!.id, { status: 'exporting' })
+
+      expect(progress.value).toEqual({ total: 3, completed: 2, failed: 1 })
+      expect(items.value[1]!.error).toBe('failed')
+    })
+  })
+
+  it('清除時釋放所有 URL', async () => {
+    await runInScope(async ({ items, activeItem, addFiles, clear }) => {
+      await addFiles([createJpeg('a.jpg'), createJpeg('b.jpg')])
+
+      clear()
+
+      expect(items.value).toEqual([])
+      expect(activeItem.value).toBeNull()
+      expect(revokeObjectURLSpy).toHaveBeenCalledWith('blob:mock-url-1')
+      expect(revokeObjectURLSpy).toHaveBeenCalledWith('blob:mock-url-2')
+    })
+  })
+})
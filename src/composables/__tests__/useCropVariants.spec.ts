@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest'
+import { effectScope } from 'vue'
+import { useCropVariants } from '../useCropVariants'
+import type { CropHistoryState } from '../useCropHistory'
+import type { OutputVariant } from '@/utils/imageUtils'
+
+const createCropState = (x: number): CropHistoryState => ({
+  selection: { x, y: 0, width: 90, height: 160 },
+  matrix: [1, 0, 0, 1, 0, 0],
+  rotation: 90,
+  straightenAngle: 0,
+  isFlippedX: false,
+  isFlippedY: false,
+})
+
+const FRAMING = { x: 0.1, y: 0.2, width: 0.5, height: 0.4 }
+
+const OUTPUTS: OutputVariant[] = [
+  { name: 'avatar@1x', aspectRatio: 1, width: 128 },
+  { name: 'avatar@2x', aspectRatio: 1, width: 256 },
+  { name: 'cover', aspectRatio: 16 / 9, width: 1920 },
+  { name: 'story' },
+]
+
+const setup = (outputs: OutputVariant[] | undefined, aspectRatio = 9 / 16) => {
+  const scope = effectScope()
+  const result = scope.run(() =>
+    useCropVariants(
+      () => outputs,
+      () => aspectRatio,
+    ),
+  )!
+  return { ...result, stop: () => scope.stop() }
+}
+
+describe('useCropVariants', () => {
+  it('沒有變體時使用預設比例', () => {
+    const { variants, activeVariant, aspectRatio, stop } = setup(undefined)
+
+    expect(variants.value).toEqual([])
+    expect(activeVariant.value).toBeNull()
+    expect(aspectRatio.value).toBe(9 / 16)
+    stop()
+  })
+
+  it('預設選取第一個變體，未指定比例的變體使用預設比例', () => {
+    const { variants, activeVariant, aspectRatio, stop } = setup(OUTPUTS)
+
+    expect(activeVariant.value?.name).toBe('avatar@1x')
+    expect(aspectRatio.value).toBe(1)
+    expect(variants.value[3]!.aspectRatio).toBe(9 / 16)
+    stop()
+  })
+
+  it('切換變體時更新比例，忽略不存在的名稱', () => {
+    const { activeVariant, aspectRatio, select, stop } = setup(OUTPUTS)
+
+    select('cover')
+    expect(activeVariant.value?.name).toBe('cover')
+    expect(aspectRatio.value).toBe(16 / 9)
+
+    select('unknown')
+    expect(activeVariant.value?.name).toBe('cover')
+    stop()
+  })
+
+  it('還原變體已保存的裁切狀態', () => {
+    const { saveState, getInitialState, stop } = setup(OUTPUTS)
+
+    saveState('cover', createCropState(10), FRAMING)
+    saveState('avatar@1x', createCropState(20), FRAMING)
+
+    expect(getInitialState('cover')).toEqual({ cropState: createCropState(10) })
+    stop()
+  })
+
+  it('尚未編輯過的同比例變體沿用上一個變體的完整裁切狀態', () => {
+    const { saveState, getInitialState, stop } = setup(OUTPUTS)
+
+    saveState('avatar@1x', createCropState(20), FRAMING)
+
+    expect(getInitialState('avatar@2x')).toEqual({ cropState: createCropState(20) })
+    stop()
+  })
+
+  it('尚未編輯過的不同比例變體只沿用相對裁切範圍', () => {
+    const { saveState, getInitialState, stop } = setup(OUTPUTS)
+
+    saveState('avatar@1x', createCropState(20), FRAMING)
+
+    expect(getInitialState('cover')).toEqual({ framing: FRAMING })
+    stop()
+  })
+
+  it('沒有可沿用的狀態時回傳 null', () => {
+    const { saveState, getInitialState, stop } = setup(OUTPUTS)
+
+    expect(getInitialState('cover')).toBeNull()
+
+    saveState('avatar@1x', createCropState(20), null)
+    expect(getInitialState('cover')).toBeNull()
+    stop()
+  })
+
+  it('reset 清除已保存的狀態並選回第一個變體', () => {
+    const { activeVariant, select, saveState, getInitialState, reset, stop } = setup(OUTPUTS)
+
+    select('cover')
+    saveState('cover', createCropState(10), FRAMING)
+    reset()
+
+    expect(activeVariant.value?.name).toBe('avatar@1x')
+    expect(getInitialState('cover')).toBeNull()
+    stop()
+  })
+
+  it('變體名稱重複時發出警告', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const { stop } = setup([{ name: 'thumb' }, { name: 'thumb', width: 64 }])
+
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('thumb'))
+    warnSpy.mockRestore()
+    stop()
+  })
+})
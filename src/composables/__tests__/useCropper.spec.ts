@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { effectScope, ref } from 'vue'
-import { useCropper } from '../useCropper'
+import { useCropper, validateImageDimensions } from '../useCropper'
+import { getMessages } from '@/i18n'
+import { getExportFileName } from '@/utils/imageUtils'
 
 // Mock useHeicSupport
 const isHeicSupported = ref(false)
@@ -10,6 +12,51 @@ vi.mock('../useHeicSupport', () => ({
   }),
 }))
 
+/**
+ * 各格式的檔案簽章 (Magic bytes)，驗證時依內容判斷格式
+ */
+const SIGNATURES = {
+  jpeg: [0xff, 0xd8, 0xff, 0xe0],
+  png: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  webp: [0x52, 0x49, 0x46, 0x46, 0x00, 0x00, 0x00, 0x00, 0x57, 0x45, 0x42, 0x50],
+  // ftyp box (size = 24)：major brand heic，相容品牌 mif1、heic
+  heic: [
+    0x00, 0x00, 0x00, 0x18, 0x66, 0x74, 0x79, 0x70, 0x68, 0x65, 0x69, 0x63, 0x00, 0x00, 0x00, 0x00,
+    0x6d, 0x69, 0x66, 0x31, 0x68, 0x65, 0x69, 0x63,
+  ],
+}
+
+/**
+ * 建立帶有 Orientation (APP1) 與 SOF0 (原始像素尺寸) 的 JPEG
+ */
+const createOrientedJpeg = (orientation: number, width: number, height: number) =>
+  new File(
+    [
+      new Uint8Array([
+        ...[0xff, 0xd8],
+        // APP1：Exif + Little Endian TIFF header + IFD0 (只有 Orientation)
+        ...[0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00],
+        ...[0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00],
+        ...[0x01, 0x00],
+        ...[0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, orientation, 0x00, 0x00, 0x00],
+        ...[0x00, 0x00, 0x00, 0x00],
+        // SOF0：精度 8、高度、寬度、1 個色彩元件
+        ...[0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff],
+        ...[0x01, 0x01, 0x11, 0x00],
+        ...[0xff, 0xd9],
+      ]),
+    ],
+    'photo.jpg',
+    { type: 'image/jpeg' },
+  )
+
+const createImageFile = (
+  signature: keyof typeof SIGNATURES,
+  name: string,
+  type: string,
+  content = 'test',
+) => new File([new Uint8Array(SIGNATURES[signature]), content], name, { type })
+
 describe('useCropper', () => {
   let revokeObjectURLSpy: ReturnType<typeof vi.spyOn>
   let createObjectURLSpy: ReturnType<typeof vi.spyOn>
@@ -27,13 +74,13 @@ describe('useCropper', () => {
   })
 
   describe('loadImage', () => {
-    it('接受有效的 JPEG 檔案', () => {
+    it('接受有效的 JPEG 檔案', async () => {
       const scope = effectScope()
-      scope.run(() => {
+      await scope.run(async () => {
         const { loadImage, imageUrl, imageName, imageMimeType } = useCropper()
 
-        const mockFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' })
-        const result = loadImage(mockFile)
+        const mockFile = createImageFile('jpeg', 'test.jpg', 'image/jpeg')
+        const result = await loadImage(mockFile)
 
         expect(result.valid).toBe(true)
         expect(imageUrl.value).toBe('blob:mock-url')
@@ -44,13 +91,13 @@ describe('useCropper', () => {
       scope.stop()
     })
 
-    it('接受有效的 PNG 檔案', () => {
+    it('接受有效的 PNG 檔案', async () => {
       const scope = effectScope()
-      scope.run(() => {
+      await scope.run(async () => {
         const { loadImage, imageMimeType } = useCropper()
 
-        const mockFile = new File(['test'], 'test.png', { type: 'image/png' })
-        const result = loadImage(mockFile)
+        const mockFile = createImageFile('png', 'test.png', 'image/png')
+        const result = await loadImage(mockFile)
 
         expect(result.valid).toBe(true)
         expect(imageMimeType.value).toBe('image/png')
@@ -58,13 +105,13 @@ describe('useCropper', () => {
       scope.stop()
     })
 
-    it('接受 WebP 格式', () => {
+    it('接受 WebP 格式', async () => {
       const scope = effectScope()
-      scope.run(() => {
+      await scope.run(async () => {
         const { loadImage } = useCropper()
 
-        const mockFile = new File(['test'], 'test.webp', { type: 'image/webp' })
-        const result = loadImage(mockFile)
+        const mockFile = createImageFile('webp', 'test.webp', 'image/webp')
+        const result = await loadImage(mockFile)
 
         expect(result.valid).toBe(true)
       })
@@ -72,13 +119,13 @@ describe('useCropper', () => {
     })
 
     describe('HEIC 支援控制', () => {
-      it('當不支援 HEIC 時拒絕 HEIC 檔案', () => {
+      it('當不支援 HEIC 時拒絕 HEIC 檔案', async () => {
         isHeicSupported.value = false
         const scope = effectScope()
-        scope.run(() => {
+        await scope.run(async () => {
           const { loadImage } = useCropper()
-          const mockFile = new File(['test'], 'test.heic', { type: 'image/heic' })
-          const result = loadImage(mockFile)
+          const mockFile = createImageFile('heic', 'test.heic', 'image/heic')
+          const result = await loadImage(mockFile)
 
           expect(result.valid).toBe(false)
           expect(result.error).toContain('不支援的圖片格式')
@@ -86,13 +133,13 @@ describe('useCropper', () => {
         scope.stop()
       })
 
-      it('當支援 HEIC 時接受 HEIC 檔案', () => {
+      it('當支援 HEIC 時接受 HEIC 檔案', async () => {
         isHeicSupported.value = true
         const scope = effectScope()
-        scope.run(() => {
+        await scope.run(async () => {
           const { loadImage, imageMimeType } = useCropper()
-          const mockFile = new File(['test'], 'test.heic', { type: 'image/heic' })
-          const result = loadImage(mockFile)
+          const mockFile = createImageFile('heic', 'test.heic', 'image/heic')
+          const result = await loadImage(mockFile)
 
           expect(result.valid).toBe(true)
           expect(imageMimeType.value).toBe('image/heic')
@@ -101,15 +148,16 @@ describe('useCropper', () => {
       })
     })
 
-    it('拒絕不支援的檔案格式', () => {
+    it('拒絕不支援的檔案格式', async () => {
       const scope = effectScope()
-      scope.run(() => {
+      await scope.run(async () => {
         const { loadImage, imageUrl } = useCropper()
 
         const mockFile = new File(['test'], 'test.pdf', { type: 'application/pdf' })
-        const result = loadImage(mockFile)
+        const result = await loadImage(mockFile)
 
         expect(result.valid).toBe(false)
+        expect(result.code).toBe('unsupported-format')
         expect(result.error).toContain('不支援的圖片格式')
         expect(imageUrl.value).toBe('')
         expect(createObjectURLSpy).not.toHaveBeenCalled()
@@ -117,33 +165,201 @@ describe('useCropper', () => {
       scope.stop()
     })
 
-    it('拒絕超過大小限制的檔案', () => {
+    it('拒絕超過大小限制的檔案', async () => {
       const scope = effectScope()
-      scope.run(() => {
+      await scope.run(async () => {
         const maxSize = 1024 * 1024
         const { loadImage } = useCropper(maxSize)
 
         const largeMockData = new Array(maxSize + 1).fill('a').join('')
-        const mockFile = new File([largeMockData], 'large.jpg', { type: 'image/jpeg' })
-        const result = loadImage(mockFile)
+        const mockFile = createImageFile('jpeg', 'large.jpg', 'image/jpeg', largeMockData)
+        const result = await loadImage(mockFile)
 
         expect(result.valid).toBe(false)
+        expect(result.code).toBe('file-too-large')
         expect(result.error).toContain('超過')
         expect(result.error).toContain('1MB')
       })
       scope.stop()
     })
 
-    it('載入新圖片時釋放舊的 URL', () => {
+    describe('檔案內容驗證 (Magic bytes)', () => {
+      it('拒絕改副檔名的非圖片檔案', async () => {
+        const scope = effectScope()
+        await scope.run(async () => {
+          const { loadImage, imageUrl } = useCropper()
+
+          // Windows 執行檔 (MZ) 改名為 .jpg
+          const mockFile = new File([new Uint8Array([0x4d, 0x5a, 0x90, 0x00])], 'virus.jpg', {
+            type: 'image/jpeg',
+          })
+          const result = await loadImage(mockFile)
+
+          expect(result.valid).toBe(false)
+          expect(result.code).toBe('invalid-content')
+          expect(imageUrl.value).toBe('')
+        })
+        scope.stop()
+      })
+
+      it('拒絕內容與宣告類型不符的檔案', async () => {
+        const scope = effectScope()
+        await scope.run(async () => {
+          const { loadImage } = useCropper()
+
+          const mockFile = createImageFile('jpeg', 'photo.png', 'image/png')
+          const result = await loadImage(mockFile)
+
+          expect(result.valid).toBe(false)
+          expect(result.code).toBe('type-mismatch')
+          expect(result.error).toContain('JPG')
+        })
+        scope.stop()
+      })
+
+      it('接受沒有 MIME type 的 HEIC 檔案，並以內容設定 imageMimeType', async () => {
+        isHeicSupported.value = true
+        const scope = effectScope()
+        await scope.run(async () => {
+          const { loadImage, imageMimeType } = useCropper()
+
+          const mockFile = createImageFile('heic', 'IMG_0001.HEIC', '')
+          const result = await loadImage(mockFile)
+
+          expect(result.valid).toBe(true)
+          expect(imageMimeType.value).toBe('image/heic')
+        })
+        scope.stop()
+      })
+
+      it('接受 MIME type 別名 (image/jpg)', async () => {
+        const scope = effectScope()
+        await scope.run(async () => {
+          const { loadImage, imageMimeType } = useCropper()
+
+          const result = await loadImage(createImageFile('jpeg', 'test.jpg', 'image/jpg'))
+
+          expect(result.valid).toBe(true)
+          expect(imageMimeType.value).toBe('image/jpeg')
+        })
+        scope.stop()
+      })
+    })
+
+    describe('像素尺寸限制', () => {
+      // 模擬解碼後的圖片尺寸 (happy-dom 不會實際解碼圖片)
+      const stubImageSize = (width: number, height: number) => {
+        vi.stubGlobal(
+          'Image',
+          class {
+            naturalWidth = width
+            naturalHeight = height
+            onload: (() => void) | null = null
+            set src(_value: string) {
+              queueMicrotask(() => this.onload?.())
+            }
+          },
+        )
+      }
+
+      afterEach(() => {
+        vi.unstubAllGlobals()
+      })
+
+      it('拒絕小於最小尺寸的圖片並釋放 URL', async () => {
+        stubImageSize(200, 200)
+        const scope = effectScope()
+        await scope.run(async () => {
+          const { loadImage, imageUrl } = useCropper(undefined, () => ({ minWidth: 400 }))
+
+          const result = await loadImage(createImageFile('jpeg', 'small.jpg', 'image/jpeg'))
+
+          expect(result.valid).toBe(false)
+          expect(result.code).toBe('image-too-small')
+          expect(imageUrl.value).toBe('')
+          expect(revokeObjectURLSpy).toHaveBeenCalledWith('blob:mock-url')
+        })
+        scope.stop()
+      })
+
+      it('拒絕超過像素數上限的圖片', async () => {
+        stubImageSize(20000, 20000)
+        const scope = effectScope()
+        await scope.run(async () => {
+          const { loadImage } = useCropper(undefined, () => ({ maxMegapixels: 50 }))
+
+          const result = await loadImage(createImageFile('png', 'bomb.png', 'image/png'))
+
+          expect(result.valid).toBe(false)
+          expect(result.code).toBe('image-too-large')
+        })
+        scope.stop()
+      })
+
+      it('JPEG 在方向校正 (解碼) 前以檔案標頭的尺寸拒絕超大圖片', async () => {
+        const createImageBitmapSpy = vi.fn()
+        vi.stubGlobal('createImageBitmap', createImageBitmapSpy)
+        const scope = effectScope()
+        await scope.run(async () => {
+          const { loadImage } = useCropper(undefined, () => ({ maxHeight: 10000 }))
+
+          // Orientation 6 旋轉 90 度：原始 20000 × 100 顯示為 100 × 20000
+          const result = await loadImage(createOrientedJpeg(6, 20000, 100))
+
+          expect(result.code).toBe('image-too-large')
+          expect(result.params).toMatchObject({ dimension: 'height', actual: 20000 })
+          expect(createImageBitmapSpy).not.toHaveBeenCalled()
+          expect(createObjectURLSpy).not.toHaveBeenCalled()
+        })
+        scope.stop()
+      })
+
+      it('每次載入時讀取尺寸限制，建立後變更的限制也會生效', async () => {
+        stubImageSize(200, 200)
+        const scope = effectScope()
+        await scope.run(async () => {
+          const minWidth = ref<number | undefined>(undefined)
+          const { loadImage } = useCropper(undefined, () => ({ minWidth: minWidth.value }))
+
+          expect((await loadImage(createImageFile('png', 'a.png', 'image/png'))).valid).toBe(true)
+
+          minWidth.value = 400
+          const result = await loadImage(createImageFile('png', 'b.png', 'image/png'))
+
+          expect(result.code).toBe('image-too-small')
+        })
+        scope.stop()
+      })
+
+      it('尺寸符合限制時正常載入', async () => {
+        stubImageSize(1080, 1920)
+        const scope = effectScope()
+        await scope.run(async () => {
+          const { loadImage, imageUrl } = useCropper(undefined, () => ({
+            minWidth: 400,
+            minHeight: 400,
+            maxMegapixels: 50,
+          }))
+
+          const result = await loadImage(createImageFile('jpeg', 'ok.jpg', 'image/jpeg'))
+
+          expect(result.valid).toBe(true)
+          expect(imageUrl.value).toBe('blob:mock-url')
+        })
+        scope.stop()
+      })
+    })
+
+    it('載入新圖片時釋放舊的 URL', async () => {
       const scope = effectScope()
-      scope.run(() => {
+      await scope.run(async () => {
         const { loadImage } = useCropper()
 
-        const mockFile1 = new File(['test1'], 'test1.jpg', { type: 'image/jpeg' })
-        loadImage(mockFile1)
+        const mockFile1 = createImageFile('jpeg', 'test1.jpg', 'image/jpeg', 'test1')
+        await loadImage(mockFile1)
 
-        const mockFile2 = new File(['test2'], 'test2.jpg', { type: 'image/jpeg' })
-        loadImage(mockFile2)
+        const mockFile2 = createImageFile('jpeg', 'test2.jpg', 'image/jpeg', 'test2')
+        await loadImage(mockFile2)
 
         expect(revokeObjectURLSpy).toHaveBeenCalledWith('blob:mock-url')
         expect(createObjectURLSpy).toHaveBeenCalledTimes(2)
@@ -152,14 +368,121 @@ describe('useCropper', () => {
     })
   })
 
+  describe('loadFromSource', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('以 CORS 模式取得遠端圖片，並以網址的檔名套用相同的驗證', async () => {
+      const blob = new Blob([new Uint8Array(SIGNATURES.png), 'test'], { type: 'image/png' })
+      const fetchMock = vi.fn().mockResolvedValue(new Response(blob, { status: 200 }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const scope = effectScope()
+      await scope.run(async () => {
+        const { loadFromSource, imageName, imageMimeType } = useCropper()
+
+        const result = await loadFromSource('https://cdn.example.com/avatars/me.png?v=2')
+
+        expect(result.valid).toBe(true)
+        expect(fetchMock).toHaveBeenCalledWith('https://cdn.example.com/avatars/me.png?v=2', {
+          mode: 'cors',
+        })
+        expect(imageName.value).toBe('me.png')
+        expect(imageMimeType.value).toBe('image/png')
+      })
+      scope.stop()
+    })
+
+    it('取得失敗 (網路錯誤或 CORS) 與 HTTP 錯誤時回傳 fetch-failed', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(new Response(null, { status: 404 }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const scope = effectScope()
+      await scope.run(async () => {
+        const { loadFromSource, imageUrl } = useCropper()
+
+        const corsResult = await loadFromSource('https://other.example.com/a.jpg')
+        expect(corsResult.code).toBe('fetch-failed')
+        expect(corsResult.params).toEqual({})
+
+        const httpResult = await loadFromSource('https://other.example.com/b.jpg')
+        expect(httpResult.code).toBe('fetch-failed')
+        expect(httpResult.params).toEqual({ status: 404 })
+        expect(httpResult.error).toBe(getMessages().validation['fetch-failed']({ status: 404 }))
+        expect(imageUrl.value).toBe('')
+      })
+      scope.stop()
+    })
+
+    it('讀取回應內容失敗時回傳 fetch-failed 而不拋出錯誤', async () => {
+      const response = new Response('test', { status: 200 })
+      vi.spyOn(response, 'blob').mockRejectedValue(new DOMException('aborted', 'AbortError'))
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(response))
+
+      const scope = effectScope()
+      await scope.run(async () => {
+        const { loadFromSource, imageUrl } = useCropper()
+
+        const result = await loadFromSource('https://cdn.example.com/a.jpg')
+        expect(result.code).toBe('fetch-failed')
+        expect(result.params).toEqual({})
+        expect(imageUrl.value).toBe('')
+      })
+      scope.stop()
+    })
+
+    it('Blob 不需取得，仍套用大小限制', async () => {
+      const fetchMock = vi.fn()
+      vi.stubGlobal('fetch', fetchMock)
+
+      const scope = effectScope()
+      await scope.run(async () => {
+        const { loadFromSource, imageName } = useCropper(10)
+
+        const blob = new Blob([new Uint8Array(SIGNATURES.jpeg), 'large content'], {
+          type: 'image/jpeg',
+        })
+        const result = await loadFromSource(blob)
+        expect(result.code).toBe('file-too-large')
+
+        const file = createImageFile('jpeg', 'named.jpg', 'image/jpeg', '')
+        expect((await loadFromSource(file)).valid).toBe(true)
+        expect(imageName.value).toBe('named.jpg')
+        expect(fetchMock).not.toHaveBeenCalled()
+      })
+      scope.stop()
+    })
+
+    it('由 Blob 載入時匯出的檔名仍包含後綴與副檔名', async () => {
+      const scope = effectScope()
+      await scope.run(async () => {
+        const { loadFromSource, imageName } = useCropper()
+
+        const blob = new Blob([new Uint8Array(SIGNATURES.png), 'test'], { type: 'image/png' })
+        expect((await loadFromSource(blob)).valid).toBe(true)
+
+        // 與容器上傳時產生檔名的方式相同
+        expect(getExportFileName(imageName.value, 'cropped', '.webp')).toBe('image-cropped.webp')
+        expect(getExportFileName(imageName.value, 'avatar@2x', '.webp')).toBe(
+          'image-avatar@2x.webp',
+        )
+      })
+      scope.stop()
+    })
+  })
+
   describe('clear', () => {
-    it('清除所有狀態並釋放 URL', () => {
+    it('清除所有狀態並釋放 URL', async () => {
       const scope = effectScope()
-      scope.run(() => {
+      await scope.run(async () => {
         const { loadImage, clear, imageUrl, imageName, imageMimeType } = useCropper()
 
-        const mockFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' })
-        loadImage(mockFile)
+        const mockFile = createImageFile('jpeg', 'test.jpg', 'image/jpeg')
+        await loadImage(mockFile)
 
         clear()
 
@@ -201,3 +524,33 @@ describe('useCropper', () => {
     })
   })
 })
+
+describe('validateImageDimensions', () => {
+  it('未設定限制時通過', () => {
+    expect(validateImageDimensions(10, 10, {})).toEqual({ valid: true })
+  })
+
+  it('檢查最小寬高', () => {
+    expect(validateImageDimensions(300, 800, { minWidth: 400 }).code).toBe('image-too-small')
+    expect(validateImageDimensions(800, 300, { minHeight: 400 }).code).toBe('image-too-small')
+  })
+
+  it('檢查最大寬高', () => {
+    const result = validateImageDimensions(5000, 100, { maxWidth: 4096 })
+    expect(result.code).toBe('image-too-large')
+    expect(result.params).toEqual({ dimension: 'width', actual: 5000, limit: 4096 })
+    expect(result.error).toContain('4096px')
+    expect(validateImageDimensions(100, 5000, { maxHeight: 4096 }).code).toBe('image-too-large')
+  })
+
+  it('依指定的訊息目錄產生錯誤訊息', () => {
+    const result = validateImageDimensions(300, 800, { minWidth: 400 }, getMessages('en'))
+    expect(result.error).toBe('The image width of 300px is below the minimum of 400px')
+  })
+
+  it('檢查像素數上限', () => {
+    const result = validateImageDimensions(10000, 6000, { maxMegapixels: 50 })
+    expect(result.code).toBe('image-too-large')
+    expect(result.error).toContain('60.0MP')
+  })
+})
@@ -1,5 +1,29 @@
 import { describe, it, expect } from 'vitest'
-import { calculateFitSelection } from '../useCropperCalculation'
+import {
+  calculateCropData,
+  calculateCoverZoom,
+  calculateCropDataMatrix,
+  calculateFitSelection,
+  calculateFraming,
+  calculateImageCoverSelection,
+  calculateImagePlacementFromCropData,
+  calculateResizedSelection,
+  calculateSelectionFromCropData,
+  calculateSelectionFromFraming,
+  calculateSelectionWithinImage,
+  calculateZoomLimitScale,
+  canvasToSourcePoint,
+  flipMatrix,
+  getMatrixRotation,
+  getMatrixScale,
+  isSelectionWithinImage,
+  isShrinkingBelowMinOutput,
+  isValidCropData,
+  rotateMatrix,
+  sourceToCanvasPoint,
+  splitRotation,
+  type TransformMatrix,
+} from '../useCropperCalculation'
 
 const createMockRect = (left: number, top: number, width: number, height: number): DOMRect =>
   ({
@@ -120,4 +144,580 @@ describe('calculateFitSelection', () => {
     expect(result).toBeDefined()
     expect(result!.width).toBeGreaterThan(result!.height)
   })
+
+  it('指定中心點時以該點為中心 (切換比例時維持構圖重心)', () => {
+    const imageRect = createMockRect(0, 0, 400, 400)
+    const canvasRect = createMockRect(0, 0, 600, 600)
+    const result = calculateFitSelection(imageRect, canvasRect, 1, 0.5, { x: 150, y: 250 })
+
+    expect(result).toEqual({ x: 50, y: 150, width: 200, height: 200 })
+  })
+
+  it('指定的中心點靠近邊緣時修正位置，不超出圖片', () => {
+    const imageRect = createMockRect(50, 50, 400, 400)
+    const canvasRect = createMockRect(0, 0, 600, 600)
+    const result = calculateFitSelection(imageRect, canvasRect, 1, 0.5, { x: 440, y: 60 })
+
+    expect(result).toEqual({ x: 250, y: 50, width: 200, height: 200 })
+  })
+})
+
+describe('變換矩陣工具', () => {
+  const IDENTITY: TransformMatrix = [1, 0, 0, 1, 0, 0]
+
+  it('getMatrixScale 在旋轉後仍回傳等比縮放值', () => {
+    const matrix = rotateMatrix([0.5, 0, 0, 0.5, 10, 20], 30)
+    expect(getMatrixScale(matrix)).toBeCloseTo(0.5, 6)
+  })
+
+  it('getMatrixScale 在翻轉後仍為正值', () => {
+    const matrix = flipMatrix([0.5, 0, 0, 0.5, 0, 0], 'horizontal')
+    expect(getMatrixScale(matrix)).toBeCloseTo(0.5, 6)
+  })
+
+  it('rotateMatrix 保留位移 (以圖片中心旋轉)', () => {
+    const matrix = rotateMatrix([1, 0, 0, 1, 30, 40], 90)
+    expect(matrix[4]).toBe(30)
+    expect(matrix[5]).toBe(40)
+    expect(getMatrixRotation(matrix)).toBeCloseTo(Math.PI / 2, 6)
+  })
+
+  it('連續旋轉四次 90 度回到原始矩陣', () => {
+    let matrix = IDENTITY
+    for (let i = 0; i < 4; i++) matrix = rotateMatrix(matrix, 90)
+    matrix.forEach((value, index) => expect(value).toBeCloseTo(IDENTITY[index]!, 6))
+  })
+
+  it('flipMatrix 水平翻轉反轉 a 與 c', () => {
+    expect(flipMatrix([1, 2, 3, 4, 5, 6], 'horizontal')).toEqual([-1, 2, -3, 4, 5, 6])
+  })
+
+  it('flipMatrix 垂直翻轉反轉 b 與 d', () => {
+    expect(flipMatrix([1, 2, 3, 4, 5, 6], 'vertical')).toEqual([1, -2, 3, -4, 5, 6])
+  })
+})
+
+describe('calculateSelectionWithinImage', () => {
+  // 圖片中心 (200, 200)，顯示尺寸 400x400
+  const createImageBox = (rotationDegrees = 0) => ({
+    centerX: 200,
+    centerY: 200,
+    width: 400,
+    height: 400,
+    rotation: (rotationDegrees * Math.PI) / 180,
+  })
+
+  it('未旋轉時，選取框在範圍內不需調整', () => {
+    const selection = { x: 50, y: 50, width: 100, height: 100 }
+    expect(isSelectionWithinImage(selection, createImageBox())).toBe(true)
+    expect(calculateSelectionWithinImage(selection, createImageBox())).toEqual(selection)
+  })
+
+  it('未旋轉時，超出邊界的選取框會被移回', () => {
+    const result = calculateSelectionWithinImage(
+      { x: 350, y: -20, width: 100, height: 100 },
+      createImageBox(),
+    )
+    expect(result.x).toBeCloseTo(300, 6)
+    expect(result.y).toBeCloseTo(0, 6)
+    expect(result.width).toBeCloseTo(100, 6)
+  })
+
+  it('未旋轉時，過大的選取框以中心等比縮小', () => {
+    const result = calculateSelectionWithinImage(
+      { x: 0, y: -200, width: 400, height: 800 },
+      createImageBox(),
+    )
+    expect(result.width).toBeCloseTo(200, 6)
+    expect(result.height).toBeCloseTo(400, 6)
+    expect(result.y).toBeCloseTo(0, 6)
+  })
+
+  it('旋轉 45 度時，外接矩形角落不在圖片範圍內', () => {
+    // 選取框位於外接矩形的左上角，但該處沒有圖片
+    const selection = { x: -60, y: -60, width: 40, height: 40 }
+    const imageBox = createImageBox(45)
+
+    expect(isSelectionWithinImage(selection, imageBox)).toBe(false)
+    const result = calculateSelectionWithinImage(selection, imageBox)
+    expect(isSelectionWithinImage(result, imageBox)).toBe(true)
+  })
+
+  it('旋轉 45 度時，選取框縮小到能完整放入圖片內', () => {
+    const imageBox = createImageBox(45)
+    const result = calculateSelectionWithinImage({ x: 0, y: 0, width: 400, height: 400 }, imageBox)
+
+    // 正方形圖片旋轉 45 度後，可容納的最大正方形邊長為 400 / √2
+    expect(result.width).toBeCloseTo(400 / Math.SQRT2, 6)
+    expect(result.height).toBeCloseTo(400 / Math.SQRT2, 6)
+    expect(isSelectionWithinImage(result, imageBox)).toBe(true)
+  })
+})
+
+describe('calculateImageCoverSelection', () => {
+  const selection = { x: 100, y: 100, width: 90, height: 160 }
+
+  it('圖片已覆蓋選取框時不需調整', () => {
+    const result = calculateImageCoverSelection(selection, {
+      centerX: 145,
+      centerY: 180,
+      width: 300,
+      height: 300,
+      rotation: 0,
+    })
+    expect(result).toEqual({ scale: 1, dx: 0, dy: 0 })
+  })
+
+  it('圖片與選取框之間有空隙時移動圖片', () => {
+    // 圖片範圍 x: 120~320，選取框 x: 100~190，左側有 20px 空隙
+    const result = calculateImageCoverSelection(selection, {
+      centerX: 220,
+      centerY: 180,
+      width: 200,
+      height: 300,
+      rotation: 0,
+    })
+    expect(result.scale).toBe(1)
+    expect(result.dx).toBeCloseTo(-20, 6)
+    expect(result.dy).toBeCloseTo(0, 6)
+  })
+
+  it('圖片小於選取框時放大', () => {
+    const result = calculateImageCoverSelection(selection, {
+      centerX: 145,
+      centerY: 180,
+      width: 90,
+      height: 80,
+      rotation: 0,
+    })
+    expect(result.scale).toBeCloseTo(2, 6)
+  })
+
+  it('旋轉 90 度時以旋轉後的尺寸判斷覆蓋', () => {
+    // 160x90 的橫向圖片旋轉 90 度後剛好覆蓋 90x160 的選取框
+    const result = calculateImageCoverSelection(selection, {
+      centerX: 145,
+      centerY: 180,
+      width: 160,
+      height: 90,
+      rotation: Math.PI / 2,
+    })
+    expect(result.scale).toBeCloseTo(1, 6)
+    expect(result.dx).toBeCloseTo(0, 6)
+    expect(result.dy).toBeCloseTo(0, 6)
+  })
+
+  it('放大倍率在容許值內時不放大', () => {
+    const result = calculateImageCoverSelection(
+      selection,
+      { centerX: 145, centerY: 180, width: 89.5, height: 300, rotation: 0 },
+      0.01,
+    )
+    expect(result.scale).toBe(1)
+  })
+})
+
+describe('縮放限制 (可移動背景模式)', () => {
+  it('calculateCoverZoom 取剛好覆蓋區域的縮放倍率', () => {
+    expect(calculateCoverZoom({ width: 90, height: 160 }, 1080, 1920, 0)).toBeCloseTo(1 / 12, 6)
+    expect(calculateCoverZoom({ width: 90, height: 160 }, 1920, 1080, 0)).toBeCloseTo(160 / 1080, 6)
+  })
+
+  it('calculateCoverZoom 考慮圖片的旋轉角度', () => {
+    expect(calculateCoverZoom({ width: 90, height: 160 }, 1920, 1080, Math.PI / 2)).toBeCloseTo(
+      1 / 12,
+      6,
+    )
+    // 旋轉 45 度時需覆蓋區域的外接正方形
+    const extent = (90 + 160) / Math.SQRT2
+    expect(calculateCoverZoom({ width: 90, height: 160 }, 1000, 1000, Math.PI / 4)).toBeCloseTo(
+      extent / 1000,
+      6,
+    )
+  })
+
+  it('calculateZoomLimitScale 在範圍內時為 1', () => {
+    expect(calculateZoomLimitScale(2, 0.5, 4)).toBe(1)
+  })
+
+  it('calculateZoomLimitScale 超出範圍時縮放回邊界', () => {
+    expect(calculateZoomLimitScale(8, 0.5, 4)).toBe(0.5)
+    expect(calculateZoomLimitScale(0.25, 0.5, 4)).toBe(2)
+  })
+
+  it('calculateZoomLimitScale 的最小值大於最大值時以最小值為準', () => {
+    expect(calculateZoomLimitScale(1, 2, 1)).toBe(2)
+  })
+})
+
+describe('isShrinkingBelowMinOutput', () => {
+  const MIN_OUTPUT = { width: 400, height: 400 }
+  const current = { width: 200, height: 200 }
+
+  it('只縮小高度 (自由比例拖曳上下控制點) 且低於最低解析度時為 true', () => {
+    expect(
+      isShrinkingBelowMinOutput(
+        current,
+        { width: 200, height: 150 },
+        { width: 800, height: 300 },
+        MIN_OUTPUT,
+      ),
+    ).toBe(true)
+  })
+
+  it('縮小後仍高於最低解析度時為 false', () => {
+    expect(
+      isShrinkingBelowMinOutput(
+        current,
+        { width: 200, height: 150 },
+        { width: 800, height: 600 },
+        MIN_OUTPUT,
+      ),
+    ).toBe(false)
+  })
+
+  it('已經低於最低解析度時仍允許移動與放大', () => {
+    expect(
+      isShrinkingBelowMinOutput(current, current, { width: 300, height: 300 }, MIN_OUTPUT),
+    ).toBe(false)
+    expect(
+      isShrinkingBelowMinOutput(
+        current,
+        { width: 220, height: 220 },
+        { width: 330, height: 330 },
+        MIN_OUTPUT,
+      ),
+    ).toBe(false)
+  })
+})
+
+describe('calculateResizedSelection', () => {
+  it('以左上角為基準放大並維持長寬比', () => {
+    const result = calculateResizedSelection({ x: 10, y: 20, width: 90, height: 160 }, 9, 9 / 16)
+
+    expect(result.x).toBe(10)
+    expect(result.y).toBe(20)
+    expect(result.width).toBe(99)
+    expect(result.height).toBeCloseTo(176)
+  })
+
+  it('縮小時不小於最小尺寸', () => {
+    const result = calculateResizedSelection({ x: 0, y: 0, width: 20, height: 10 }, -50, 2, 5)
+
+    expect(result.width).toBe(10)
+    expect(result.height).toBe(5)
+  })
+})
+
+describe('calculateFraming / calculateSelectionFromFraming', () => {
+  it('轉換為相對於圖片的比例', () => {
+    const framing = calculateFraming(
+      { x: 150, y: 50, width: 200, height: 400 },
+      { x: 50, y: 50, width: 400, height: 400 },
+    )
+
+    expect(framing).toEqual({ x: 0.25, y: 0, width: 0.5, height: 1 })
+  })
+
+  it('套用到相同尺寸的圖片時還原原本的選取框', () => {
+    const image = { x: 20, y: 40, width: 600, height: 800 }
+    const selection = { x: 120, y: 140, width: 180, height: 320 }
+    const framing = calculateFraming(selection, image)!
+
+    const result = calculateSelectionFromFraming(framing, image, 9 / 16)!
+    expect(result.x).toBeCloseTo(120)
+    expect(result.y).toBeCloseTo(140)
+    expect(result.width).toBeCloseTo(180)
+    expect(result.height).toBeCloseTo(320)
+  })
+
+  it('圖片長寬比不同時維持比例並縮小到圖片範圍內', () => {
+    // 直向圖片上的全高裁切框，套用到橫向圖片
+    const framing = { x: 0.2, y: 0, width: 0.6, height: 1 }
+    const result = calculateSelectionFromFraming(
+      framing,
+      { x: 0, y: 0, width: 800, height: 200 },
+      1,
+    )!
+
+    expect(result.width).toBe(200)
+    expect(result.height).toBe(200)
+    // 維持相對中心點 (0.5)
+    expect(result.x).toBe(300)
+    expect(result.y).toBe(0)
+  })
+
+  it('自由比例時沿用相對的寬與高', () => {
+    const result = calculateSelectionFromFraming(
+      { x: 0.1, y: 0.2, width: 0.5, height: 0.25 },
+      { x: 0, y: 0, width: 800, height: 400 },
+      null,
+    )!
+
+    expect(result).toEqual({ x: 80, y: 80, width: 400, height: 100 })
+  })
+
+  it('靠近邊緣時修正位置，不超出圖片', () => {
+    const result = calculateSelectionFromFraming(
+      { x: 0.9, y: 0.9, width: 0.5, height: 0.5 },
+      { x: 0, y: 0, width: 100, height: 100 },
+      1,
+    )!
+
+    expect(result.x + result.width).toBe(100)
+    expect(result.y + result.height).toBe(100)
+  })
+
+  it('圖片尺寸無效時回傳 null', () => {
+    expect(
+      calculateFraming({ x: 0, y: 0, width: 1, height: 1 }, { x: 0, y: 0, width: 0, height: 0 }),
+    ).toBeNull()
+  })
+})
+
+describe('calculateCropData', () => {
+  // 原圖 800x600 以 0.5 倍顯示 (400x300)，中心位於 (200, 150)
+  const IMAGE = { centerX: 200, centerY: 150, naturalWidth: 800, naturalHeight: 600 }
+  const SCALED: TransformMatrix = [0.5, 0, 0, 0.5, 0, 0]
+  const NO_FLIP = { x: false, y: false }
+
+  describe('移動裁切框模式', () => {
+    it('未旋轉時換算為原圖上的裁切矩形', () => {
+      const result = calculateCropData(
+        { x: 100, y: 50, width: 200, height: 100 },
+        IMAGE,
+        SCALED,
+        NO_FLIP,
+      )
+
+      expect(result).toEqual({
+        x: 200,
+        y: 100,
+        width: 400,
+        height: 200,
+        rotate: 0,
+        scaleX: 1,
+        scaleY: 1,
+      })
+    })
+
+    it('旋轉 90 度時以旋轉後的外接矩形 (600x800) 為座標系', () => {
+      // 旋轉後顯示為 300x400，左上角位於 (50, -50)
+      const result = calculateCropData(
+        { x: 50, y: -50, width: 150, height: 200 },
+        IMAGE,
+        rotateMatrix(SCALED, 90),
+        NO_FLIP,
+      )
+
+      expect(result).toEqual({
+        x: 0,
+        y: 0,
+        width: 300,
+        height: 400,
+        rotate: 90,
+        scaleX: 1,
+        scaleY: 1,
+      })
+    })
+
+    it('水平翻轉時回傳 scaleX = -1，角度不變', () => {
+      const result = calculateCropData(
+        { x: 0, y: 0, width: 400, height: 300 },
+        IMAGE,
+        flipMatrix(SCALED, 'horizontal'),
+        { x: true, y: false },
+      )
+
+      expect(result).toEqual({
+        x: 0,
+        y: 0,
+        width: 800,
+        height: 600,
+        rotate: 0,
+        scaleX: -1,
+        scaleY: 1,
+      })
+    })
+
+    it('旋轉後再翻轉時，角度與編輯器的 rotation 相同 (先翻轉再旋轉)', () => {
+      // 編輯器向右旋轉 90 度後水平翻轉，rotation 變為 270
+      const matrix = flipMatrix(rotateMatrix(SCALED, 90), 'horizontal')
+      const result = calculateCropData({ x: 50, y: -50, width: 300, height: 400 }, IMAGE, matrix, {
+        x: true,
+        y: false,
+      })
+
+      expect(result.rotate).toBe(270)
+      expect(result.scaleX).toBe(-1)
+      expect(result).toMatchObject({ x: 0, y: 0, width: 600, height: 800 })
+    })
+
+    it('拉直角度會計入 rotate，外接矩形隨角度放大', () => {
+      // 原圖 100x100 旋轉 45 度，外接矩形邊長約 141.42
+      const result = calculateCropData(
+        { x: 25, y: 25, width: 50, height: 50 },
+        { centerX: 50, centerY: 50, naturalWidth: 100, naturalHeight: 100 },
+        rotateMatrix([1, 0, 0, 1, 0, 0], 45),
+        NO_FLIP,
+      )
+
+      expect(result).toEqual({
+        x: 46,
+        y: 46,
+        width: 50,
+        height: 50,
+        rotate: 45,
+        scaleX: 1,
+        scaleY: 1,
+      })
+    })
+  })
+
+  describe('移動圖片模式', () => {
+    // 裁切框固定為 360x640，原圖 1080x1920
+    const SELECTION = { x: 0, y: 0, width: 360, height: 640 }
+    const SOURCE = { naturalWidth: 1080, naturalHeight: 1920 }
+
+    it('移動圖片後，裁切矩形隨圖片位置改變', () => {
+      // 以 0.5 倍顯示，圖片中心移動到 (150, 400)
+      const result = calculateCropData(
+        SELECTION,
+        { ...SOURCE, centerX: 150, centerY: 400 },
+        [0.5, 0, 0, 0.5, 0, 0],
+        NO_FLIP,
+      )
+
+      expect(result).toMatchObject({ x: 240, y: 160, width: 720, height: 1280 })
+    })
+
+    it('放大圖片後，裁切矩形在原圖上變小', () => {
+      // 以 1 倍顯示，圖片中心移動到 (100, 300)
+      const result = calculateCropData(
+        SELECTION,
+        { ...SOURCE, centerX: 100, centerY: 300 },
+        [1, 0, 0, 1, 0, 0],
+        NO_FLIP,
+      )
+
+      expect(result).toMatchObject({ x: 440, y: 660, width: 360, height: 640 })
+    })
+  })
+})
+
+describe('原始圖片像素與 Canvas 座標換算 (焦點)', () => {
+  const image = { centerX: 200, centerY: 150, naturalWidth: 800, naturalHeight: 600 }
+
+  it('未旋轉時以縮放比例換算', () => {
+    const point = sourceToCanvasPoint({ x: 0, y: 600 }, image, [0.5, 0, 0, 0.5, 0, 0])
+    expect(point.x).toBeCloseTo(0, 6)
+    expect(point.y).toBeCloseTo(300, 6)
+  })
+
+  it('考慮旋轉與翻轉', () => {
+    // 順時針旋轉 90 度：原圖左上角轉到右上角
+    const rotated = rotateMatrix([0.5, 0, 0, 0.5, 0, 0], 90)
+    const point = sourceToCanvasPoint({ x: 0, y: 0 }, image, rotated)
+    expect(point.x).toBeCloseTo(350, 6)
+    expect(point.y).toBeCloseTo(-50, 6)
+
+    // 水平翻轉：原圖左上角轉到右上角
+    const flipped = flipMatrix([0.5, 0, 0, 0.5, 0, 0], 'horizontal')
+    const flippedPoint = sourceToCanvasPoint({ x: 0, y: 0 }, image, flipped)
+    expect(flippedPoint.x).toBeCloseTo(400, 6)
+    expect(flippedPoint.y).toBeCloseTo(0, 6)
+  })
+
+  it('canvasToSourcePoint 為反向換算', () => {
+    const matrix = flipMatrix(rotateMatrix([0.5, 0, 0, 0.5, 0, 0], 30), 'vertical')
+    const canvasPoint = sourceToCanvasPoint({ x: 120, y: 480 }, image, matrix)
+    const point = canvasToSourcePoint(canvasPoint, image, matrix)
+    expect(point.x).toBeCloseTo(120, 6)
+    expect(point.y).toBeCloseTo(480, 6)
+  })
+})
+
+describe('還原裁切資料 (initialCrop)', () => {
+  const IMAGE = { centerX: 200, centerY: 150, naturalWidth: 800, naturalHeight: 600 }
+  const SCALED: TransformMatrix = [0.5, 0, 0, 0.5, 0, 0]
+  const CROP = { x: 200, y: 100, width: 400, height: 200, rotate: 0, scaleX: 1, scaleY: 1 } as const
+
+  describe('isValidCropData', () => {
+    it('裁切矩形在圖片範圍內時有效 (容許 1 像素的四捨五入誤差)', () => {
+      expect(isValidCropData(CROP, 800, 600)).toBe(true)
+      expect(isValidCropData({ ...CROP, x: 401 }, 800, 600)).toBe(true)
+    })
+
+    it('超出圖片範圍、尺寸或數值無效時無效', () => {
+      expect(isValidCropData(CROP, 400, 300)).toBe(false)
+      expect(isValidCropData({ ...CROP, width: 0 }, 800, 600)).toBe(false)
+      expect(isValidCropData({ ...CROP, x: Number.NaN }, 800, 600)).toBe(false)
+      expect(isValidCropData({ ...CROP, scaleX: 2 as 1 }, 800, 600)).toBe(false)
+    })
+
+    it('旋轉 90 度時以旋轉後的外接矩形 (600x800) 判斷', () => {
+      const rotated = { ...CROP, x: 0, y: 400, width: 600, height: 400, rotate: 90 }
+      expect(isValidCropData(rotated, 800, 600)).toBe(true)
+      expect(isValidCropData({ ...rotated, rotate: 0 }, 800, 600)).toBe(false)
+    })
+  })
+
+  describe('splitRotation', () => {
+    it('拆為最接近的 90 度旋轉與 ±45 度內的拉直角度', () => {
+      expect(splitRotation(0)).toEqual({ rotation: 0, straightenAngle: 0 })
+      expect(splitRotation(100)).toEqual({ rotation: 90, straightenAngle: 10 })
+      expect(splitRotation(350)).toEqual({ rotation: 0, straightenAngle: -10 })
+      expect(splitRotation(270)).toEqual({ rotation: 270, straightenAngle: 0 })
+    })
+  })
+
+  describe('calculateCropDataMatrix', () => {
+    it('與先翻轉再旋轉的矩陣相同，並保留位移', () => {
+      const matrix: TransformMatrix = [0.5, 0, 0, 0.5, 12, 34]
+      const expected = rotateMatrix(flipMatrix(matrix, 'horizontal'), 30)
+      const result = calculateCropDataMatrix(matrix, { ...CROP, rotate: 30, scaleX: -1 })
+
+      result.forEach((value, index) => expect(value).toBeCloseTo(expected[index]!))
+    })
+
+    it('指定縮放比例時改用該比例', () => {
+      expect(calculateCropDataMatrix(SCALED, CROP, 2)).toEqual([2, 0, -0, 2, 0, 0])
+    })
+  })
+
+  describe('calculateSelectionFromCropData', () => {
+    it('為 calculateCropData 的反向計算', () => {
+      const selection = { x: 50, y: -50, width: 150, height: 200 }
+      const matrix = rotateMatrix(SCALED, 90)
+      const cropData = calculateCropData(selection, IMAGE, matrix, { x: false, y: false })
+
+      expect(calculateSelectionFromCropData(cropData, IMAGE, 0.5, null)).toEqual(selection)
+    })
+
+    it('比例不同時以相同寬度與中心點修正高度', () => {
+      const result = calculateSelectionFromCropData(CROP, IMAGE, 0.5, 1)
+
+      expect(result).toEqual({ x: 100, y: 0, width: 200, height: 200 })
+    })
+  })
+
+  describe('calculateImagePlacementFromCropData', () => {
+    it('縮放並移動圖片，使裁切範圍對齊選取框', () => {
+      const selection = { x: 0, y: 0, width: 200, height: 100 }
+      const result = calculateImagePlacementFromCropData(CROP, selection, 800, 600)
+
+      expect(result).toEqual({ scale: 0.5, centerX: 100, centerY: 100 })
+      // 換算回裁切資料應與原本相同
+      const matrix: TransformMatrix = [result.scale, 0, 0, result.scale, 0, 0]
+      const image = { ...IMAGE, centerX: result.centerX, centerY: result.centerY }
+      expect(calculateCropData(selection, image, matrix, { x: false, y: false })).toEqual(CROP)
+    })
+
+    it('比例與選取框不同時取較大的縮放比例', () => {
+      const selection = { x: 0, y: 0, width: 100, height: 100 }
+      const result = calculateImagePlacementFromCropData(CROP, selection, 800, 600)
+
+      expect(result.scale).toBe(0.5)
+    })
+  })
 })
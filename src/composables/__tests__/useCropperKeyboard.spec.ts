@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getKeyboardAction,
+  KEYBOARD_MOVE_LARGE_STEP,
+  KEYBOARD_MOVE_STEP,
+  KEYBOARD_ZOOM_STEP,
+} from '../useCropperKeyboard'
+
+const createEvent = (key: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+  key,
+  shiftKey: false,
+  altKey: false,
+  ctrlKey: false,
+  metaKey: false,
+  ...modifiers,
+})
+
+describe('getKeyboardAction', () => {
+  it('方向鍵移動', () => {
+    expect(getKeyboardAction(createEvent('ArrowLeft'))).toEqual({
+      type: 'move',
+      dx: -KEYBOARD_MOVE_STEP,
+      dy: 0,
+    })
+    expect(getKeyboardAction(createEvent('ArrowDown'))).toEqual({
+      type: 'move',
+      dx: 0,
+      dy: KEYBOARD_MOVE_STEP,
+    })
+  })
+
+  it('按住 Shift 加大移動距離', () => {
+    expect(getKeyboardAction(createEvent('ArrowUp', { shiftKey: true }))).toEqual({
+      type: 'move',
+      dx: 0,
+      dy: -KEYBOARD_MOVE_LARGE_STEP,
+    })
+  })
+
+  it('Alt + 方向鍵調整大小 (→ / ↓ 放大、← / ↑ 縮小)', () => {
+    expect(getKeyboardAction(createEvent('ArrowRight', { altKey: true }))).toEqual({
+      type: 'resize',
+      delta: KEYBOARD_MOVE_STEP,
+    })
+    expect(getKeyboardAction(createEvent('ArrowUp', { altKey: true, shiftKey: true }))).toEqual({
+      type: 'resize',
+      delta: -KEYBOARD_MOVE_LARGE_STEP,
+    })
+  })
+
+  it('+ / - 縮放 (包含未按 Shift 的 = 與 _)', () => {
+    expect(getKeyboardAction(createEvent('+', { shiftKey: true }))).toEqual({
+      type: 'zoom',
+      scale: KEYBOARD_ZOOM_STEP,
+    })
+    expect(getKeyboardAction(createEvent('='))).toEqual({ type: 'zoom', scale: KEYBOARD_ZOOM_STEP })
+    expect(getKeyboardAction(createEvent('-'))).toEqual({
+      type: 'zoom',
+      scale: -KEYBOARD_ZOOM_STEP,
+    })
+  })
+
+  it('按住 Ctrl / Cmd 時不處理 (保留給其他快捷鍵)', () => {
+    expect(getKeyboardAction(createEvent('ArrowLeft', { ctrlKey: true }))).toBeNull()
+    expect(getKeyboardAction(createEvent('-', { metaKey: true }))).toBeNull()
+  })
+
+  it('其他按鍵回傳 null', () => {
+    expect(getKeyboardAction(createEvent('Enter'))).toBeNull()
+    expect(getKeyboardAction(createEvent('a'))).toBeNull()
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { useFocalPointCache } from '../useFocalPointCache'
+
+describe('useFocalPointCache', () => {
+  it('尚未保存的圖片回傳 undefined，偵測不到焦點 (null) 與尚未偵測不同', () => {
+    const focalPoints = useFocalPointCache()
+
+    expect(focalPoints.get('blob:a')).toBeUndefined()
+
+    focalPoints.set('blob:a', null)
+    expect(focalPoints.get('blob:a')).toBeNull()
+  })
+
+  it('依圖片 URL 分別保存焦點，後設定的焦點覆寫先前的結果', () => {
+    const focalPoints = useFocalPointCache()
+
+    focalPoints.set('blob:a', { x: 10, y: 20 })
+    focalPoints.set('blob:b', { x: 30, y: 40 })
+    focalPoints.set('blob:a', { x: 50, y: 60 })
+
+    expect(focalPoints.get('blob:a')).toEqual({ x: 50, y: 60 })
+    expect(focalPoints.get('blob:b')).toEqual({ x: 30, y: 40 })
+  })
+
+  it('沒有圖片 URL 時不保存，clear 清除所有焦點', () => {
+    const focalPoints = useFocalPointCache()
+
+    focalPoints.set('', { x: 1, y: 1 })
+    focalPoints.set('blob:a', { x: 10, y: 20 })
+    focalPoints.clear()
+
+    expect(focalPoints.get('')).toBeUndefined()
+    expect(focalPoints.get('blob:a')).toBeUndefined()
+  })
+})
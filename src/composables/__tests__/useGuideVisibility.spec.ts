@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { effectScope } from 'vue'
+import { GUIDES_HIDE_DELAY_MS, useGuideVisibility } from '../useGuideVisibility'
+
+const setup = () => {
+  const scope = effectScope()
+  const result = scope.run(() => useGuideVisibility())!
+  return { ...result, stop: () => scope.stop() }
+}
+
+describe('useGuideVisibility', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('操作開始時顯示，結束後延遲隱藏', () => {
+    const { isVisible, show, hide, stop } = setup()
+
+    show()
+    expect(isVisible.value).toBe(true)
+
+    hide()
+    vi.advanceTimersByTime(GUIDES_HIDE_DELAY_MS - 1)
+    expect(isVisible.value).toBe(true)
+
+    vi.advanceTimersByTime(1)
+    expect(isVisible.value).toBe(false)
+    stop()
+  })
+
+  it('延遲期間再次操作時維持顯示', () => {
+    const { isVisible, show, hide, stop } = setup()
+
+    show()
+    hide()
+    vi.advanceTimersByTime(GUIDES_HIDE_DELAY_MS / 2)
+    show()
+    vi.advanceTimersByTime(GUIDES_HIDE_DELAY_MS)
+
+    expect(isVisible.value).toBe(true)
+    stop()
+  })
+
+  it('停止後不再觸發隱藏', () => {
+    const { isVisible, show, hide, stop } = setup()
+
+    show()
+    hide()
+    stop()
+    vi.advanceTimersByTime(GUIDES_HIDE_DELAY_MS)
+
+    expect(isVisible.value).toBe(true)
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest'
+import { useHistoryShortcut } from '../useHistoryShortcut'
+
+const setup = (enabled = true) => {
+  const target = { undo: vi.fn(), redo: vi.fn() }
+  const { handleHistoryShortcut } = useHistoryShortcut(
+    () => target,
+    () => enabled,
+  )
+  return { target, handleHistoryShortcut }
+}
+
+describe('useHistoryShortcut', () => {
+  it('Ctrl+Z 復原、Ctrl+Shift+Z (或 Cmd) 重做，並阻止瀏覽器預設行為', () => {
+    const { target, handleHistoryShortcut } = setup()
+
+    const undoEvent = new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, cancelable: true })
+    handleHistoryShortcut(undoEvent)
+    handleHistoryShortcut(new KeyboardEvent('keydown', { key: 'Z', metaKey: true, shiftKey: true }))
+
+    expect(target.undo).toHaveBeenCalledTimes(1)
+    expect(target.redo).toHaveBeenCalledTimes(1)
+    expect(undoEvent.defaultPrevented).toBe(true)
+  })
+
+  it('未按 Ctrl / Cmd 或未啟用時不處理', () => {
+    const disabled = setup(false)
+    disabled.handleHistoryShortcut(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true }))
+
+    const enabled = setup()
+    enabled.handleHistoryShortcut(new KeyboardEvent('keydown', { key: 'z' }))
+
+    expect(disabled.target.undo).not.toHaveBeenCalled()
+    expect(enabled.target.undo).not.toHaveBeenCalled()
+  })
+
+  it('焦點在文字輸入框內時保留瀏覽器原生的復原行為，滑桿則照常處理', () => {
+    const { target, handleHistoryShortcut } = setup()
+    const input = document.createElement('input')
+    const range = document.createElement('input')
+    range.type = 'range'
+    document.body.append(input, range)
+
+    const inputEvent = new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true })
+    input.addEventListener('keydown', handleHistoryShortcut)
+    input.dispatchEvent(inputEvent)
+    range.addEventListener('keydown', handleHistoryShortcut)
+    range.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true }))
+
+    expect(target.undo).toHaveBeenCalledTimes(1)
+    expect(inputEvent.defaultPrevented).toBe(false)
+
+    input.remove()
+    range.remove()
+  })
+})
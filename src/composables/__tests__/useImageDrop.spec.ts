@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { getDragState, getImageFile, getImageFiles } from '../useImageDrop'
+
+const createDataTransfer = (files: File[]) =>
+  ({
+    files,
+    items: files.map((file) => ({ kind: 'file', type: file.type })),
+  }) as unknown as DataTransfer
+
+const createImage = (name = 'photo.png', type = 'image/png') => new File(['x'], name, { type })
+
+describe('getDragState', () => {
+  it('拖曳單一圖片時為 valid', () => {
+    expect(getDragState(createDataTransfer([createImage()]))).toBe('valid')
+  })
+
+  it('拖曳多個檔案時為 invalid', () => {
+    expect(getDragState(createDataTransfer([createImage(), createImage('b.png')]))).toBe('invalid')
+  })
+
+  it('拖曳非圖片檔案時為 invalid', () => {
+    expect(getDragState(createDataTransfer([createImage('a.pdf', 'application/pdf')]))).toBe(
+      'invalid',
+    )
+  })
+
+  it('拖曳過程中沒有 MIME type 時先視為 valid', () => {
+    expect(getDragState(createDataTransfer([createImage('photo.heic', '')]))).toBe('valid')
+  })
+
+  it('拖曳文字 (沒有檔案) 時為 invalid', () => {
+    const dataTransfer = { files: [], items: [{ kind: 'string', type: 'text/plain' }] }
+    expect(getDragState(dataTransfer as unknown as DataTransfer)).toBe('invalid')
+  })
+
+  it('批次模式拖曳多張圖片時為 valid', () => {
+    expect(getDragState(createDataTransfer([createImage(), createImage('b.png')]), true)).toBe(
+      'valid',
+    )
+  })
+
+  it('批次模式拖曳的檔案含有非圖片時為 invalid', () => {
+    const files = [createImage(), createImage('a.pdf', 'application/pdf')]
+    expect(getDragState(createDataTransfer(files), true)).toBe('invalid')
+  })
+})
+
+describe('getImageFile', () => {
+  it('取出單一圖片檔案', () => {
+    const file = createImage()
+    expect(getImageFile(createDataTransfer([file]))).toEqual({ file })
+  })
+
+  it('沒有檔案時回傳錯誤', () => {
+    const result = getImageFile(createDataTransfer([]))
+    expect(result.file).toBeNull()
+    expect(result.error).toContain('沒有偵測到圖片檔案')
+    expect(result.code).toBe('no-file')
+  })
+
+  it('多個檔案時回傳錯誤', () => {
+    const result = getImageFile(createDataTransfer([createImage(), createImage('b.png')]))
+    expect(result.file).toBeNull()
+    expect(result.error).toBe('一次只能載入一張圖片')
+    expect(result.code).toBe('multiple-files')
+  })
+
+  it('非圖片檔案時回傳包含檔名的錯誤', () => {
+    const result = getImageFile(createDataTransfer([createImage('report.pdf', 'application/pdf')]))
+    expect(result.file).toBeNull()
+    expect(result.error).toContain('report.pdf')
+    expect(result.code).toBe('not-an-image')
+    expect(result.params).toEqual({ fileName: 'report.pdf' })
+  })
+
+  it('沒有 MIME type 的檔案交由 loadImage 判斷', () => {
+    const file = createImage('photo.heic', '')
+    expect(getImageFile(createDataTransfer([file])).file).toBe(file)
+  })
+
+  it('application/octet-stream 的檔案交由 loadImage 判斷', () => {
+    const file = createImage('photo.heic', 'application/octet-stream')
+    expect(getImageFile(createDataTransfer([file])).file).toBe(file)
+  })
+})
+
+describe('getImageFiles', () => {
+  it('取出所有圖片檔案', () => {
+    const files = [createImage('a.png'), createImage('b.heic', '')]
+    expect(getImageFiles(createDataTransfer(files))).toEqual({ files })
+  })
+
+  it('沒有檔案時回傳錯誤', () => {
+    const result = getImageFiles(createDataTransfer([]))
+    expect(result.files).toEqual([])
+    expect(result.code).toBe('no-file')
+  })
+
+  it('排除非圖片檔案並回報第一個被排除的檔名', () => {
+    const image = createImage('a.png')
+    const result = getImageFiles(
+      createDataTransfer([
+        createImage('report.pdf', 'application/pdf'),
+        image,
+        createImage('notes.txt', 'text/plain'),
+      ]),
+    )
+
+    expect(result.files).toEqual([image])
+    expect(result.code).toBe('not-an-image')
+    expect(result.params).toEqual({ fileName: 'report.pdf' })
+  })
+})
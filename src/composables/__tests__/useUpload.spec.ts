@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { effectScope } from 'vue'
+import { useUpload } from '../useUpload'
+import { UploadError, type Uploader } from '@/utils/uploadUtils'
+
+const createFile = (name: string) => new File(['x'], name, { type: 'image/webp' })
+
+const setup = () => {
+  const scope = effectScope()
+  const result = scope.run(() => useUpload())!
+  return { ...result, stop: () => scope.stop() }
+}
+
+describe('useUpload', () => {
+  it('依序上傳並以檔案數平均進度', async () => {
+    const { progress, isUploading, upload, stop } = setup()
+    const progressLog: number[] = []
+    const uploader: Uploader<string> = {
+      upload: async (file, { onProgress }) => {
+        onProgress({ loaded: 50, total: 100 })
+        progressLog.push(progress.value)
+        return file.name
+      },
+    }
+
+    const results = await upload(uploader, [createFile('a.webp'), createFile('b.webp')])
+
+    expect(results.map((result) => result.ok && result.data)).toEqual(['a.webp', 'b.webp'])
+    expect(progressLog).toEqual([0.25, 0.75])
+    expect(progress.value).toBe(1)
+    expect(isUploading.value).toBe(false)
+    stop()
+  })
+
+  it('任一檔案失敗時停止上傳剩餘檔案', async () => {
+    const { upload, stop } = setup()
+    const uploaded: string[] = []
+    const uploader: Uploader = {
+      upload: async (file) => {
+        uploaded.push(file.name)
+        throw new UploadError('http-error', 400)
+      },
+    }
+
+    const results = await upload(uploader, [createFile('a.webp'), createFile('b.webp')])
+
+    expect(uploaded).toEqual(['a.webp'])
+    expect(results).toHaveLength(1)
+    expect(results[0]!.ok).toBe(false)
+    stop()
+  })
+
+  it('取消時中斷上傳並回傳 aborted', async () => {
+    const { isUploading, upload, cancel, stop } = setup()
+    const uploader: Uploader = {
+      upload: (_file, { signal }) =>
+        new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new UploadError('aborted')))
+        }),
+    }
+
+    const pending = upload(uploader, [createFile('a.webp')])
+    expect(isUploading.value).toBe(true)
+    cancel()
+    const [result] = await pending
+
+    expect(isUploading.value).toBe(false)
+    expect(!result!.ok && result!.error.code).toBe('aborted')
+    stop()
+  })
+})
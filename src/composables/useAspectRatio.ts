@@ -0,0 +1,158 @@
+import { ref, computed, watch } from 'vue'
+
+/**
+ * 裁切比例預設值
+ * - free: 不限制比例 (自由裁切)
+ * - custom: 使用者自訂的寬高比
+ */
+export type AspectRatioPreset = 'free' | '1:1' | '4:3' | '3:2' | '16:9' | '9:16' | 'custom'
+
+/**
+ * 自訂比例的寬與高 (例如 5:4 為 { width: 5, height: 4 })
+ */
+export interface AspectRatioParts {
+  width: number
+  height: number
+}
+
+/**
+ * 所有裁切比例預設值 (比例選擇器的預設選項與顯示順序)
+ * @constant
+ */
+export const ASPECT_RATIO_PRESETS: readonly AspectRatioPreset[] = [
+  'free',
+  '1:1',
+  '4:3',
+  '3:2',
+  '16:9',
+  '9:16',
+  'custom',
+]
+
+/**
+ * 固定比例預設值對應的長寬比 (width / height)
+ * @constant
+ */
+const PRESET_RATIOS: Record<Exclude<AspectRatioPreset, 'free' | 'custom'>, number> = {
+  '1:1': 1,
+  '4:3': 4 / 3,
+  '3:2': 3 / 2,
+  '16:9': 16 / 9,
+  '9:16': 9 / 16,
+}
+
+/**
+ * 判斷兩個比例是否相同時的容許誤差
+ * @constant
+ * @description 避免 9 / 16 與 0.5625 這類寫法因浮點誤差被視為不同比例
+ */
+const ASPECT_RATIO_EPSILON = 1e-6
+
+/**
+ * 將比例換算為自訂比例的寬與高時，嘗試的最大分母
+ * @constant
+ */
+const MAX_RATIO_DENOMINATOR = 100
+
+const isValidRatio = (ratio: number) => Number.isFinite(ratio) && ratio > 0
+
+/**
+ * 取得比例對應的預設值
+ *
+ * @param {number | null} ratio - 長寬比 (width / height)，null 表示自由比例
+ * @returns {AspectRatioPreset} 對應的預設值，沒有相符的固定比例時為 'custom'
+ *
+ * @example
+ * findAspectRatioPreset(9 / 16) // '9:16'
+ * findAspectRatioPreset(0.8) // 'custom'
+ */
+export const findAspectRatioPreset = (ratio: number | null): AspectRatioPreset => {
+  if (ratio === null) return 'free'
+
+  const entry = Object.entries(PRESET_RATIOS).find(
+    ([, value]) => Math.abs(value - ratio) < ASPECT_RATIO_EPSILON,
+  )
+  return entry ? (entry[0] as AspectRatioPreset) : 'custom'
+}
+
+/**
+ * 將比例換算為整數的寬與高 (供自訂比例的輸入欄位顯示)
+ *
+ * @param {number} ratio - 長寬比 (width / height)
+ * @returns {AspectRatioParts} 分母最小的整數寬高，找不到時以 100 為高度近似
+ *
+ * @example
+ * toAspectRatioParts(0.8) // { width: 4, height: 5 }
+ */
+export const toAspectRatioParts = (ratio: number): AspectRatioParts => {
+  for (let height = 1; height <= MAX_RATIO_DENOMINATOR; height++) {
+    const width = Math.round(ratio * height)
+    if (width > 0 && Math.abs(width / height - ratio) < ASPECT_RATIO_EPSILON) {
+      return { width, height }
+    }
+  }
+  return {
+    width: Math.max(1, Math.round(ratio * MAX_RATIO_DENOMINATOR)),
+    height: MAX_RATIO_DENOMINATOR,
+  }
+}
+
+/**
+ * 執行期間切換的裁切比例
+ *
+ * @description
+ * 容器的 aspectRatio 作為初始比例，使用者可再透過比例選擇器切換預設比例、自由比例或自訂比例。
+ * 初始比例 (props.aspectRatio) 改變時會重設為新的比例。
+ *
+ * @param {Function} defaultAspectRatio - 取得初始比例的函式 (通常為 () => props.aspectRatio)
+ *
+ * @returns {Object} 比例功能集合
+ * @returns {Ref<AspectRatioPreset>} preset - 目前選擇的預設值
+ * @returns {Ref<AspectRatioParts>} custom - 自訂比例的寬與高
+ * @returns {ComputedRef<number | null>} aspectRatio - 目前的長寬比 (自由比例時為 null)
+ * @returns {Function} select - 切換預設值
+ * @returns {Function} setCustom - 設定自訂比例 (並切換為 custom)
+ *
+ * @example
+ * const { preset, aspectRatio, select } = useAspectRatio(() => props.aspectRatio)
+ * select('free') // aspectRatio.value === null
+ */
+export const useAspectRatio = (defaultAspectRatio: () => number) => {
+  const preset = ref<AspectRatioPreset>(findAspectRatioPreset(defaultAspectRatio()))
+  const custom = ref<AspectRatioParts>(toAspectRatioParts(defaultAspectRatio()))
+  // 自訂比例另外保存原始數值，初始比例無法換算為整數寬高時 (例如 Math.PI) 仍使用原本的比例
+  const customRatio = ref(defaultAspectRatio())
+
+  watch(defaultAspectRatio, (ratio) => {
+    preset.value = findAspectRatioPreset(ratio)
+    custom.value = toAspectRatioParts(ratio)
+    customRatio.value = ratio
+  })
+
+  const aspectRatio = computed<number | null>(() => {
+    if (preset.value === 'free') return null
+    if (preset.value === 'custom') return customRatio.value
+    return PRESET_RATIOS[preset.value]
+  })
+
+  const select = (value: AspectRatioPreset) => {
+    preset.value = value
+  }
+
+  // 無效的寬高 (0、負數、空白欄位) 直接忽略，保留上一個有效的自訂比例
+  const setCustom = (width: number, height: number) => {
+    if (!isValidRatio(width) || !isValidRatio(height)) return
+
+    custom.value = { width, height }
+    customRatio.value = width / height
+    preset.value = 'custom'
+  }
+
+  return {
+    preset,
+    custom,
+    aspectRatio,
+    select,
+    setCustom,
+  }
+}
@@ -0,0 +1,128 @@
+import { ref, computed } from 'vue'
+import type { Rect, TransformMatrix } from './useCropperCalculation'
+
+/**
+ * 歷史紀錄的預設上限 (筆數)
+ * @constant
+ */
+export const DEFAULT_HISTORY_LIMIT = 50
+
+/**
+ * 判斷兩筆狀態是否相同時的容許誤差
+ * @constant
+ * @description 回彈動畫與矩陣運算會產生微小的浮點誤差，避免因此記錄實質上沒有變化的狀態
+ */
+const STATE_EPSILON = 1e-3
+
+/**
+ * 裁切狀態快照
+ */
+export interface CropHistoryState {
+  /** 裁切框位置與尺寸 (Canvas 座標) */
+  selection: Rect
+  /** 圖片的變換矩陣 */
+  matrix: TransformMatrix
+  /** 90 度旋轉角度 (0 / 90 / 180 / 270) */
+  rotation: number
+  /** 拉直角度 */
+  straightenAngle: number
+  /** 是否水平翻轉 */
+  isFlippedX: boolean
+  /** 是否垂直翻轉 */
+  isFlippedY: boolean
+}
+
+const isClose = (a: number, b: number) => Math.abs(a - b) <= STATE_EPSILON
+
+const isSameState = (a: CropHistoryState, b: CropHistoryState) =>
+  isClose(a.selection.x, b.selection.x) &&
+  isClose(a.selection.y, b.selection.y) &&
+  isClose(a.selection.width, b.selection.width) &&
+  isClose(a.selection.height, b.selection.height) &&
+  a.matrix.every((value, index) => isClose(value, b.matrix[index]!)) &&
+  isClose(a.rotation, b.rotation) &&
+  isClose(a.straightenAngle, b.straightenAngle) &&
+  a.isFlippedX === b.isFlippedX &&
+  a.isFlippedY === b.isFlippedY
+
+const cloneState = (state: CropHistoryState): CropHistoryState => ({
+  ...state,
+  selection: { ...state.selection },
+  matrix: [...state.matrix],
+})
+
+/**
+ * 裁切操作的復原 / 重做 (Undo / Redo) 紀錄
+ *
+ * @description
+ * 由編輯器在每次「操作完成」後 (pointerup、滾輪停止、回彈結束、旋轉與翻轉) 呼叫 record，
+ * 記錄裁切框與圖片矩陣的快照。undo / redo 只負責移動指標並回傳要套用的快照，
+ * 實際套用到 Cropper.js 元素由編輯器處理。
+ *
+ * - 與目前狀態相同的快照會被略過，避免點擊一下就多一筆紀錄
+ * - 復原後再記錄新狀態時，會捨棄原本可重做的紀錄
+ * - 超過 limit 時丟棄最舊的紀錄
+ *
+ * @param {number} [limit=DEFAULT_HISTORY_LIMIT] - 最多保留的紀錄筆數 (包含目前狀態)
+ *
+ * @returns {Object} 歷史紀錄功能集合
+ * @returns {Function} record - 記錄一筆快照
+ * @returns {Function} undo - 回到上一筆快照，無法復原時回傳 null
+ * @returns {Function} redo - 前往下一筆快照，無法重做時回傳 null
+ * @returns {Function} clear - 清除所有紀錄 (例如載入新圖片時)
+ * @returns {ComputedRef<boolean>} canUndo - 是否可以復原
+ * @returns {ComputedRef<boolean>} canRedo - 是否可以重做
+ *
+ * @example
+ * const { record, undo, canUndo } = useCropHistory()
+ *
+ * const onInteractionEnd = () => record(getCurrentState())
+ * const handleUndo = () => {
+ *   const state = undo()
+ *   if (state) applyState(state)
+ * }
+ */
+export const useCropHistory = (limit: number = DEFAULT_HISTORY_LIMIT) => {
+  const stack = ref<CropHistoryState[]>([])
+  const index = ref(-1)
+
+  const canUndo = computed(() => index.value > 0)
+  const canRedo = computed(() => index.value < stack.value.length - 1)
+
+  const record = (state: CropHistoryState) => {
+    const current = stack.value[index.value]
+    if (current && isSameState(current, state)) return
+
+    const next = [...stack.value.slice(0, index.value + 1), cloneState(state)]
+    const overflow = Math.max(0, next.length - Math.max(1, limit))
+
+    stack.value = next.slice(overflow)
+    index.value = stack.value.length - 1
+  }
+
+  const undo = (): CropHistoryState | null => {
+    if (!canUndo.value) return null
+    index.value--
+    return cloneState(stack.value[index.value]!)
+  }
+
+  const redo = (): CropHistoryState | null => {
+    if (!canRedo.value) return null
+    index.value++
+    return cloneState(stack.value[index.value]!)
+  }
+
+  const clear = () => {
+    stack.value = []
+    index.value = -1
+  }
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo,
+    canRedo,
+  }
+}
@@ -0,0 +1,237 @@
+import { ref, computed, onScopeDispose } from 'vue'
+import { useCropper, type ImageDimensionLimits, type ValidationResult } from './useCropper'
+import type { CropHistoryState } from './useCropHistory'
+import type { CropFraming } from './useCropperCalculation'
+import type { ExifMetadata } from '@/utils/exifUtils'
+
+/**
+ * 佇列項目的匯出狀態
+ * - pending: 尚未匯出
+ * - exporting: 匯出中
+ * - done: 匯出完成
+ * - error: 匯出失敗
+ */
+export type CropQueueItemStatus = 'pending' | 'exporting' | 'done' | 'error'
+
+/**
+ * 批次裁切佇列中的一張圖片
+ */
+export interface CropQueueItem {
+  /** 項目 ID */
+  id: string
+  /** 原始檔案名稱 */
+  name: string
+  /** 圖片 Object URL (已校正 EXIF 方向，同時作為縮圖) */
+  url: string
+  /** 由檔案內容判斷的 MIME type */
+  mimeType: string
+  /** 圖片 EXIF 中繼資料 */
+  metadata: ExifMetadata | null
+  /** 已保存的裁切狀態 (裁切框與圖片變換)，尚未編輯過時為 null */
+  cropState: CropHistoryState | null
+  /** 待套用的相對裁切範圍 (套用到全部)，載入時優先於自動置中 */
+  framing: CropFraming | null
+  /** 匯出狀態 */
+  status: CropQueueItemStatus
+  /** 匯出失敗的原因 */
+  error?: string
+}
+
+/**
+ * 未通過驗證而沒有加入佇列的檔案
+ */
+export interface RejectedFile {
+  /** 原始檔案 */
+  file: File
+  /** 驗證結果 (包含錯誤代碼與訊息) */
+  result: ValidationResult
+}
+
+/**
+ * 批次裁切佇列
+ *
+ * @description
+ * 管理多張圖片與各自的裁切狀態。編輯器一次只顯示一張圖片 (activeItem)，
+ * 切換圖片時由容器保存目前的裁切狀態 (saveCropState)，載入後再還原。
+ *
+ * - 加入的檔案經過與 useCropper.loadImage 相同的驗證 (格式、大小、像素尺寸)，未通過者不會加入佇列
+ * - 每張圖片各自持有 Object URL，移除或清除時釋放，component unmount 時自動清理
+ *
+ * @param {number} [maxFileSize=10485760] - 單張圖片的最大檔案大小 (bytes)
+ * @param {Function} [dimensionLimits] - 取得圖片像素尺寸限制 (每次加入圖片時讀取)
+ *
+ * @returns {Object} 佇列功能集合
+ * @returns {ComputedRef<string>} ACCEPT_STRING - 檔案選擇器 accept 屬性
+ * @returns {Ref<CropQueueItem[]>} items - 佇列中的圖片
+ * @returns {ComputedRef<CropQueueItem | null>} activeItem - 目前編輯中的圖片
+ * @returns {ComputedRef<number>} activeIndex - 目前編輯中的圖片索引 (沒有圖片時為 -1)
+ * @returns {ComputedRef<Object>} progress - 匯出進度 (total / completed / failed)
+ * @returns {Function} addFiles - 驗證並加入圖片，回傳未通過驗證的檔案 (非同步)
+ * @returns {Function} select - 切換編輯中的圖片
+ * @returns {Function} remove - 移除圖片
+ * @returns {Function} saveCropState - 保存圖片的裁切狀態
+ * @returns {Function} applyFramingToAll - 將相對裁切範圍套用到其他圖片
+ * @returns {Function} resetCropStates - 捨棄其他圖片已保存的裁切狀態
+ * @returns {Function} updateItem - 更新圖片的匯出狀態
+ * @returns {Function} clear - 清除所有圖片並釋放 Object URL
+ *
+ * @example
+ * const { items, activeItem, addFiles } = useCropQueue(10 * 1024 * 1024)
+ *
+ * const handleFilesSelect = async (files: File[]) => {
+ *   const rejected = await addFiles(files)
+ *   rejected.forEach(({ file, result }) => console.warn(file.name, result.error))
+ * }
+ */
+export const useCropQueue = (
+  maxFileSize: number = 10 * 1024 * 1024,
+  dimensionLimits: () => ImageDimensionLimits = () => ({}),
+) => {
+  const { ACCEPT_STRING, prepareImage } = useCropper(maxFileSize, dimensionLimits)
+
+  const items = ref<CropQueueItem[]>([])
+  const activeId = ref<string | null>(null)
+
+  const activeIndex = computed(() => items.value.findIndex((item) => item.id === activeId.value))
+  const activeItem = computed(() => items.value[activeIndex.value] ?? null)
+
+  const progress = computed(() => ({
+    total: items.value.length,
+    completed: items.value.filter((item) => item.status === 'done' || item.status === 'error')
+      .length,
+    failed: items.value.filter((item) => item.status === 'error').length,
+  }))
+
+  const findItem = (id: string) => items.value.find((item) => item.id === id)
+
+  /**
+   * 驗證並加入圖片
+   * @param {File[]} files - 要加入的檔案
+   * @returns {Promise<RejectedFile[]>} 未通過驗證的檔案
+   *
+   * @description
+   * 依序處理 (而非同時) 以避免一次讀入數十張大圖造成記憶體尖峰。
+   * 佇列原本為空時，自動選取第一張加入的圖片。
+   */
+  const addFiles = async (files: File[]): Promise<RejectedFile[]> => {
+    const rejected: RejectedFile[] = []
+
+    for (const file of files) {
+      const { url, mimeType, metadata, ...result } = await prepareImage(file)
+      if (!result.valid || !url || !mimeType) {
+        rejected.push({ file, result })
+        continue
+      }
+
+      items.value.push({
+        id: crypto.randomUUID(),
+        name: file.name,
+        url,
+        mimeType,
+        metadata: metadata ?? null,
+        cropState: null,
+        framing: null,
+        status: 'pending',
+      })
+    }
+
+    if (!activeItem.value && items.value.length) {
+      activeId.value = items.value[0]!.id
+    }
+
+    return rejected
+  }
+
+  const select = (id: string) => {
+    if (findItem(id)) {
+      activeId.value = id
+    }
+  }
+
+  /**
+   * 移除圖片並釋放 Object URL
+   * @description 移除的是編輯中的圖片時，改選取下一張 (沒有下一張時選取上一張)
+   */
+  const remove = (id: string) => {
+    const index = items.value.findIndex((item) => item.id === id)
+    if (index === -1) return
+
+    URL.revokeObjectURL(items.value[index]!.url)
+    items.value.splice(index, 1)
+
+    if (activeId.value === id) {
+      const next = items.value[Math.min(index, items.value.length - 1)]
+      activeId.value = next?.id ?? null
+    }
+  }
+
+  const saveCropState = (id: string, state: CropHistoryState) => {
+    const item = findItem(id)
+    if (!item) return
+
+    item.cropState = state
+    item.framing = null
+  }
+
+  /**
+   * 將相對裁切範圍套用到其他圖片
+   * @param {CropFraming} framing - 相對裁切範圍 (編輯器 getFraming 的結果)
+   * @param {string} [sourceId] - 來源圖片 ID，不會被覆寫
+   *
+   * @description 會捨棄其他圖片已保存的裁切狀態 (包含旋轉與翻轉)，下次載入時改以 framing 計算裁切框
+   */
+  const applyFramingToAll = (framing: CropFraming, sourceId?: string) => {
+    for (const item of items.value) {
+      if (item.id === sourceId) continue
+      item.cropState = null
+      item.framing = { ...framing }
+    }
+  }
+
+  /**
+   * 捨棄其他圖片已保存的裁切狀態
+   * @param {string} [exceptId] - 保留的圖片 ID (通常為編輯中的圖片)
+   *
+   * @description 切換裁切比例時呼叫，舊比例的裁切框無法沿用；待套用的相對裁切範圍 (framing) 仍會保留
+   */
+  const resetCropStates = (exceptId?: string) => {
+    for (const item of items.value) {
+      if (item.id === exceptId) continue
+      item.cropState = null
+    }
+  }
+
+  const updateItem = (id: string, patch: Partial<Pick<CropQueueItem, 'status' | 'error'>>) => {
+    const item = findItem(id)
+    if (item) {
+      Object.assign(item, patch)
+    }
+  }
+
+  const clear = () => {
+    items.value.forEach((item) => URL.revokeObjectURL(item.url))
+    items.value = []
+    activeId.value = null
+  }
+
+  // 當 component unmount 時自動清理 Object URL
+  onScopeDispose(() => {
+    clear()
+  })
+
+  return {
+    ACCEPT_STRING,
+    items,
+    activeItem,
+    activeIndex,
+    progress,
+    addFiles,
+    select,
+    remove,
+    saveCropState,
+    applyFramingToAll,
+    resetCropStates,
+    updateItem,
+    clear,
+  }
+}
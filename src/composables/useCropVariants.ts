@@ -0,0 +1,159 @@
+import { ref, computed, watch } from 'vue'
+import type { CropHistoryState } from './useCropHistory'
+import type { CropFraming } from './useCropperCalculation'
+import type { OutputVariant } from '@/utils/imageUtils'
+
+/**
+ * 已補上裁切比例的輸出變體
+ */
+export interface ResolvedOutputVariant extends OutputVariant {
+  /** 裁切框長寬比 (未指定時為容器的 aspectRatio) */
+  aspectRatio: number
+}
+
+/**
+ * 載入變體時要還原的裁切狀態
+ * - cropState: 完整還原 (此變體已編輯過，或與上一個編輯的變體比例相同)
+ * - framing: 比例不同時，沿用上一個編輯的變體的相對裁切範圍
+ */
+export type VariantInitialState =
+  | { cropState: CropHistoryState; framing?: undefined }
+  | { cropState?: undefined; framing: CropFraming }
+
+interface SavedVariantState {
+  aspectRatio: number
+  cropState: CropHistoryState
+  framing: CropFraming | null
+}
+
+/**
+ * 判斷兩個比例是否相同時的容許誤差
+ * @constant
+ * @description 避免 9 / 16 與 0.5625 這類寫法因浮點誤差被視為不同比例
+ */
+const ASPECT_RATIO_EPSILON = 1e-6
+
+/**
+ * 輸出變體的裁切狀態
+ *
+ * @description
+ * 同一張圖片可輸出多個變體 (不同尺寸或比例)，每個變體各自保存裁切狀態。
+ * 編輯器一次只顯示一個變體 (activeVariant)，切換分頁時由容器保存目前的狀態 (saveState)，
+ * 新變體的編輯器載入後再以 getInitialState 取得要還原的狀態。
+ *
+ * [尚未編輯過的變體]
+ * 為了讓 1x / 2x / 3x 這類同比例的變體不需逐一調整，尚未編輯過的變體會沿用上一個編輯的變體：
+ * 比例相同時完整複製裁切狀態 (包含旋轉與翻轉)，比例不同時只沿用相對裁切範圍。
+ * 匯出時尚未開啟過的變體也適用相同規則。
+ *
+ * @param {Function} variants - 取得輸出變體的函式 (通常為 () => props.outputs)
+ * @param {Function} defaultAspectRatio - 取得預設比例的函式 (通常為 () => props.aspectRatio)
+ *
+ * @returns {Object} 變體功能集合
+ * @returns {ComputedRef<ResolvedOutputVariant[]>} variants - 已補上比例的變體
+ * @returns {ComputedRef<ResolvedOutputVariant | null>} activeVariant - 目前編輯中的變體 (沒有變體時為 null)
+ * @returns {ComputedRef<number>} aspectRatio - 目前編輯中的比例 (沒有變體時為預設比例)
+ * @returns {Function} select - 切換編輯中的變體
+ * @returns {Function} saveState - 保存變體的裁切狀態
+ * @returns {Function} getInitialState - 取得變體載入後要還原的狀態
+ * @returns {Function} reset - 清除所有已保存的狀態 (載入新圖片時呼叫)
+ *
+ * @example
+ * const { activeVariant, aspectRatio, select, saveState } = useCropVariants(
+ *   () => props.outputs,
+ *   () => props.aspectRatio,
+ * )
+ */
+export const useCropVariants = (
+  variants: () => OutputVariant[] | undefined,
+  defaultAspectRatio: () => number,
+) => {
+  const resolvedVariants = computed<ResolvedOutputVariant[]>(() =>
+    (variants() ?? []).map((variant) => ({
+      ...variant,
+      aspectRatio: variant.aspectRatio ?? defaultAspectRatio(),
+    })),
+  )
+
+  watch(
+    resolvedVariants,
+    (value) => {
+      const names = value.map((variant) => variant.name)
+      const duplicated = names.filter((name, index) => names.indexOf(name) !== index)
+      if (duplicated.length) {
+        console.warn(`[useCropVariants] 輸出變體名稱重複: ${[...new Set(duplicated)].join(', ')}`)
+      }
+    },
+    { immediate: true },
+  )
+
+  const activeName = ref<string | null>(null)
+
+  const activeVariant = computed(
+    () =>
+      resolvedVariants.value.find((variant) => variant.name === activeName.value) ??
+      resolvedVariants.value[0] ??
+      null,
+  )
+
+  const aspectRatio = computed(() => activeVariant.value?.aspectRatio ?? defaultAspectRatio())
+
+  const savedStates = new Map<string, SavedVariantState>()
+  let lastSavedName: string | null = null
+
+  const select = (name: string) => {
+    if (resolvedVariants.value.some((variant) => variant.name === name)) {
+      activeName.value = name
+    }
+  }
+
+  /**
+   * 保存變體的裁切狀態
+   * @param {string} name - 變體名稱
+   * @param {CropHistoryState} cropState - 編輯器的裁切狀態 (getCropState)
+   * @param {CropFraming | null} framing - 相對裁切範圍 (getFraming)，供不同比例的變體沿用
+   */
+  const saveState = (name: string, cropState: CropHistoryState, framing: CropFraming | null) => {
+    const variant = resolvedVariants.value.find((item) => item.name === name)
+    if (!variant) return
+
+    savedStates.set(name, { aspectRatio: variant.aspectRatio, cropState, framing })
+    lastSavedName = name
+  }
+
+  /**
+   * 取得變體載入後要還原的狀態
+   * @param {string} name - 變體名稱
+   * @returns {VariantInitialState | null} 要還原的狀態，沒有可沿用的狀態時為 null (維持自動置中)
+   */
+  const getInitialState = (name: string): VariantInitialState | null => {
+    const saved = savedStates.get(name)
+    if (saved) return { cropState: saved.cropState }
+
+    const variant = resolvedVariants.value.find((item) => item.name === name)
+    const last = lastSavedName ? savedStates.get(lastSavedName) : undefined
+    if (!variant || !last) return null
+
+    if (Math.abs(variant.aspectRatio - last.aspectRatio) < ASPECT_RATIO_EPSILON) {
+      return { cropState: last.cropState }
+    }
+
+    return last.framing ? { framing: last.framing } : null
+  }
+
+  const reset = () => {
+    savedStates.clear()
+    lastSavedName = null
+    activeName.value = null
+  }
+
+  return {
+    variants: resolvedVariants,
+    activeVariant,
+    aspectRatio,
+    select,
+    saveState,
+    getInitialState,
+    reset,
+  }
+}
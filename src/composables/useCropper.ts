@@ -1,5 +1,22 @@
 import { ref, onScopeDispose, computed } from 'vue'
 import { useHeicSupport } from './useHeicSupport'
+import { useI18n } from './useI18n'
+import { getMessages, type Messages, type ValidationErrorParams } from '@/i18n'
+import {
+  getOrientationTransform,
+  normalizeOrientation,
+  parseExif,
+  readJpegSize,
+  type ExifMetadata,
+} from '@/utils/exifUtils'
+import {
+  detectImageType,
+  IMAGE_TYPE_LABELS,
+  isDeclaredTypeConsistent,
+  normalizeMimeType,
+  SIGNATURE_BYTES_LENGTH,
+  type DetectedImageType,
+} from '@/utils/fileSignature'
 
 /**
  * 基礎支援的圖片格式列表 (MIME types)
@@ -26,47 +43,225 @@ const HEIC_FORMATS = ['image/heic', 'image/heif'] as const
 const BASE_ACCEPT_STRING = '.jpg,.jpeg,.png,.gif,.webp,.bmp,.avif'
 
 /**
- * Cropper.js 裁切區域資料結構
+ * 裁切區域在原始圖片像素座標中的位置 (供後端以原圖重新裁切)
+ *
+ * @description
+ * 依序對原圖套用翻轉 (scaleX / scaleY) 與順時針旋轉 (rotate，畫布擴大為旋轉後的外接矩形)，
+ * 再從左上角裁切 (x, y, width, height)。未旋轉時即為原圖上的裁切矩形。
  */
 export interface CropData {
-  /** X 軸偏移量 (像素) */
+  /** X 軸偏移量 (原始圖片像素) */
   x: number
-  /** Y 軸偏移量 (像素) */
+  /** Y 軸偏移量 (原始圖片像素) */
   y: number
-  /** 裁切寬度 (像素) */
+  /** 裁切寬度 (原始圖片像素) */
   width: number
-  /** 裁切高度 (像素) */
+  /** 裁切高度 (原始圖片像素) */
   height: number
+  /** 順時針旋轉角度 (度，0 ~ 360，包含拉直角度) */
+  rotate: number
+  /** 水平翻轉時為 -1 */
+  scaleX: 1 | -1
+  /** 垂直翻轉時為 -1 */
+  scaleY: 1 | -1
+}
+
+/**
+ * 檔案驗證錯誤代碼
+ * - unsupported-format: 不支援的圖片格式 (或非圖片檔案)
+ * - invalid-content: 標示為圖片，但內容無法辨識 (例如改副檔名的執行檔或毀損的檔案)
+ * - type-mismatch: 內容格式與標示的 MIME type 不符
+ * - file-too-large: 超過檔案大小限制
+ * - decode-failed: 瀏覽器無法解碼圖片
+ * - fetch-failed: 無法從網址取得圖片 (網路錯誤、伺服器未允許跨來源存取 (CORS) 或 HTTP 錯誤)
+ * - image-too-small: 圖片寬高小於 minWidth / minHeight
+ * - image-too-large: 圖片寬高或像素數超過 maxWidth / maxHeight / maxMegapixels
+ */
+export type ValidationErrorCode =
+  | 'unsupported-format'
+  | 'invalid-content'
+  | 'type-mismatch'
+  | 'file-too-large'
+  | 'decode-failed'
+  | 'fetch-failed'
+  | 'image-too-small'
+  | 'image-too-large'
+
+/**
+ * 圖片像素尺寸限制 (解碼後檢查)
+ */
+export interface ImageDimensionLimits {
+  /** 最小寬度 (像素) */
+  minWidth?: number
+  /** 最小高度 (像素) */
+  minHeight?: number
+  /** 最大寬度 (像素) */
+  maxWidth?: number
+  /** 最大高度 (像素) */
+  maxHeight?: number
+  /** 最大像素數 (百萬像素)，用來拒絕解壓縮炸彈等超大圖片 */
+  maxMegapixels?: number
 }
 
 /**
  * 檔案驗證結果
+ *
+ * @description
+ * error 為目前語系的錯誤訊息；需要自訂文字時，可改以 code 與 params 組出訊息。
  */
-interface ValidationResult {
+export interface ValidationResult {
   /** 驗證是否通過 */
   valid: boolean
   /** 錯誤訊息 (驗證失敗時提供) */
   error?: string
+  /** 錯誤代碼 (驗證失敗時提供) */
+  code?: ValidationErrorCode
+  /** 錯誤訊息的參數 (驗證失敗時提供，例如限制值與實際值) */
+  params?: ValidationErrorParams
 }
 
 /**
- * 圖片匯出品質設定
- * @constant
+ * 圖片預先處理結果 (prepareImage)
+ */
+export interface PreparedImageResult extends ValidationResult {
+  /** 圖片 Object URL (驗證通過時提供，由呼叫端負責釋放) */
+  url?: string
+  /** 由檔案內容判斷的 MIME type (驗證通過時提供) */
+  mimeType?: DetectedImageType
+  /** 圖片 EXIF 中繼資料 (驗證通過時提供) */
+  metadata?: ExifMetadata | null
+}
+
+/**
+ * 建立驗證失敗的結果
+ */
+const createValidationError = (
+  code: ValidationErrorCode,
+  params: ValidationErrorParams,
+  messages: Messages,
+): ValidationResult => ({
+  valid: false,
+  code,
+  params,
+  error: messages.validation[code](params),
+})
+
+/**
+ * 檢查圖片像素尺寸是否符合限制
+ *
+ * @param {number} width - 圖片寬度 (像素，已校正方向)
+ * @param {number} height - 圖片高度 (像素，已校正方向)
+ * @param {ImageDimensionLimits} limits - 尺寸限制
+ * @param {Messages} [messages] - 錯誤訊息使用的訊息目錄，預設為目前的全域語系
+ * @returns {ValidationResult} 檢查結果
+ *
+ * @example
+ * validateImageDimensions(200, 200, { minWidth: 400 })
+ * // {
+ * //   valid: false,
+ * //   code: 'image-too-small',
+ * //   params: { dimension: 'width', actual: 200, limit: 400 },
+ * //   error: '圖片寬度 200px 小於最小限制 400px',
+ * // }
+ */
+export const validateImageDimensions = (
+  width: number,
+  height: number,
+  limits: ImageDimensionLimits,
+  messages: Messages = getMessages(),
+): ValidationResult => {
+  const { minWidth, minHeight, maxWidth, maxHeight, maxMegapixels } = limits
+
+  if (minWidth && width < minWidth) {
+    return createValidationError(
+      'image-too-small',
+      { dimension: 'width', actual: width, limit: minWidth },
+      messages,
+    )
+  }
+
+  if (minHeight && height < minHeight) {
+    return createValidationError(
+      'image-too-small',
+      { dimension: 'height', actual: height, limit: minHeight },
+      messages,
+    )
+  }
+
+  if (maxWidth && width > maxWidth) {
+    return createValidationError(
+      'image-too-large',
+      { dimension: 'width', actual: width, limit: maxWidth },
+      messages,
+    )
+  }
+
+  if (maxHeight && height > maxHeight) {
+    return createValidationError(
+      'image-too-large',
+      { dimension: 'height', actual: height, limit: maxHeight },
+      messages,
+    )
+  }
+
+  const megapixels = (width * height) / 1_000_000
+  if (maxMegapixels && megapixels > maxMegapixels) {
+    return createValidationError(
+      'image-too-large',
+      { dimension: 'megapixels', actual: megapixels, limit: maxMegapixels },
+      messages,
+    )
+  }
+
+  return { valid: true }
+}
+
+/**
+ * 讀取圖片的像素尺寸
+ *
  * @description
- * 設定為 0.92 (92%) 是為了避免檔案大小膨脹。
- * 當使用 1.0 (100%) 時，瀏覽器會使用極低的壓縮率，導致產出的圖片檔案大小可能遠大於原始檔案。
- * 0.92 是一個在品質與檔案大小之間取得良好平衡的數值，通常能產出與原圖大小相近的結果。
+ * 以 Image 元素載入並讀取 naturalWidth / naturalHeight。
+ * 瀏覽器只需解析檔頭即可得知尺寸，不會因為超大圖片而一次配置大量記憶體。
+ */
+const readImageSize = (url: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight })
+    img.onerror = () => reject(new Error('Failed to decode image'))
+    img.src = url
+  })
+}
+
+/**
+ * 圖片來源 (loadFromSource)
+ * - string: 遠端 URL (需允許 CORS) 或 data URL
+ * - Blob / File: 已取得的圖片資料
  */
-export const EXPORT_IMAGE_QUALITY = 0.92
+export type ImageSource = string | Blob
 
 /**
- * WebP 圖片匯出品質設定
+ * 未指定名稱、也無法從網址取得檔名時使用的圖片名稱
  * @constant
- * @description
- * 設定為 0.95 (95%)。WebP 的壓縮效率優於 JPEG，即使在高品質下也能保持較小的檔案大小。
- * 使用 0.95 可以獲得接近無損的視覺品質，同時檔案大小通常仍小於 JPEG (0.92)。
  */
-export const EXPORT_WEBP_QUALITY = 0.95
+const DEFAULT_SOURCE_NAME = 'image'
+
+/**
+ * 由圖片來源推測檔案名稱 (網址路徑的最後一段)
+ */
+const getSourceName = (source: ImageSource) => {
+  if (source instanceof File) return source.name
+  if (typeof source !== 'string' || source.startsWith('data:')) return DEFAULT_SOURCE_NAME
+
+  try {
+    const segment = new URL(source, window.location.href).pathname.split('/').pop()
+    return segment ? decodeURIComponent(segment) : DEFAULT_SOURCE_NAME
+  } catch {
+    return DEFAULT_SOURCE_NAME
+  }
+}
+
+// 匯出品質定義於 encodeUtils.ts (編碼 Worker 不可引入本模組)，此處維持原本的匯出
+export { EXPORT_IMAGE_QUALITY, EXPORT_WEBP_QUALITY } from '@/utils/encodeUtils'
 
 /**
  * 圖片裁切邏輯封裝 Composable
@@ -74,13 +269,17 @@ export const EXPORT_WEBP_QUALITY = 0.95
  * @description 提供圖片選擇、驗證、載入與清理功能
  *
  * @param {number} [maxFileSize=10485760] - 最大檔案大小限制 (bytes)，預設 10MB
+ * @param {Function} [dimensionLimits] - 取得圖片像素尺寸限制 (每次驗證時讀取，prop 變更後立即生效；JPEG 於解碼前以檔案標頭檢查，其他格式於解碼後檢查)
  *
  * @returns {Object} Cropper 功能集合
  * @returns {ComputedRef<string>} ACCEPT_STRING - 檔案選擇器 accept 屬性
  * @returns {Ref<string>} imageUrl - 圖片 Object URL (透過 URL.createObjectURL 產生)
  * @returns {Ref<string>} imageName - 圖片檔案名稱
  * @returns {Ref<string>} imageMimeType - 圖片 MIME type
- * @returns {Function} loadImage - 載入並驗證圖片檔案
+ * @returns {Ref<ExifMetadata | null>} imageMetadata - 圖片 EXIF 中繼資料 (方向、拍攝時間、GPS)
+ * @returns {Function} loadImage - 載入並驗證圖片檔案 (非同步)
+ * @returns {Function} loadFromSource - 從網址、data URL 或 Blob 載入並驗證圖片 (非同步)
+ * @returns {Function} prepareImage - 驗證圖片檔案並建立 Object URL，不變更目前的圖片 (非同步)
  * @returns {Function} clear - 清除圖片並釋放 Object URL
  *
  * @example
@@ -90,92 +289,232 @@ export const EXPORT_WEBP_QUALITY = 0.95
  *   imageName,
  *   loadImage,
  *   clear
- * } = useCropper(5 * 1024 * 1024) // 5MB 限制
+ * } = useCropper(5 * 1024 * 1024, () => ({ minWidth: 400, maxMegapixels: 50 })) // 5MB、至少 400px 寬、最多 5000 萬像素
  *
- * const handleFileChange = (event: Event) => {
+ * const handleFileChange = async (event: Event) => {
  *   const file = (event.target as HTMLInputElement).files?.[0]
  *   if (!file) return
  *
- *   const result = loadImage(file)
+ *   const result = await loadImage(file)
  *   if (!result.valid) {
  *     alert(result.error)
  *   }
  * }
  */
-export const useCropper = (maxFileSize: number = 10 * 1024 * 1024) => {
+export const useCropper = (
+  maxFileSize: number = 10 * 1024 * 1024,
+  dimensionLimits: () => ImageDimensionLimits = () => ({}),
+) => {
   const imageUrl = ref<string>('')
   const imageName = ref<string>('')
   const imageMimeType = ref<string>('')
+  const imageMetadata = ref<ExifMetadata | null>(null)
   const { isSupported: isHeicSupported } = useHeicSupport()
+  const { messages } = useI18n()
 
   const acceptString = computed(() => {
     return isHeicSupported.value ? `${BASE_ACCEPT_STRING},.heic,.heif` : BASE_ACCEPT_STRING
   })
 
+  const isAcceptedType = (type: string) => {
+    const isBaseFormat = BASE_ACCEPTED_FORMATS.some((f) => f === type)
+    const isHeicFormat = HEIC_FORMATS.some((f) => f === type)
+    return isBaseFormat || (isHeicFormat && isHeicSupported.value)
+  }
+
+  const unsupportedFormatResult = (): ValidationResult => {
+    const formats = [
+      'JPG',
+      'PNG',
+      'GIF',
+      'WebP',
+      'BMP',
+      ...(isHeicSupported.value ? ['HEIC'] : []),
+      'AVIF',
+    ]
+
+    return createValidationError('unsupported-format', { formats }, messages.value)
+  }
+
   /**
    * 驗證圖片檔案格式與大小
    * @param {File} file - 要驗證的檔案
-   * @returns {ValidationResult} 驗證結果
+   * @returns {Promise<ValidationResult & { mimeType?: DetectedImageType }>} 驗證結果 (通過時包含由內容判斷的 MIME type)
+   *
+   * @description
+   * File.type 由作業系統或副檔名推測而來並不可靠，因此改以檔案開頭的簽章 (Magic bytes) 判斷實際格式，
+   * 再與宣告的 MIME type 交叉比對：
+   * - 改副檔名的非圖片檔案會被拒絕
+   * - 沒有 MIME type 的檔案 (例如 Windows 上的 HEIC) 以實際內容為準
    */
-  const validateFile = (file: File): ValidationResult => {
-    const isBaseFormat = BASE_ACCEPTED_FORMATS.some((f) => f === file.type)
-    const isHeicFormat = HEIC_FORMATS.some((f) => f === file.type)
-    const isSupportedHeic = isHeicFormat && isHeicSupported.value
-
-    if (!isBaseFormat && !isSupportedHeic) {
-      const allowedFormats = [
-        'JPG',
-        'PNG',
-        'GIF',
-        'WebP',
-        'BMP',
-        ...(isHeicSupported.value ? ['HEIC'] : []),
-        'AVIF',
-      ].join('、')
-
-      return {
-        valid: false,
-        error: `不支援的圖片格式，請選擇 ${allowedFormats}`,
-      }
+  const validateFile = async (
+    file: File,
+  ): Promise<ValidationResult & { mimeType?: DetectedImageType }> => {
+    const header = new Uint8Array(await file.slice(0, SIGNATURE_BYTES_LENGTH).arrayBuffer())
+    const detectedType = detectImageType(header)
+
+    if (!detectedType) {
+      return isAcceptedType(normalizeMimeType(file.type))
+        ? createValidationError('invalid-content', {}, messages.value)
+        : unsupportedFormatResult()
+    }
+
+    if (!isAcceptedType(detectedType)) {
+      return unsupportedFormatResult()
+    }
+
+    if (!isDeclaredTypeConsistent(file.type, detectedType)) {
+      return createValidationError(
+        'type-mismatch',
+        { detectedFormat: IMAGE_TYPE_LABELS[detectedType] },
+        messages.value,
+      )
     }
 
     if (file.size > maxFileSize) {
-      return {
-        valid: false,
-        error: `圖片大小超過 ${(maxFileSize / 1024 / 1024).toFixed(0)}MB 限制`,
+      return createValidationError('file-too-large', { maxFileSize }, messages.value)
+    }
+
+    return { valid: true, mimeType: detectedType }
+  }
+
+  /**
+   * 驗證圖片檔案並建立 Object URL，但不變更 imageUrl 等狀態
+   * @param {File} file - 要處理的圖片檔案
+   * @returns {Promise<PreparedImageResult>} 處理結果 (通過時包含 Object URL、MIME type 與 EXIF 中繼資料)
+   *
+   * @description
+   * - 自動驗證檔案格式 (依檔案內容) 與大小
+   * - 解析 EXIF (方向、拍攝時間、GPS)
+   * - 若 JPEG 帶有 Orientation 標記，先校正為顯示方向再交給 cropper-image，避免各瀏覽器顯示不一致
+   * - 設定 dimensionLimits 時檢查像素尺寸 (以校正方向後的寬高為準)；
+   *   JPEG 在解碼前以 SOF 區段的尺寸檢查，其他格式則於解碼後檢查
+   *
+   * 批次模式 (useCropQueue) 以此為每張圖片建立各自的 Object URL，回傳的 url 需由呼叫端釋放。
+   */
+  const prepareImage = async (file: File): Promise<PreparedImageResult> => {
+    const { mimeType, ...validation } = await validateFile(file)
+    if (!validation.valid || !mimeType) {
+      return validation
+    }
+
+    const buffer = await file.arrayBuffer()
+    const metadata = parseExif(buffer)
+    const limits = dimensionLimits()
+    const hasDimensionLimits = Object.values(limits).some(Boolean)
+
+    // [為什麼 JPEG 要在方向校正前檢查尺寸？]
+    // normalizeOrientation 會以 createImageBitmap 解碼整張圖片並繪製到同尺寸的 Canvas，
+    // 20000 × 20000 這類超大圖片 (decompression bomb) 在檢查前就會耗盡記憶體。
+    // SOF 區段的尺寸不需解碼即可取得，依 Orientation 互換寬高後即為顯示尺寸。
+    const headerSize = mimeType === 'image/jpeg' ? readJpegSize(buffer) : null
+    if (hasDimensionLimits && headerSize) {
+      const { width, height } = getOrientationTransform(
+        metadata?.orientation ?? 1,
+        headerSize.width,
+        headerSize.height,
+      )
+      const dimensionResult = validateImageDimensions(width, height, limits, messages.value)
+      if (!dimensionResult.valid) {
+        return dimensionResult
       }
     }
 
-    return { valid: true }
+    const source =
+      (mimeType === 'image/jpeg' &&
+        metadata &&
+        (await normalizeOrientation(file, buffer, metadata.orientation))) ||
+      file
+
+    const url = URL.createObjectURL(source)
+
+    // 無法由標頭取得尺寸時 (JPEG 以外的格式)，解碼後再檢查
+    if (hasDimensionLimits && !headerSize) {
+      let dimensionResult: ValidationResult
+      try {
+        const { width, height } = await readImageSize(url)
+        dimensionResult = validateImageDimensions(width, height, limits, messages.value)
+      } catch {
+        dimensionResult = createValidationError('decode-failed', {}, messages.value)
+      }
+
+      if (!dimensionResult.valid) {
+        URL.revokeObjectURL(url)
+        return dimensionResult
+      }
+    }
+
+    return { valid: true, url, mimeType, metadata }
   }
 
   /**
    * 載入圖片檔案並建立 Object URL
    * @param {File} file - 要載入的圖片檔案
-   * @returns {ValidationResult} 載入結果 (失敗時包含錯誤訊息)
+   * @returns {Promise<ValidationResult>} 載入結果 (失敗時包含錯誤代碼、參數與目前語系的錯誤訊息)
    *
    * @description
-   * - 自動驗證檔案格式與大小
+   * - 驗證與前處理同 prepareImage
    * - 自動釋放先前的 Object URL (避免記憶體洩漏)
-   * - 設定 imageUrl、imageName、imageMimeType
+   * - 設定 imageUrl、imageName、imageMimeType (由檔案內容判斷，而非 File.type)、imageMetadata
    */
-  const loadImage = (file: File): ValidationResult => {
-    const validation = validateFile(file)
-    if (!validation.valid) {
-      return validation
+  const loadImage = async (file: File): Promise<ValidationResult> => {
+    const { url, mimeType, metadata, ...result } = await prepareImage(file)
+    if (!result.valid || !url || !mimeType) {
+      return result
     }
 
     if (imageUrl.value) {
       URL.revokeObjectURL(imageUrl.value)
     }
 
-    imageUrl.value = URL.createObjectURL(file)
+    imageUrl.value = url
     imageName.value = file.name
-    imageMimeType.value = file.type
+    imageMimeType.value = mimeType
+    imageMetadata.value = metadata ?? null
 
     return { valid: true }
   }
 
+  /**
+   * 從網址、data URL 或 Blob 載入圖片
+   * @param {ImageSource} source - 圖片來源 (遠端 URL、data URL、Blob 或 File)
+   * @param {string} [name] - 圖片名稱 (影響匯出的檔名)，未指定時取網址路徑的最後一段
+   * @returns {Promise<ValidationResult>} 載入結果 (取得失敗時錯誤代碼為 fetch-failed)
+   *
+   * @description
+   * 取得的內容轉為 File 後交給 loadImage，因此套用相同的格式 (依內容)、大小與像素尺寸驗證。
+   *
+   * [為什麼要先 fetch，而不是直接把網址交給 cropper-image？]
+   * 跨來源圖片若未以 CORS 載入，繪製到 Canvas 後會被標記為 tainted，匯出時 ($toCanvas 之後讀取像素) 才會失敗。
+   * 以 CORS 模式 fetch 並轉為同源的 Object URL，伺服器未允許跨來源存取時會在載入階段就以 fetch-failed 回報，
+   * 同時也能解析 EXIF 並校正方向。
+   */
+  const loadFromSource = async (source: ImageSource, name?: string): Promise<ValidationResult> => {
+    let blob: Blob
+    if (typeof source === 'string') {
+      try {
+        const response = await fetch(source, { mode: 'cors' })
+        if (!response.ok) {
+          return createValidationError('fetch-failed', { status: response.status }, messages.value)
+        }
+        // 讀取內容的途中也可能因網路中斷或取消而失敗
+        blob = await response.blob()
+      } catch {
+        // 網路錯誤與 CORS 拒絕同樣以 TypeError 失敗，瀏覽器不會透露實際原因
+        return createValidationError('fetch-failed', {}, messages.value)
+      }
+    } else {
+      blob = source
+    }
+
+    const file =
+      blob instanceof File && !name
+        ? blob
+        : new File([blob], name ?? getSourceName(source), { type: blob.type })
+
+    return loadImage(file)
+  }
+
   /**
    * 清除圖片資料並釋放 Object URL
    * @description 主動呼叫此函式或 component unmount 時會自動清理
@@ -187,6 +526,7 @@ export const useCropper = (maxFileSize: number = 10 * 1024 * 1024) => {
     imageUrl.value = ''
     imageName.value = ''
     imageMimeType.value = ''
+    imageMetadata.value = null
   }
 
   // 當 component unmount 時自動清理 Object URL
@@ -199,7 +539,10 @@ export const useCropper = (maxFileSize: number = 10 * 1024 * 1024) => {
     imageUrl,
     imageName,
     imageMimeType,
+    imageMetadata,
     loadImage,
+    loadFromSource,
+    prepareImage,
     clear,
   }
 }
@@ -1,3 +1,5 @@
+import type { CropData } from './useCropper'
+
 /**
  * 計算符合指定 aspect ratio 的選取框尺寸與位置
  *
@@ -22,6 +24,8 @@
  * @param canvasRect - Canvas 容器的邊界矩形
  * @param aspectRatio - 目標長寬比 (width / height)，例如 9/16 = 0.5625
  * @param coverage - 覆蓋比例 (0~1)，表示選取框佔圖片的比例
+ * @param center - 選取框的中心點 (Canvas 座標)，未指定時置中於圖片；
+ *   切換比例時傳入目前選取框的中心，維持構圖重心 (會修正位置使選取框不超出圖片)
  * @returns 選取框的 x, y, width, height，若無法計算則返回 null
  *
  * @example
@@ -34,6 +38,7 @@ export const calculateFitSelection = (
   canvasRect: DOMRect,
   aspectRatio: number,
   coverage: number,
+  center?: { x: number; y: number },
 ) => {
   // 計算圖片在 Canvas 中的相對位置
   const imgX = imageRect.left - canvasRect.left
@@ -57,9 +62,728 @@ export const calculateFitSelection = (
   // 防止無效尺寸
   if (w <= 0 || h <= 0) return null
 
+  if (center) {
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+    return {
+      x: clamp(center.x - w / 2, imgX, imgX + imgW - w),
+      y: clamp(center.y - h / 2, imgY, imgY + imgH - h),
+      width: w,
+      height: h,
+    }
+  }
+
   // 計算置中位置
   const x = imgX + (imgW - w) / 2
   const y = imgY + (imgH - h) / 2
 
   return { x, y, width: w, height: h }
 }
+
+/**
+ * CropperImage 的 2D 變換矩陣
+ *
+ * 格式為 [a, b, c, d, e, f]，對應 CSS `matrix(a, b, c, d, e, f)`：
+ * - a, b, c, d: 線性變換 (縮放、旋轉、翻轉、傾斜)
+ * - e, f: 位移 (以圖片中心為 transform-origin)
+ */
+export type TransformMatrix = [number, number, number, number, number, number]
+
+/**
+ * 矩形區域 (Canvas 座標)
+ */
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * 可旋轉的圖片區域 (Canvas 座標)
+ *
+ * 由於旋轉後 getBoundingClientRect 只能取得外接矩形，
+ * 因此以「中心點 + 未旋轉的顯示尺寸 + 旋轉角度」描述圖片實際覆蓋的範圍。
+ */
+export interface RotatedImageBox {
+  /** 圖片中心 X 座標 */
+  centerX: number
+  /** 圖片中心 Y 座標 */
+  centerY: number
+  /** 圖片未旋轉時的顯示寬度 */
+  width: number
+  /** 圖片未旋轉時的顯示高度 */
+  height: number
+  /** 旋轉角度 (弧度) */
+  rotation: number
+}
+
+/**
+ * 取得變換矩陣相對於原始尺寸的縮放比例
+ *
+ * @description
+ * 以行列式 |ad - bc| 的平方根計算，旋轉與翻轉都不會影響結果。
+ * 未旋轉時與 hypot(a, b) 相同，但在旋轉或翻轉後仍能得到正確的等比縮放值。
+ *
+ * @param matrix - CropperImage 的變換矩陣
+ * @returns 縮放比例 (顯示尺寸 / 原始尺寸)
+ */
+export const getMatrixScale = (matrix: TransformMatrix) => {
+  const [a, b, c, d] = matrix
+  return Math.sqrt(Math.abs(a * d - b * c))
+}
+
+/**
+ * 取得變換矩陣的旋轉角度
+ *
+ * @param matrix - CropperImage 的變換矩陣
+ * @returns 旋轉角度 (弧度)
+ */
+export const getMatrixRotation = (matrix: TransformMatrix) => {
+  const [a, b] = matrix
+  return Math.atan2(b, a)
+}
+
+/**
+ * 以圖片中心為基準，在畫面座標系中旋轉矩陣
+ *
+ * @description
+ * 將旋轉矩陣「左乘」到目前的線性變換上，使旋轉方向以畫面為準，
+ * 即使圖片已經翻轉，向右旋轉在畫面上仍然是順時針。位移 (e, f) 不變，因此會以圖片中心旋轉。
+ *
+ * @param matrix - 目前的變換矩陣
+ * @param degrees - 旋轉角度 (度，正值為順時針)
+ * @returns 新的變換矩陣
+ */
+export const rotateMatrix = (matrix: TransformMatrix, degrees: number): TransformMatrix => {
+  const [a, b, c, d, e, f] = matrix
+  const radian = (degrees * Math.PI) / 180
+  const cos = Math.cos(radian)
+  const sin = Math.sin(radian)
+
+  return [cos * a - sin * b, sin * a + cos * b, cos * c - sin * d, sin * c + cos * d, e, f]
+}
+
+/**
+ * 以圖片中心為基準，在畫面座標系中翻轉矩陣
+ *
+ * @param matrix - 目前的變換矩陣
+ * @param direction - 翻轉方向 (horizontal: 左右翻轉，vertical: 上下翻轉)
+ * @returns 新的變換矩陣
+ */
+export const flipMatrix = (
+  matrix: TransformMatrix,
+  direction: 'horizontal' | 'vertical',
+): TransformMatrix => {
+  const [a, b, c, d, e, f] = matrix
+  return direction === 'horizontal' ? [-a, b, -c, d, e, f] : [a, -b, c, -d, e, f]
+}
+
+/**
+ * 計算矩形在旋轉後座標系中的半寬與半高
+ */
+const getRotatedHalfExtents = (width: number, height: number, rotation: number) => {
+  const cos = Math.abs(Math.cos(rotation))
+  const sin = Math.abs(Math.sin(rotation))
+  return {
+    x: (cos * width + sin * height) / 2,
+    y: (sin * width + cos * height) / 2,
+  }
+}
+
+/**
+ * 將選取框中心轉換到圖片的區域座標系 (以圖片中心為原點、未旋轉)
+ */
+const toImageLocal = (selection: Rect, image: RotatedImageBox) => {
+  const dx = selection.x + selection.width / 2 - image.centerX
+  const dy = selection.y + selection.height / 2 - image.centerY
+  const cos = Math.cos(image.rotation)
+  const sin = Math.sin(image.rotation)
+  return {
+    u: cos * dx + sin * dy,
+    v: -sin * dx + cos * dy,
+  }
+}
+
+/**
+ * 將圖片區域座標轉換回 Canvas 座標的位移量
+ */
+const fromImageLocal = (u: number, v: number, rotation: number) => {
+  const cos = Math.cos(rotation)
+  const sin = Math.sin(rotation)
+  return {
+    x: cos * u - sin * v,
+    y: sin * u + cos * v,
+  }
+}
+
+const clamp = (value: number, limit: number) => Math.min(Math.max(value, -limit), limit)
+
+/**
+ * 檢查選取框是否完整落在 (可能已旋轉的) 圖片範圍內
+ *
+ * @param selection - 選取框
+ * @param image - 圖片範圍
+ * @param epsilon - 容許誤差 (像素)
+ */
+export const isSelectionWithinImage = (selection: Rect, image: RotatedImageBox, epsilon = 0.5) => {
+  const extents = getRotatedHalfExtents(selection.width, selection.height, image.rotation)
+  const { u, v } = toImageLocal(selection, image)
+
+  return (
+    Math.abs(u) <= image.width / 2 - extents.x + epsilon &&
+    Math.abs(v) <= image.height / 2 - extents.y + epsilon
+  )
+}
+
+/**
+ * 計算能完整落在 (可能已旋轉的) 圖片範圍內的選取框
+ *
+ * ## 為什麼需要這個函式？
+ *
+ * 圖片旋轉後，外接矩形 (getBoundingClientRect) 的四個角落會是空白區域，
+ * 若以外接矩形作為邊界，選取框可能會包含圖片以外的透明區域。
+ *
+ * ## 解決方案
+ *
+ * 在圖片的區域座標系 (未旋轉) 中檢查：
+ * 1. 若選取框過大，以中心點為基準等比縮小 (維持 aspect ratio)
+ * 2. 將選取框中心限制在可移動範圍內
+ *
+ * @param selection - 目前的選取框
+ * @param image - 圖片範圍
+ * @returns 調整後的選取框
+ */
+export const calculateSelectionWithinImage = (selection: Rect, image: RotatedImageBox): Rect => {
+  const extents = getRotatedHalfExtents(selection.width, selection.height, image.rotation)
+
+  // 1. 調整尺寸 (縮放)
+  const scale = Math.min(1, image.width / 2 / extents.x, image.height / 2 / extents.y)
+  const width = selection.width * scale
+  const height = selection.height * scale
+  const limitX = Math.max(0, image.width / 2 - extents.x * scale)
+  const limitY = Math.max(0, image.height / 2 - extents.y * scale)
+
+  // 2. 調整位置 (位移)
+  const { u, v } = toImageLocal(selection, image)
+  const offset = fromImageLocal(clamp(u, limitX), clamp(v, limitY), image.rotation)
+  const centerX = image.centerX + offset.x
+  const centerY = image.centerY + offset.y
+
+  return {
+    x: centerX - width / 2,
+    y: centerY - height / 2,
+    width,
+    height,
+  }
+}
+
+/**
+ * 計算讓 (可能已旋轉的) 圖片完整覆蓋選取框所需的縮放與位移
+ *
+ * @description
+ * 用於「可移動背景」模式：選取框固定，圖片必須完整覆蓋選取框。
+ * 1. 若圖片不足以覆蓋選取框，以圖片中心為基準放大
+ * 2. 將圖片移動到最接近目前位置、且能覆蓋選取框的位置
+ *
+ * @param selection - 固定的選取框
+ * @param image - 圖片範圍
+ * @param scaleTolerance - 縮放容許值，需要的放大倍率未超過 1 + scaleTolerance 時不放大
+ * @returns scale 為圖片需要的放大倍率 (>= 1)，dx / dy 為圖片中心需要的位移量
+ */
+export const calculateImageCoverSelection = (
+  selection: Rect,
+  image: RotatedImageBox,
+  scaleTolerance = 0,
+) => {
+  const extents = getRotatedHalfExtents(selection.width, selection.height, image.rotation)
+
+  let scale = Math.max(1, extents.x / (image.width / 2), extents.y / (image.height / 2))
+  if (scale <= 1 + scaleTolerance) scale = 1
+
+  const limitX = Math.max(0, (image.width * scale) / 2 - extents.x)
+  const limitY = Math.max(0, (image.height * scale) / 2 - extents.y)
+
+  const { u, v } = toImageLocal(selection, image)
+  const clampedU = clamp(u, limitX)
+  const clampedV = clamp(v, limitY)
+
+  // 選取框相對圖片的位置改變，等同圖片往反方向移動
+  const offset = fromImageLocal(u - clampedU, v - clampedV, image.rotation)
+
+  return {
+    scale,
+    dx: offset.x,
+    dy: offset.y,
+  }
+}
+
+/**
+ * 計算讓 (可能已旋轉的) 圖片以中心對齊時完整覆蓋指定區域的最小縮放倍率
+ *
+ * @description
+ * 用於「可移動背景」模式的縮放指令 (符合裁切框、填滿編輯區域)。
+ * 縮放倍率為顯示像素 / 原始圖片像素 (與 getMatrixScale 相同)，1 即為 100%。
+ *
+ * @param area - 需要覆蓋的區域尺寸 (顯示像素)
+ * @param naturalWidth - 原始圖片寬度
+ * @param naturalHeight - 原始圖片高度
+ * @param rotation - 圖片的旋轉角度 (弧度)
+ * @returns 最小縮放倍率
+ */
+export const calculateCoverZoom = (
+  area: { width: number; height: number },
+  naturalWidth: number,
+  naturalHeight: number,
+  rotation: number,
+) => {
+  const extents = getRotatedHalfExtents(area.width, area.height, rotation)
+  return Math.max(extents.x / (naturalWidth / 2), extents.y / (naturalHeight / 2))
+}
+
+/**
+ * 計算將縮放倍率限制在 minZoom ~ maxZoom 之間需要額外套用的倍率
+ *
+ * @param zoom - 目前的縮放倍率
+ * @param minZoom - 最小縮放倍率
+ * @param maxZoom - 最大縮放倍率
+ * @returns 需要乘上的倍率 (已在範圍內時為 1)
+ */
+export const calculateZoomLimitScale = (zoom: number, minZoom: number, maxZoom: number) => {
+  if (!(zoom > 0)) return 1
+  const limited = Math.min(Math.max(zoom, minZoom), Math.max(minZoom, maxZoom))
+  return limited / zoom
+}
+
+/**
+ * 判斷裁切框變更是否會讓輸出尺寸縮小到低於最低解析度
+ *
+ * @description
+ * 寬或高任一邊縮小 (自由比例時可能只拖曳上下或左右的控制點)，且變更後的輸出尺寸低於最低解析度時為 true。
+ * 沒有縮小的變更 (移動、放大) 一律允許，因此已經低於最低解析度時 (例如原圖太小) 裁切框仍可操作。
+ *
+ * @param current - 目前的裁切框尺寸 (Canvas 像素)
+ * @param next - 變更後的裁切框尺寸 (Canvas 像素)
+ * @param nextOutput - 變更後的輸出尺寸 (原始圖片像素)
+ * @param minOutput - 最低輸出解析度 (原始圖片像素)
+ */
+export const isShrinkingBelowMinOutput = (
+  current: Pick<Rect, 'width' | 'height'>,
+  next: Pick<Rect, 'width' | 'height'>,
+  nextOutput: Pick<Rect, 'width' | 'height'>,
+  minOutput: Pick<Rect, 'width' | 'height'>,
+) =>
+  (next.width < current.width || next.height < current.height) &&
+  (nextOutput.width < minOutput.width || nextOutput.height < minOutput.height)
+
+/**
+ * 以左上角為基準調整選取框大小，並維持長寬比
+ *
+ * @description
+ * 用於鍵盤操作 (Alt + 方向鍵)，效果等同拖曳右下角的控制點。
+ * 縮小後的寬高不會小於 minSize，避免選取框消失。
+ *
+ * @param selection - 目前的選取框
+ * @param delta - 寬度的變化量 (正值放大、負值縮小)
+ * @param aspectRatio - 長寬比 (width / height)
+ * @param minSize - 寬高的最小值
+ * @returns 調整後的選取框
+ */
+export const calculateResizedSelection = (
+  selection: Rect,
+  delta: number,
+  aspectRatio: number,
+  minSize = 1,
+): Rect => {
+  const minWidth = Math.max(minSize, minSize * aspectRatio)
+  const width = Math.max(minWidth, selection.width + delta)
+
+  return {
+    x: selection.x,
+    y: selection.y,
+    width,
+    height: width / aspectRatio,
+  }
+}
+
+/**
+ * 裁切框相對於圖片的位置與尺寸 (以圖片寬高為 1 的比例)
+ *
+ * 與 Canvas 座標不同，不受圖片尺寸與顯示縮放影響，可以套用到其他圖片 (批次模式的「套用到全部」)。
+ */
+export interface CropFraming {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * 將選取框轉換為相對於圖片的比例
+ *
+ * @param selection - 選取框 (Canvas 座標)
+ * @param imageRect - 圖片在 Canvas 中的範圍 (Canvas 座標)
+ * @returns 相對比例，圖片尺寸無效時返回 null
+ *
+ * @example
+ * calculateFraming({ x: 100, y: 0, width: 200, height: 400 }, { x: 0, y: 0, width: 400, height: 400 })
+ * // { x: 0.25, y: 0, width: 0.5, height: 1 }
+ */
+export const calculateFraming = (selection: Rect, imageRect: Rect): CropFraming | null => {
+  if (imageRect.width <= 0 || imageRect.height <= 0) return null
+
+  return {
+    x: (selection.x - imageRect.x) / imageRect.width,
+    y: (selection.y - imageRect.y) / imageRect.height,
+    width: selection.width / imageRect.width,
+    height: selection.height / imageRect.height,
+  }
+}
+
+/**
+ * 將相對比例套用到圖片，計算選取框
+ *
+ * @description
+ * 圖片長寬比不同時，無法同時維持相對的寬與高，因此：
+ * 1. 以相對寬度計算尺寸，高度依 aspectRatio 推算 (自由比例時沿用相對高度)
+ * 2. 超出圖片時等比縮小到圖片範圍內
+ * 3. 維持相對的中心點 (構圖重心)，再修正位置使選取框不超出圖片
+ *
+ * @param framing - 相對比例 (calculateFraming 的結果)
+ * @param imageRect - 目標圖片在 Canvas 中的範圍
+ * @param aspectRatio - 長寬比 (width / height)，自由比例時為 null
+ * @returns 選取框 (Canvas 座標)，無法計算時返回 null
+ */
+export const calculateSelectionFromFraming = (
+  framing: CropFraming,
+  imageRect: Rect,
+  aspectRatio: number | null,
+): Rect | null => {
+  if (imageRect.width <= 0 || imageRect.height <= 0) return null
+  if (aspectRatio !== null && aspectRatio <= 0) return null
+
+  let width = framing.width * imageRect.width
+  let height = aspectRatio === null ? framing.height * imageRect.height : width / aspectRatio
+
+  const scale = Math.min(1, imageRect.width / width, imageRect.height / height)
+  width *= scale
+  height *= scale
+
+  if (!(width > 0) || !(height > 0)) return null
+
+  const centerX = imageRect.x + (framing.x + framing.width / 2) * imageRect.width
+  const centerY = imageRect.y + (framing.y + framing.height / 2) * imageRect.height
+
+  const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+  return {
+    x: clamp(centerX - width / 2, imageRect.x, imageRect.x + imageRect.width - width),
+    y: clamp(centerY - height / 2, imageRect.y, imageRect.y + imageRect.height - height),
+    width,
+    height,
+  }
+}
+
+/**
+ * 圖片在 Canvas 中的中心點與原始尺寸
+ */
+export interface SourceImageBox {
+  /** 圖片中心 X 座標 (Canvas 座標) */
+  centerX: number
+  /** 圖片中心 Y 座標 (Canvas 座標) */
+  centerY: number
+  /** 原始圖片寬度 (像素) */
+  naturalWidth: number
+  /** 原始圖片高度 (像素) */
+  naturalHeight: number
+}
+
+/**
+ * 將原始圖片像素座標換算為 Canvas 座標 (含縮放、旋轉與翻轉)
+ *
+ * @description
+ * 矩陣以圖片中心為 transform-origin，因此以圖片中心為原點套用線性部分，再加上圖片中心的 Canvas 座標。
+ * 用於將焦點 (FocalPoint) 對應到畫面上的位置。
+ *
+ * @param point - 原始圖片像素座標
+ * @param image - 圖片中心點 (Canvas 座標) 與原始尺寸
+ * @param matrix - CropperImage 的變換矩陣
+ * @returns Canvas 座標
+ */
+export const sourceToCanvasPoint = (
+  point: { x: number; y: number },
+  image: SourceImageBox,
+  matrix: TransformMatrix,
+) => {
+  const [a, b, c, d] = matrix
+  const u = point.x - image.naturalWidth / 2
+  const v = point.y - image.naturalHeight / 2
+
+  return {
+    x: image.centerX + a * u + c * v,
+    y: image.centerY + b * u + d * v,
+  }
+}
+
+/**
+ * 將 Canvas 座標換算為原始圖片像素座標 (sourceToCanvasPoint 的反向換算)
+ *
+ * @param point - Canvas 座標 (例如雙擊的位置)
+ * @param image - 圖片中心點 (Canvas 座標) 與原始尺寸
+ * @param matrix - CropperImage 的變換矩陣
+ * @returns 原始圖片像素座標 (可能落在圖片範圍外)
+ */
+export const canvasToSourcePoint = (
+  point: { x: number; y: number },
+  image: SourceImageBox,
+  matrix: TransformMatrix,
+) => {
+  const [a, b, c, d] = matrix
+  const determinant = a * d - b * c
+  const dx = point.x - image.centerX
+  const dy = point.y - image.centerY
+
+  return {
+    x: (d * dx - c * dy) / determinant + image.naturalWidth / 2,
+    y: (a * dy - b * dx) / determinant + image.naturalHeight / 2,
+  }
+}
+
+/**
+ * 原圖翻轉並旋轉後的外接矩形尺寸 (原始圖片像素)
+ */
+const getSourceBoundingSize = (naturalWidth: number, naturalHeight: number, rotation: number) => {
+  const cos = Math.abs(Math.cos(rotation))
+  const sin = Math.abs(Math.sin(rotation))
+  return {
+    width: cos * naturalWidth + sin * naturalHeight,
+    height: sin * naturalWidth + cos * naturalHeight,
+  }
+}
+
+/**
+ * 將選取框換算為原始圖片像素座標的裁切資料 (CropData)
+ *
+ * @description
+ * 變換矩陣的線性部分可拆解為「等比縮放 × 旋轉 × 翻轉」(翻轉先套用在圖片上，旋轉以畫面為準)。
+ * 將原圖翻轉並旋轉後，其外接矩形與 Canvas 之間只差一個等比縮放與位移，
+ * 因此選取框除以縮放比例、再以外接矩形的中心對齊圖片中心，即為外接矩形座標系中的裁切矩形。
+ *
+ * 水平翻轉 + 旋轉 θ 與垂直翻轉 + 旋轉 θ + 180° 是相同的矩陣，因此翻轉狀態由編輯器提供 (isFlippedX / isFlippedY)，
+ * 旋轉角度再由矩陣與翻轉狀態推算。
+ *
+ * @param selection - 選取框 (Canvas 座標)
+ * @param image - 圖片中心點 (Canvas 座標) 與原始尺寸
+ * @param matrix - CropperImage 的變換矩陣
+ * @param flip - 水平 / 垂直翻轉狀態
+ * @returns 裁切資料 (座標與尺寸四捨五入為整數像素，角度取到小數點後兩位)
+ *
+ * @example
+ * // 原圖 800x600 以 0.5 倍顯示 (中心為 (200, 150))，選取框位於圖片左上角
+ * calculateCropData(
+ *   { x: 0, y: 0, width: 200, height: 100 },
+ *   { centerX: 200, centerY: 150, naturalWidth: 800, naturalHeight: 600 },
+ *   [0.5, 0, 0, 0.5, 0, 0],
+ *   { x: false, y: false },
+ * )
+ * // { x: 0, y: 0, width: 400, height: 200, rotate: 0, scaleX: 1, scaleY: 1 }
+ */
+export const calculateCropData = (
+  selection: Rect,
+  image: SourceImageBox,
+  matrix: TransformMatrix,
+  flip: { x: boolean; y: boolean },
+): CropData => {
+  const scale = getMatrixScale(matrix)
+  const scaleX = flip.x ? -1 : 1
+  const scaleY = flip.y ? -1 : 1
+
+  // 線性部分的第一欄為 scale * scaleX * (cos θ, sin θ)，乘回 scaleX 即可取得旋轉角度
+  const [a, b] = matrix
+  const rotation = Math.atan2(b * scaleX, a * scaleX)
+  const degrees = ((((rotation * 180) / Math.PI) % 360) + 360) % 360
+  const rotate = Math.round(degrees * 100) / 100
+
+  // 翻轉並旋轉後的外接矩形 (原始圖片像素)
+  const { width: boundingWidth, height: boundingHeight } = getSourceBoundingSize(
+    image.naturalWidth,
+    image.naturalHeight,
+    rotation,
+  )
+
+  // 避免 Math.round 產生 -0
+  const toPixel = (value: number) => Math.round(value) || 0
+
+  return {
+    x: toPixel((selection.x - image.centerX) / scale + boundingWidth / 2),
+    y: toPixel((selection.y - image.centerY) / scale + boundingHeight / 2),
+    width: toPixel(selection.width / scale),
+    height: toPixel(selection.height / scale),
+    rotate: rotate === 360 ? 0 : rotate,
+    scaleX,
+    scaleY,
+  }
+}
+
+/**
+ * 還原裁切資料時容許的誤差 (原始圖片像素)
+ * @constant
+ * @description calculateCropData 會將座標四捨五入為整數，貼齊圖片邊緣的裁切矩形可能超出外接矩形 1 像素以內
+ */
+const CROP_DATA_TOLERANCE = 1
+
+/**
+ * 檢查裁切資料是否適用於目前載入的圖片
+ *
+ * @description
+ * 用於還原上次的裁切 (initialCrop)。數值必須有效，且裁切矩形需落在原圖翻轉並旋轉後的外接矩形內；
+ * 例如換了一張較小的圖片時，舊的裁切資料會超出範圍而視為無效，由編輯器改用自動置中。
+ * 外接矩形角落沒有圖片的部分不在此檢查，交由既有的邊界修正 (snap) 處理。
+ *
+ * @param cropData - 裁切資料
+ * @param naturalWidth - 原始圖片寬度 (像素)
+ * @param naturalHeight - 原始圖片高度 (像素)
+ * @returns 是否可以還原
+ */
+export const isValidCropData = (
+  cropData: CropData,
+  naturalWidth: number,
+  naturalHeight: number,
+) => {
+  const { x, y, width, height, rotate, scaleX, scaleY } = cropData
+  if (![x, y, width, height, rotate].every(Number.isFinite)) return false
+  if (width <= 0 || height <= 0) return false
+  if (Math.abs(scaleX) !== 1 || Math.abs(scaleY) !== 1) return false
+
+  const bounding = getSourceBoundingSize(naturalWidth, naturalHeight, (rotate * Math.PI) / 180)
+  return (
+    x >= -CROP_DATA_TOLERANCE &&
+    y >= -CROP_DATA_TOLERANCE &&
+    x + width <= bounding.width + CROP_DATA_TOLERANCE &&
+    y + height <= bounding.height + CROP_DATA_TOLERANCE
+  )
+}
+
+/**
+ * 將裁切資料的角度拆為 90 度旋轉與拉直角度 (對應編輯器的 rotation 與 straightenAngle)
+ *
+ * @param rotate - 順時針旋轉角度 (度)
+ * @returns rotation 為 0 / 90 / 180 / 270，straightenAngle 介於 ±45 度
+ *
+ * @example
+ * splitRotation(100) // { rotation: 90, straightenAngle: 10 }
+ * splitRotation(350) // { rotation: 0, straightenAngle: -10 }
+ */
+export const splitRotation = (rotate: number) => {
+  const quarter = Math.round(rotate / 90) * 90
+  return {
+    rotation: ((quarter % 360) + 360) % 360,
+    // 避免產生 -0
+    straightenAngle: rotate - quarter || 0,
+  }
+}
+
+/**
+ * 依裁切資料的翻轉與角度產生變換矩陣
+ *
+ * @description
+ * 線性部分為「縮放 × 旋轉 × 翻轉」，與 calculateCropData 的拆解方式相反 (翻轉先套用，旋轉以畫面為準)。
+ * 位移 (e, f) 沿用目前的矩陣，因此圖片中心不變。
+ *
+ * @param matrix - 目前的變換矩陣 (提供位移)
+ * @param cropData - 裁切資料 (使用 rotate、scaleX、scaleY)
+ * @param scale - 縮放比例 (顯示尺寸 / 原始尺寸)，未指定時沿用目前矩陣的縮放比例
+ * @returns 新的變換矩陣
+ */
+export const calculateCropDataMatrix = (
+  matrix: TransformMatrix,
+  cropData: CropData,
+  scale = getMatrixScale(matrix),
+): TransformMatrix => {
+  const radian = (cropData.rotate * Math.PI) / 180
+  const cos = Math.cos(radian)
+  const sin = Math.sin(radian)
+  const { scaleX, scaleY } = cropData
+
+  return [
+    scale * scaleX * cos,
+    scale * scaleX * sin,
+    -scale * scaleY * sin,
+    scale * scaleY * cos,
+    matrix[4],
+    matrix[5],
+  ]
+}
+
+/**
+ * 將裁切資料換算回選取框 (移動裁切框模式)
+ *
+ * @description
+ * calculateCropData 的反向計算：圖片已依裁切資料翻轉、旋轉並置中後，
+ * 以外接矩形的中心對齊圖片中心，再乘上縮放比例即為 Canvas 座標中的選取框。
+ * 指定 aspectRatio 且與裁切資料的比例不同時 (例如四捨五入誤差或換了比例)，以相同寬度與中心點修正高度。
+ *
+ * @param cropData - 裁切資料
+ * @param image - 圖片中心點 (Canvas 座標) 與原始尺寸
+ * @param scale - 縮放比例 (顯示尺寸 / 原始尺寸)
+ * @param aspectRatio - 選取框長寬比 (width / height)，null 表示自由比例 (沿用裁切資料的比例)
+ * @returns 選取框 (Canvas 座標)
+ */
+export const calculateSelectionFromCropData = (
+  cropData: CropData,
+  image: SourceImageBox,
+  scale: number,
+  aspectRatio: number | null,
+): Rect => {
+  const bounding = getSourceBoundingSize(
+    image.naturalWidth,
+    image.naturalHeight,
+    (cropData.rotate * Math.PI) / 180,
+  )
+
+  const x = image.centerX + (cropData.x - bounding.width / 2) * scale
+  const y = image.centerY + (cropData.y - bounding.height / 2) * scale
+  const width = cropData.width * scale
+  const height = cropData.height * scale
+
+  if (aspectRatio === null) return { x, y, width, height }
+
+  const fittedHeight = width / aspectRatio
+  return { x, y: y + (height - fittedHeight) / 2, width, height: fittedHeight }
+}
+
+/**
+ * 將裁切資料換算回圖片的縮放比例與中心位置 (移動圖片模式)
+ *
+ * @description
+ * 此模式的選取框固定，因此改為移動並縮放圖片，使裁切資料的範圍對齊選取框。
+ * 比例與選取框不同時取較大的縮放比例並對齊中心，使選取框完整落在原本的裁切範圍內。
+ *
+ * @param cropData - 裁切資料
+ * @param selection - 固定的選取框 (Canvas 座標)
+ * @param naturalWidth - 原始圖片寬度 (像素)
+ * @param naturalHeight - 原始圖片高度 (像素)
+ * @returns scale 為縮放比例 (顯示尺寸 / 原始尺寸)，centerX / centerY 為圖片中心 (Canvas 座標)
+ */
+export const calculateImagePlacementFromCropData = (
+  cropData: CropData,
+  selection: Rect,
+  naturalWidth: number,
+  naturalHeight: number,
+) => {
+  const bounding = getSourceBoundingSize(
+    naturalWidth,
+    naturalHeight,
+    (cropData.rotate * Math.PI) / 180,
+  )
+  const scale = Math.max(selection.width / cropData.width, selection.height / cropData.height)
+
+  // 裁切範圍的中心相對於外接矩形中心的位移 (原始圖片像素)
+  const offsetX = cropData.x + cropData.width / 2 - bounding.width / 2
+  const offsetY = cropData.y + cropData.height / 2 - bounding.height / 2
+
+  return {
+    scale,
+    centerX: selection.x + selection.width / 2 - offsetX * scale,
+    centerY: selection.y + selection.height / 2 - offsetY * scale,
+  }
+}
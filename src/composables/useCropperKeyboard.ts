@@ -0,0 +1,74 @@
+/**
+ * 方向鍵每次移動的距離 (Canvas 像素)
+ * @constant
+ */
+export const KEYBOARD_MOVE_STEP = 5
+
+/**
+ * 按住 Shift 時方向鍵每次移動的距離 (Canvas 像素)
+ * @constant
+ */
+export const KEYBOARD_MOVE_LARGE_STEP = 25
+
+/**
+ * +/- 每次縮放的比例
+ * @constant
+ * @description 與 cropper-canvas 的 scale-step="0.1" 一致，讓鍵盤與滾輪的縮放手感相同
+ */
+export const KEYBOARD_ZOOM_STEP = 0.1
+
+/**
+ * 鍵盤操作
+ * - move: 移動 (裁切框或圖片)，dx / dy 為 Canvas 像素
+ * - resize: 以左上角為基準調整裁切框大小，delta 為寬度變化量
+ * - zoom: 以中心縮放，scale 與 Cropper.js 的 $zoom 參數相同 (正值放大、負值縮小)
+ */
+export type KeyboardAction =
+  | { type: 'move'; dx: number; dy: number }
+  | { type: 'resize'; delta: number }
+  | { type: 'zoom'; scale: number }
+
+const ARROW_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+}
+
+const ZOOM_IN_KEYS = ['+', '=']
+const ZOOM_OUT_KEYS = ['-', '_']
+
+/**
+ * 將鍵盤事件轉換為裁切操作
+ *
+ * @description
+ * - 方向鍵：移動 (Shift 加大步距)
+ * - Alt + 方向鍵：調整裁切框大小 (→ / ↓ 放大、← / ↑ 縮小)
+ * - + / -：縮放
+ *
+ * 按住 Ctrl / Cmd 時不處理，保留給復原 / 重做等快捷鍵。
+ *
+ * @param event - 鍵盤事件
+ * @returns 對應的操作，無對應時回傳 null
+ */
+export const getKeyboardAction = (
+  event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>,
+): KeyboardAction | null => {
+  if (event.ctrlKey || event.metaKey) return null
+
+  const direction = ARROW_DIRECTIONS[event.key]
+  if (direction) {
+    const step = event.shiftKey ? KEYBOARD_MOVE_LARGE_STEP : KEYBOARD_MOVE_STEP
+
+    if (event.altKey) {
+      return { type: 'resize', delta: (direction.x + direction.y) * step }
+    }
+    return { type: 'move', dx: direction.x * step, dy: direction.y * step }
+  }
+
+  // 多數鍵盤配置需要 Shift + = 才能輸入 +，因此縮放不以 Shift 區分步距
+  if (ZOOM_IN_KEYS.includes(event.key)) return { type: 'zoom', scale: KEYBOARD_ZOOM_STEP }
+  if (ZOOM_OUT_KEYS.includes(event.key)) return { type: 'zoom', scale: -KEYBOARD_ZOOM_STEP }
+
+  return null
+}
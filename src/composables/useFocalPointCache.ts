@@ -0,0 +1,42 @@
+import { shallowReactive } from 'vue'
+import type { FocalPoint } from '@/utils/focalPointUtils'
+
+/**
+ * 依圖片 URL 保存焦點 (自動偵測或使用者雙擊設定)
+ *
+ * @description
+ * 編輯器在切換輸出變體 (包含匯出時逐一切換) 時會重新掛載，若每次掛載都重新偵測，
+ * 輸出 n 個變體就要執行 n 次臉部偵測或顯著性分析，使用者雙擊設定的焦點也會在切換變體時遺失。
+ * 容器以此保存每張圖片的焦點，透過編輯器的 initialFocalPoint 傳入，已保存時編輯器不再偵測。
+ *
+ * @returns {Object} 焦點快取
+ * @returns {Function} get - 取得圖片的焦點 (null 為偵測不到焦點，undefined 為尚未偵測)
+ * @returns {Function} set - 保存圖片的焦點 (編輯器的 focal-point-change 事件)
+ * @returns {Function} clear - 清除所有焦點 (載入新圖片或取消時呼叫)
+ *
+ * @example
+ * const focalPoints = useFocalPointCache()
+ * // <MovableCroppingEditor
+ * //   :initial-focal-point="focalPoints.get(imageUrl)"
+ * //   @focal-point-change="(point) => focalPoints.set(imageUrl, point)"
+ * // />
+ */
+export const useFocalPointCache = () => {
+  const points = shallowReactive(new Map<string, FocalPoint | null>())
+
+  const get = (url: string) => points.get(url)
+
+  const set = (url: string, point: FocalPoint | null) => {
+    if (url) points.set(url, point)
+  }
+
+  const clear = () => {
+    points.clear()
+  }
+
+  return {
+    get,
+    set,
+    clear,
+  }
+}
@@ -0,0 +1,43 @@
+import { ref, onScopeDispose } from 'vue'
+
+/**
+ * 操作結束後構圖輔助線維持顯示的時間 (毫秒)
+ * @constant
+ */
+export const GUIDES_HIDE_DELAY_MS = 600
+
+/**
+ * 構圖輔助線的顯示狀態 (只在使用者操作期間顯示)
+ *
+ * @description
+ * 拖曳、滾輪、鍵盤與滑桿等操作開始時呼叫 show，操作結束時呼叫 hide。
+ * hide 會延遲一段時間才隱藏：鍵盤等瞬間完成的操作不會只閃一下，連續操作時也不會反覆閃爍。
+ *
+ * @param {number} [delay] - 操作結束後維持顯示的時間 (毫秒)
+ */
+export const useGuideVisibility = (delay = GUIDES_HIDE_DELAY_MS) => {
+  const isVisible = ref(false)
+  let hideTimeout: ReturnType<typeof setTimeout> | undefined
+
+  const show = () => {
+    clearTimeout(hideTimeout)
+    isVisible.value = true
+  }
+
+  const hide = () => {
+    clearTimeout(hideTimeout)
+    hideTimeout = setTimeout(() => {
+      isVisible.value = false
+    }, delay)
+  }
+
+  onScopeDispose(() => {
+    clearTimeout(hideTimeout)
+  })
+
+  return {
+    isVisible,
+    show,
+    hide,
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * 可復原 / 重做的對象 (編輯器元件)
+ */
+export interface HistoryShortcutTarget {
+  undo: () => void
+  redo: () => void
+}
+
+/**
+ * 容器的復原 / 重做快捷鍵：Ctrl+Z / Ctrl+Shift+Z (macOS 為 Cmd+Z / Cmd+Shift+Z)
+ *
+ * @description
+ * 回傳的 handler 綁定在容器元素的 keydown 上，只處理容器內的按鍵：
+ * 同一頁面可能有多個容器 (或裁切對話框)，也不應攔截宿主頁面其他控制項的按鍵。
+ * 焦點在文字輸入框內時保留瀏覽器原生的復原行為。
+ *
+ * @param {Function} getTarget - 取得目前的編輯器
+ * @param {Function} isEnabled - 是否處理快捷鍵 (例如已載入圖片)
+ * @returns {Object} 快捷鍵處理
+ * @returns {Function} handleHistoryShortcut - keydown 事件處理函式
+ *
+ * @example
+ * const { handleHistoryShortcut } = useHistoryShortcut(
+ *   () => selectionRef.value,
+ *   () => !!imageUrl.value,
+ * )
+ * // <div tabindex="-1" @keydown="handleHistoryShortcut">
+ */
+export const useHistoryShortcut = (
+  getTarget: () => HistoryShortcutTarget | null | undefined,
+  isEnabled: () => boolean,
+) => {
+  const handleHistoryShortcut = (event: KeyboardEvent) => {
+    if (!isEnabled() || !(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') {
+      return
+    }
+
+    // 在文字輸入框內保留瀏覽器原生的復原行為
+    const target = event.target
+    if (
+      target instanceof HTMLElement &&
+      (target.isContentEditable || target.matches('textarea, input:not([type="range"])'))
+    ) {
+      return
+    }
+
+    event.preventDefault()
+    if (event.shiftKey) {
+      getTarget()?.redo()
+    } else {
+      getTarget()?.undo()
+    }
+  }
+
+  return {
+    handleHistoryShortcut,
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  computed,
+  hasInjectionContext,
+  inject,
+  provide,
+  type ComputedRef,
+  type InjectionKey,
+} from 'vue'
+import {
+  getMessages,
+  locale as globalLocale,
+  mergeMessages,
+  type Locale,
+  type Messages,
+  type MessagesOverride,
+} from '@/i18n'
+
+/**
+ * 語系設定 (由容器提供給編輯器與預覽元件)
+ */
+export interface I18nContext {
+  /** 目前使用的語系 */
+  locale: ComputedRef<Locale>
+  /** 目前使用的訊息目錄 (已套用覆寫) */
+  messages: ComputedRef<Messages>
+}
+
+interface ProvideI18nOptions {
+  /** 指定語系，未指定時沿用上層 (或全域) 語系 */
+  locale?: () => Locale | undefined
+  /** 覆寫部分訊息 */
+  messages?: () => MessagesOverride | undefined
+}
+
+const I18N_KEY: InjectionKey<I18nContext> = Symbol('cropper-i18n')
+
+const globalContext: I18nContext = {
+  locale: computed(() => globalLocale.value),
+  messages: computed(() => getMessages(globalLocale.value)),
+}
+
+/**
+ * 取得目前的語系與訊息目錄
+ *
+ * @description
+ * 依序使用上層容器 provideI18n 提供的設定、全域語系 (setLocale)。
+ * 在元件外 (沒有 injection context) 呼叫時直接使用全域語系。
+ *
+ * @returns {I18nContext} 語系與訊息目錄
+ *
+ * @example
+ * const { messages } = useI18n()
+ * const label = computed(() => messages.value.container.upload)
+ */
+export const useI18n = (): I18nContext => {
+  if (!hasInjectionContext()) return globalContext
+  return inject(I18N_KEY, globalContext)
+}
+
+/**
+ * 提供語系設定給子元件
+ *
+ * @description
+ * [為什麼容器要自己 provide？]
+ * 同一頁面可能同時放置不同語系的容器 (例如後台預覽多語系畫面)，
+ * 因此語系不只有全域設定，容器的 locale / messages prop 會覆寫全域語系，並傳遞給內部的編輯器與預覽元件。
+ *
+ * 注意：provide 只對子元件生效，呼叫端元件本身請使用回傳值，而非再呼叫 useI18n。
+ *
+ * @param {ProvideI18nOptions} options - 語系與訊息覆寫 (以 getter 傳入以保持響應性)
+ * @returns {I18nContext} 套用覆寫後的語系與訊息目錄
+ *
+ * @example
+ * const { messages } = provideI18n({
+ *   locale: () => props.locale,
+ *   messages: () => props.messages,
+ * })
+ */
+export const provideI18n = (options: ProvideI18nOptions = {}): I18nContext => {
+  const parent = useI18n()
+
+  const locale = computed(() => options.locale?.() ?? parent.locale.value)
+  const messages = computed(() => {
+    const base = options.locale?.() ? getMessages(locale.value) : parent.messages.value
+    return mergeMessages(base, options.messages?.())
+  })
+
+  const context: I18nContext = { locale, messages }
+  provide(I18N_KEY, context)
+  return context
+}
@@ -0,0 +1,250 @@
+import { ref, computed, onMounted, onUnmounted } from 'vue'
+import { getMessages, type DropErrorParams } from '@/i18n'
+
+/**
+ * 拖曳狀態
+ * - idle: 沒有拖曳
+ * - valid: 拖曳單一圖片檔案 (放開後會載入)
+ * - invalid: 拖曳多個檔案或非圖片內容
+ */
+export type DragState = 'idle' | 'valid' | 'invalid'
+
+/**
+ * 拖放與貼上的錯誤代碼
+ * - no-file: 沒有檔案 (例如拖放網頁上的文字)
+ * - multiple-files: 一次拖放多個檔案
+ * - not-an-image: 檔案不是圖片
+ */
+export type DropErrorCode = 'no-file' | 'multiple-files' | 'not-an-image'
+
+/**
+ * 從拖放或貼上的資料中取出圖片的結果
+ */
+export interface ImageFileResult {
+  /** 取出的圖片檔案 (失敗時為 null) */
+  file: File | null
+  /** 錯誤訊息 (取出失敗時提供，使用目前的全域語系) */
+  error?: string
+  /** 錯誤代碼 (取出失敗時提供) */
+  code?: DropErrorCode
+  /** 錯誤訊息的參數 (取出失敗時提供) */
+  params?: DropErrorParams
+}
+
+/**
+ * 從拖放或貼上的資料中取出多張圖片的結果 (批次模式)
+ */
+export interface ImageFilesResult {
+  /** 取出的圖片檔案 (已排除非圖片檔案) */
+  files: File[]
+  /** 錯誤訊息 (沒有檔案或含有非圖片檔案時提供，使用目前的全域語系) */
+  error?: string
+  /** 錯誤代碼 */
+  code?: DropErrorCode
+  /** 錯誤訊息的參數 */
+  params?: DropErrorParams
+}
+
+type UseImageDropOptions = {
+  /** 拖放內容不合法時呼叫 (需要自訂文字時可改用 code 與 params) */
+  onError: (message: string, code: DropErrorCode, params: DropErrorParams) => void
+} & (
+  | {
+      /** 是否接受多個檔案 (批次模式) */
+      multiple?: false
+      /** 取得圖片檔案時呼叫 (應交給 useCropper.loadImage 驗證與載入) */
+      onFile: (file: File) => void
+    }
+  | {
+      multiple: true
+      /** 取得圖片檔案時呼叫 (應交給 useCropQueue.addFiles 驗證與載入) */
+      onFiles: (files: File[]) => void
+    }
+)
+
+const isImageType = (type: string) => type.startsWith('image/')
+
+// HEIC 在部分系統上沒有 MIME type 或被標示為 application/octet-stream，交由 loadImage 依內容判斷
+const isPossibleImage = (type: string) =>
+  !type || type === 'application/octet-stream' || isImageType(type)
+
+const createDropError = (code: DropErrorCode, params: DropErrorParams = {}) => ({
+  code,
+  params,
+  error: getMessages().drop[code](params),
+})
+
+/**
+ * 判斷拖曳中的內容是否為單一圖片 (批次模式為一或多張圖片)
+ *
+ * @description
+ * 拖曳過程中 (dragenter / dragover) 基於安全性無法讀取檔案本身，只能透過 items 取得種類與 MIME type。
+ * 部分瀏覽器 (例如 Safari) 在拖曳過程中不提供 MIME type，此時先視為合法，放開後再由 loadImage 驗證。
+ *
+ * @param {DataTransfer | null} dataTransfer - 拖曳事件的資料
+ * @param {boolean} [multiple=false] - 是否接受多個檔案
+ * @returns {DragState} valid 或 invalid
+ */
+export const getDragState = (dataTransfer: DataTransfer | null, multiple = false): DragState => {
+  const items = Array.from(dataTransfer?.items ?? []).filter((item) => item.kind === 'file')
+  if (items.length === 0 || (!multiple && items.length > 1)) return 'invalid'
+
+  return items.every((item) => !item.type || isImageType(item.type)) ? 'valid' : 'invalid'
+}
+
+/**
+ * 從拖放或貼上的資料中取出單一圖片檔案
+ *
+ * @param {DataTransfer | null} dataTransfer - 拖放或剪貼簿的資料
+ * @returns {ImageFileResult} 圖片檔案或錯誤代碼與訊息
+ */
+export const getImageFile = (dataTransfer: DataTransfer | null): ImageFileResult => {
+  const files = Array.from(dataTransfer?.files ?? [])
+
+  if (files.length === 0) {
+    return { file: null, ...createDropError('no-file') }
+  }
+
+  if (files.length > 1) {
+    return { file: null, ...createDropError('multiple-files') }
+  }
+
+  const file = files[0]!
+  if (!isPossibleImage(file.type)) {
+    return { file: null, ...createDropError('not-an-image', { fileName: file.name }) }
+  }
+
+  return { file }
+}
+
+/**
+ * 從拖放或貼上的資料中取出所有圖片檔案 (批次模式)
+ *
+ * @description 非圖片檔案會被排除，並回報第一個被排除的檔名；其餘圖片仍會回傳
+ *
+ * @param {DataTransfer | null} dataTransfer - 拖放或剪貼簿的資料
+ * @returns {ImageFilesResult} 圖片檔案與錯誤代碼、訊息
+ */
+export const getImageFiles = (dataTransfer: DataTransfer | null): ImageFilesResult => {
+  const files = Array.from(dataTransfer?.files ?? [])
+
+  if (files.length === 0) {
+    return { files: [], ...createDropError('no-file') }
+  }
+
+  const images = files.filter((file) => isPossibleImage(file.type))
+  const rejected = files.find((file) => !isPossibleImage(file.type))
+  if (rejected) {
+    return { files: images, ...createDropError('not-an-image', { fileName: rejected.name }) }
+  }
+
+  return { files: images }
+}
+
+// 在文字輸入框內貼上時保留瀏覽器原生行為
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.matches('textarea, input:not([type="range"])'))
+
+/**
+ * 拖放與剪貼簿貼上圖片
+ *
+ * @description
+ * 提供拖放事件處理器 (綁定在編輯器外層) 與全域的貼上監聽 (Ctrl+V / Cmd+V)。
+ * 取得的檔案一律交給 onFile，由呼叫端透過 useCropper.loadImage 進行與檔案選擇器相同的驗證。
+ * 批次模式 (multiple: true) 接受多個檔案，改為交給 onFiles。
+ *
+ * [為什麼需要計數 dragenter / dragleave？]
+ * 拖曳經過子元素時，會對父元素觸發 dragleave 再對子元素觸發 dragenter，
+ * 若直接在 dragleave 時清除狀態，拖曳提示會不停閃爍。因此以進出次數判斷是否真的離開。
+ *
+ * @param {UseImageDropOptions} options - 取得檔案與錯誤時的回呼
+ *
+ * @returns {Object} 拖放功能集合
+ * @returns {Ref<DragState>} dragState - 目前的拖曳狀態
+ * @returns {ComputedRef<boolean>} isDragging - 是否正在拖曳
+ * @returns {Function} onDragEnter / onDragOver / onDragLeave / onDrop - 拖放事件處理器
+ *
+ * @example
+ * const { dragState, onDragEnter, onDragOver, onDragLeave, onDrop } = useImageDrop({
+ *   onFile: (file) => loadImage(file),
+ *   onError: (message) => (errorMessage.value = message),
+ * })
+ */
+export const useImageDrop = (options: UseImageDropOptions) => {
+  const { onError } = options
+  const dragState = ref<DragState>('idle')
+  const isDragging = computed(() => dragState.value !== 'idle')
+  let dragDepth = 0
+
+  const handleDataTransfer = (dataTransfer: DataTransfer | null) => {
+    if (options.multiple) {
+      const { files, error, code, params } = getImageFiles(dataTransfer)
+      if (files.length) options.onFiles(files)
+      if (error && code) onError(error, code, params ?? {})
+      return
+    }
+
+    const { file, error, code, params } = getImageFile(dataTransfer)
+    if (file) {
+      options.onFile(file)
+    } else if (error && code) {
+      onError(error, code, params ?? {})
+    }
+  }
+
+  const onDragEnter = (event: DragEvent) => {
+    event.preventDefault()
+    dragDepth++
+    dragState.value = getDragState(event.dataTransfer, options.multiple)
+  }
+
+  // 必須在 dragover 呼叫 preventDefault，瀏覽器才會允許 drop (否則會直接開啟檔案)
+  const onDragOver = (event: DragEvent) => {
+    event.preventDefault()
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'copy'
+    }
+  }
+
+  const onDragLeave = () => {
+    dragDepth = Math.max(0, dragDepth - 1)
+    if (dragDepth === 0) {
+      dragState.value = 'idle'
+    }
+  }
+
+  const onDrop = (event: DragEvent) => {
+    event.preventDefault()
+    dragDepth = 0
+    dragState.value = 'idle'
+    handleDataTransfer(event.dataTransfer)
+  }
+
+  const onPaste = (event: ClipboardEvent) => {
+    if (isEditableTarget(event.target)) return
+
+    // 貼上純文字時不處理，也不顯示錯誤
+    if (!event.clipboardData?.files.length) return
+
+    event.preventDefault()
+    handleDataTransfer(event.clipboardData)
+  }
+
+  onMounted(() => {
+    window.addEventListener('paste', onPaste)
+  })
+
+  onUnmounted(() => {
+    window.removeEventListener('paste', onPaste)
+  })
+
+  return {
+    dragState,
+    isDragging,
+    onDragEnter,
+    onDragOver,
+    onDragLeave,
+    onDrop,
+  }
+}
@@ -0,0 +1,96 @@
+import { ref, onScopeDispose } from 'vue'
+import {
+  uploadWithRetry,
+  type Uploader,
+  type UploadResult,
+  type UploadRetryOptions,
+} from '@/utils/uploadUtils'
+
+/**
+ * 上傳狀態
+ *
+ * @description
+ * 以 uploadWithRetry 依序上傳檔案，並將進度、重試次數整理為可直接綁定在畫面上的狀態。
+ * 多個檔案 (例如輸出變體) 的進度以檔案數平均；任一檔案失敗或取消時停止上傳剩餘的檔案。
+ * component unmount 時自動取消進行中的上傳。
+ *
+ * @returns {Object} 上傳功能集合
+ * @returns {Ref<boolean>} isUploading - 是否正在上傳
+ * @returns {Ref<number>} progress - 整體上傳進度 (0 ~ 1)
+ * @returns {Ref<number>} attempt - 目前檔案的第幾次嘗試 (從 1 開始，未上傳時為 0)
+ * @returns {Function} upload - 上傳檔案，回傳每個已嘗試檔案的結果 (非同步)
+ * @returns {Function} cancel - 取消上傳
+ *
+ * @example
+ * const { isUploading, progress, upload, cancel } = useUpload()
+ * const [result] = await upload(createFormDataUploader({ url: '/api/upload' }), [file])
+ */
+export const useUpload = () => {
+  const isUploading = ref(false)
+  const progress = ref(0)
+  const attempt = ref(0)
+
+  let controller: AbortController | null = null
+
+  const cancel = () => {
+    controller?.abort()
+    controller = null
+    isUploading.value = false
+    attempt.value = 0
+  }
+
+  const upload = async <T>(
+    uploader: Uploader<T>,
+    files: File[],
+    retry?: UploadRetryOptions,
+  ): Promise<UploadResult<T>[]> => {
+    cancel()
+    const current = new AbortController()
+    controller = current
+
+    isUploading.value = true
+    progress.value = 0
+    const results: UploadResult<T>[] = []
+
+    try {
+      for (const [index, file] of files.entries()) {
+        attempt.value = 1
+        const result = await uploadWithRetry(uploader, file, {
+          retry,
+          signal: current.signal,
+          onProgress: ({ loaded, total }) => {
+            progress.value = (index + (total ? Math.min(loaded / total, 1) : 0)) / files.length
+          },
+          onRetry: (next) => {
+            attempt.value = next
+          },
+        })
+
+        results.push(result)
+        if (!result.ok) break
+        progress.value = (index + 1) / files.length
+      }
+    } finally {
+      // 上傳期間又開始新的上傳時，狀態交由新的上傳管理
+      if (controller === current) {
+        controller = null
+        isUploading.value = false
+        attempt.value = 0
+      }
+    }
+
+    return results
+  }
+
+  onScopeDispose(() => {
+    cancel()
+  })
+
+  return {
+    isUploading,
+    progress,
+    attempt,
+    upload,
+    cancel,
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { defineComponent, h } from 'vue'
+import { mount } from '@vue/test-utils'
+import {
+  DEFAULT_LOCALE,
+  MESSAGES,
+  SUPPORTED_LOCALES,
+  getMessages,
+  locale,
+  mergeMessages,
+  resolveLocale,
+  setLocale,
+} from '..'
+import { provideI18n, useI18n } from '@/composables/useI18n'
+import { getImageFile } from '@/composables/useImageDrop'
+
+/**
+ * 取得訊息目錄的所有 key (巢狀以 . 連接)，用來比對各語系是否完整
+ */
+const collectKeys = (value: object, prefix = ''): string[] =>
+  Object.entries(value).flatMap(([key, child]) =>
+    typeof child === 'object' && child !== null
+      ? collectKeys(child, `${prefix}${key}.`)
+      : [`${prefix}${key}`],
+  )
+
+afterEach(() => {
+  setLocale(DEFAULT_LOCALE)
+})
+
+describe('訊息目錄', () => {
+  it('各語系的 key 與預設語系一致', () => {
+    const expected = collectKeys(MESSAGES[DEFAULT_LOCALE]).sort()
+    for (const value of SUPPORTED_LOCALES) {
+      expect(collectKeys(MESSAGES[value]).sort()).toEqual(expected)
+    }
+  })
+
+  it('帶參數的訊息依語系格式化', () => {
+    expect(getMessages('en').editor.cropSize(1080, 1920)).toBe('Crop size 1080 × 1920 pixels')
+    expect(getMessages('zh-TW').editor.uploadHint(['JPG', 'PNG'])).toBe('支援 JPG、PNG')
+    expect(
+      getMessages('ja').validation['file-too-large']({ maxFileSize: 5 * 1024 * 1024 }),
+    ).toContain('5MB')
+  })
+})
+
+describe('setLocale', () => {
+  it('切換全域語系', () => {
+    setLocale('ja')
+    expect(locale.value).toBe('ja')
+    expect(getMessages()).toBe(MESSAGES.ja)
+  })
+
+  it('影響元件外產生的錯誤訊息', () => {
+    setLocale('en')
+    const result = getImageFile({ files: [] } as unknown as DataTransfer)
+    expect(result.error).toBe('No image file detected. Please drop or paste an image')
+  })
+})
+
+describe('resolveLocale', () => {
+  it('對應地區語言標籤', () => {
+    expect(resolveLocale('en-US')).toBe('en')
+    expect(resolveLocale('ja-JP')).toBe('ja')
+    expect(resolveLocale('zh-TW')).toBe('zh-TW')
+    expect(resolveLocale('zh-Hant-HK')).toBe('zh-TW')
+  })
+
+  it('不支援的語言回傳 null', () => {
+    expect(resolveLocale('zh-CN')).toBeNull()
+    expect(resolveLocale('fr')).toBeNull()
+  })
+})
+
+describe('mergeMessages', () => {
+  it('只覆寫指定的訊息', () => {
+    const merged = mergeMessages(getMessages('en'), {
+      container: { upload: 'Save' },
+      app: { pages: { 'movable-cropping-only': { title: 'Crop' } } },
+    })
+
+    expect(merged.container.upload).toBe('Save')
+    expect(merged.container.download).toBe('Download')
+    expect(merged.app.pages['movable-cropping-only']).toEqual({
+      title: 'Crop',
+      heading: 'Crop only (resizable crop box)',
+    })
+  })
+
+  it('不修改原本的訊息目錄', () => {
+    mergeMessages(getMessages('en'), { container: { upload: 'Save' } })
+    expect(getMessages('en').container.upload).toBe('Upload')
+  })
+})
+
+describe('provideI18n', () => {
+  const Child = defineComponent({
+    setup() {
+      const { messages } = useI18n()
+      return () => h('span', messages.value.container.upload)
+    },
+  })
+
+  const mountWith = (options: Parameters<typeof provideI18n>[0]) =>
+    mount(
+      defineComponent({
+        setup() {
+          provideI18n(options)
+          return () => h(Child)
+        },
+      }),
+    )
+
+  it('未指定時沿用全域語系', () => {
+    setLocale('ja')
+    expect(mountWith({}).text()).toBe('アップロード')
+  })
+
+  it('子元件使用容器指定的語系與覆寫訊息', () => {
+    expect(mountWith({ locale: () => 'en' }).text()).toBe('Upload')
+    expect(
+      mountWith({ locale: () => 'en', messages: () => ({ container: { upload: 'Save' } }) }).text(),
+    ).toBe('Save')
+  })
+})
@@ -0,0 +1,123 @@
+import { ref, readonly } from 'vue'
+import { zhTW } from './locales/zh-TW'
+import { en } from './locales/en'
+import { ja } from './locales/ja'
+import type { Locale, Messages, MessagesOverride } from './types'
+
+export type {
+  Locale,
+  Messages,
+  MessagesOverride,
+  PageName,
+  ValidationErrorParams,
+  DropErrorParams,
+  UploadErrorParams,
+  UpscaleWarningParams,
+} from './types'
+
+/**
+ * 預設語系
+ * @constant
+ */
+export const DEFAULT_LOCALE: Locale = 'zh-TW'
+
+/**
+ * 各語系的訊息目錄
+ * @constant
+ */
+export const MESSAGES: Record<Locale, Messages> = {
+  'zh-TW': zhTW,
+  en,
+  ja,
+}
+
+/**
+ * 支援的語系列表 (依顯示順序)
+ * @constant
+ */
+export const SUPPORTED_LOCALES = Object.keys(MESSAGES) as Locale[]
+
+const currentLocale = ref<Locale>(DEFAULT_LOCALE)
+
+/**
+ * 目前的全域語系 (唯讀，透過 setLocale 切換)
+ */
+export const locale = readonly(currentLocale)
+
+/**
+ * 切換全域語系
+ *
+ * @description
+ * 影響所有未指定 locale prop 的容器，以及在元件外呼叫的函式 (getImageFile、getOptimizedBlob) 所產生的錯誤訊息。
+ *
+ * @param {Locale} value - 要切換的語系
+ */
+export const setLocale = (value: Locale) => {
+  currentLocale.value = value
+}
+
+/**
+ * 取得語系的訊息目錄
+ *
+ * @param {Locale} [value] - 語系，未指定時使用目前的全域語系
+ * @returns {Messages} 訊息目錄
+ */
+export const getMessages = (value: Locale = currentLocale.value): Messages => MESSAGES[value]
+
+/**
+ * 將瀏覽器的語言標籤 (例如 navigator.language) 對應到支援的語系
+ *
+ * @param {string} tag - BCP 47 語言標籤，例如 'en-US'、'ja-JP'、'zh-Hant-TW'
+ * @returns {Locale | null} 對應的語系，不支援時回傳 null
+ *
+ * @example
+ * resolveLocale('ja-JP') // 'ja'
+ * resolveLocale('zh-HK') // 'zh-TW'
+ * resolveLocale('zh-CN') // null (簡體中文不支援)
+ */
+export const resolveLocale = (tag: string): Locale | null => {
+  const [language, ...subtags] = tag.toLowerCase().split(/[-_]/)
+
+  if (language === 'en') return 'en'
+  if (language === 'ja') return 'ja'
+  if (language === 'zh') {
+    const isTraditional = subtags.some((subtag) => ['hant', 'tw', 'hk', 'mo'].includes(subtag))
+    return isTraditional ? 'zh-TW' : null
+  }
+  return null
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const deepMerge = (
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+): Record<string, unknown> => {
+  const merged = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue
+    const baseValue = merged[key]
+    merged[key] =
+      isPlainObject(baseValue) && isPlainObject(value) ? deepMerge(baseValue, value) : value
+  }
+  return merged
+}
+
+/**
+ * 以部分訊息覆寫訊息目錄
+ *
+ * @param {Messages} base - 語系的訊息目錄
+ * @param {MessagesOverride} [override] - 要覆寫的訊息 (未指定的部分沿用 base)
+ * @returns {Messages} 合併後的訊息目錄 (不會修改 base)
+ *
+ * @example
+ * mergeMessages(getMessages('en'), { container: { upload: 'Save' } })
+ */
+export const mergeMessages = (base: Messages, override?: MessagesOverride): Messages => {
+  if (!override) return base
+  return deepMerge(
+    base as unknown as Record<string, unknown>,
+    override as Record<string, unknown>,
+  ) as unknown as Messages
+}
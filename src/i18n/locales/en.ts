@@ -0,0 +1,176 @@
+import type { Messages } from '../types'
+
+const list = (items: string[]) => items.join(', ')
+
+export const en: Messages = {
+  validation: {
+    'unsupported-format': ({ formats = [] }) =>
+      `Unsupported image format. Please choose ${list(formats)}`,
+    'invalid-content': () =>
+      'The file is not a valid image. It may be corrupted or have the wrong extension',
+    'type-mismatch': ({ detectedFormat }) =>
+      `The file contains ${detectedFormat} data, which does not match its file type`,
+    'file-too-large': ({ maxFileSize = 0 }) =>
+      `The image exceeds the ${(maxFileSize / 1024 / 1024).toFixed(0)}MB limit`,
+    'decode-failed': () => 'Unable to read the image. The file may be corrupted',
+    'fetch-failed': ({ status }) =>
+      status
+        ? `Unable to fetch the image (HTTP ${status})`
+        : 'Unable to fetch the image. Check the URL and make sure the server allows cross-origin requests (CORS)',
+    'image-too-small': ({ dimension = 'width', actual = 0, limit = 0 }) =>
+      `The image ${dimension === 'height' ? 'height' : 'width'} of ${actual}px is below the minimum of ${limit}px`,
+    'image-too-large': ({ dimension = 'width', actual = 0, limit = 0 }) =>
+      dimension === 'megapixels'
+        ? `The image has ${actual.toFixed(1)}MP, exceeding the limit of ${limit}MP`
+        : `The image ${dimension} of ${actual}px exceeds the limit of ${limit}px`,
+  },
+  drop: {
+    'no-file': () => 'No image file detected. Please drop or paste an image',
+    'multiple-files': () => 'Only one image can be loaded at a time',
+    'not-an-image': ({ fileName }) => `"${fileName}" is not an image file`,
+  },
+  export: {
+    'exceeds-max-bytes': 'Export failed (unable to compress the image within the file size limit)',
+    'unsupported-format': 'Export failed (the browser does not support the requested formats)',
+    'tainted-canvas':
+      'Export failed (the cross-origin image was not loaded with CORS, so its pixels cannot be read)',
+  },
+  upload: {
+    'http-error': ({ status }) => `Upload failed (HTTP ${status})`,
+    'network-error': () => 'Upload failed. Please check your network connection',
+    'invalid-response': () => 'Upload completed, but the server response could not be read',
+    'upload-failed': () => 'Upload failed',
+    aborted: () => 'Upload canceled',
+  },
+  editor: {
+    roleDescription: 'image cropper',
+    croppingLabel: 'Crop image',
+    backgroundLabel: 'Move image to crop',
+    uploadText: 'Click to upload, or drop or paste an image',
+    uploadHint: (formats) => `Supports ${list(formats)}`,
+    croppingInstructions:
+      'Use the arrow keys to move the crop box; hold Shift to move further. Alt + arrow keys resize the crop box; + / - zoom the crop box. Double-click the image to set the focal point.',
+    backgroundInstructions:
+      'Use the arrow keys to move the image; hold Shift to move further. + / - zoom the image. Double-click the image to set the focal point.',
+    cropSize: (width, height) => `Crop size ${width} × ${height} pixels`,
+  },
+  container: {
+    sourceTitle: 'Crop',
+    previewTitle: 'Live preview',
+    undo: 'Undo',
+    undoTitle: 'Undo (Ctrl+Z)',
+    redo: 'Redo',
+    redoTitle: 'Redo (Ctrl+Shift+Z)',
+    rotateLeft: 'Rotate left',
+    rotateRight: 'Rotate right',
+    flipHorizontal: 'Flip horizontal',
+    flipVertical: 'Flip vertical',
+    straighten: 'Straighten',
+    zoom: 'Zoom',
+    zoomFit: 'Fit',
+    zoomFill: 'Fill',
+    zoomActualSize: '100%',
+    cancel: 'Cancel',
+    download: 'Download',
+    upload: 'Upload',
+    confirmUpscale: 'Continue anyway',
+    dropValid: 'Release to load the image',
+    dropInvalid: 'Only a single image file can be dropped',
+    loadFailed: 'Failed to load the image',
+    imageLoadFailed: 'Failed to load the image',
+    exportFailed: 'Failed to create the cropped image',
+    upscaleWarning: ({ width, height, minWidth, minHeight }) =>
+      `The crop area is only ${width} × ${height} pixels, below the minimum output resolution of ${minWidth} × ${minHeight}. It will be upscaled on export and may look blurry`,
+    uploading: (percent) => `Uploading ${percent}%`,
+    uploadRetrying: (attempt) => `Upload failed, retrying (attempt ${attempt})`,
+    cancelUpload: 'Cancel upload',
+    processing: 'Processing…',
+    variantsLabel: 'Output variants',
+    variantWidth: (width) => `${width}px wide`,
+    aspectRatioLabel: 'Aspect ratio',
+    aspectRatioFree: 'Free',
+    aspectRatioCustom: 'Custom',
+    customRatioWidth: 'Ratio width',
+    customRatioHeight: 'Ratio height',
+  },
+  batch: {
+    title: 'Batch crop',
+    position: (index, total) => `Image ${index} of ${total}`,
+    addImages: 'Add images',
+    removeImage: (fileName) => `Remove "${fileName}"`,
+    clearAll: 'Clear all',
+    applyFramingToAll: 'Apply this crop to all',
+    exportAll: 'Export all',
+    exportProgress: (completed, total) => `Exporting ${completed} / ${total}`,
+    exportSummary: (succeeded, failed) =>
+      failed
+        ? `Exported ${succeeded} ${succeeded === 1 ? 'image' : 'images'}, ${failed} failed`
+        : `Exported ${succeeded} ${succeeded === 1 ? 'image' : 'images'}`,
+    rejectedFile: (fileName, reason) => `"${fileName}": ${reason}`,
+    dropValid: 'Release to add the images',
+    dropInvalid: 'Only image files can be dropped',
+    status: {
+      pending: 'Pending',
+      exporting: 'Exporting',
+      done: 'Done',
+      error: 'Failed',
+    },
+  },
+  adjustments: {
+    label: 'Adjustments',
+    sliders: {
+      brightness: 'Brightness',
+      contrast: 'Contrast',
+      saturation: 'Saturation',
+      exposure: 'Exposure',
+      sharpen: 'Sharpen',
+    },
+    filterLabel: 'Filter',
+    filters: {
+      none: 'Original',
+      grayscale: 'Grayscale',
+      sepia: 'Sepia',
+    },
+    reset: 'Reset adjustments',
+  },
+  preview: {
+    placeholder: 'Preview',
+  },
+  dialog: {
+    title: 'Crop image',
+    close: 'Close',
+  },
+  app: {
+    title: 'Image Cropper',
+    subtitle: 'Crop to 9:16, zoom in and out, and keep the original format',
+    languageLabel: 'Language',
+    backgroundGroup: 'Movable image',
+    croppingGroup: 'Movable crop box',
+    cropOnly: 'Crop',
+    cropWithPreview: 'Crop + preview',
+    batchGroup: 'Batch',
+    batchCropping: 'Batch crop',
+    pages: {
+      'movable-cropping-only': {
+        title: 'Crop (movable crop box)',
+        heading: 'Crop only (resizable crop box)',
+      },
+      'movable-cropping-with-preview': {
+        title: 'Crop + preview (movable crop box)',
+        heading: 'Crop with preview (resizable crop box)',
+      },
+      'movable-background-image-only': {
+        title: 'Crop (movable image)',
+        heading: 'Crop only (movable image)',
+      },
+      'movable-background-image-with-preview': {
+        title: 'Crop + preview (movable image)',
+        heading: 'Crop with preview (movable image)',
+      },
+      'batch-cropping': {
+        title: 'Batch crop',
+        heading: 'Batch crop (shared aspect ratio)',
+      },
+    },
+  },
+}
@@ -0,0 +1,179 @@
+import type { Messages } from '../types'
+
+const list = (items: string[]) => items.join('、')
+
+const DIMENSION_LABELS = { width: '幅', height: '高さ' } as const
+
+export const ja: Messages = {
+  validation: {
+    'unsupported-format': ({ formats = [] }) =>
+      `対応していない画像形式です。${list(formats)} を選択してください`,
+    'invalid-content': () =>
+      'ファイルの内容が有効な画像ではありません。破損しているか、拡張子が変更されている可能性があります',
+    'type-mismatch': ({ detectedFormat }) =>
+      `ファイルの内容は ${detectedFormat} 形式で、ファイルの種類と一致しません`,
+    'file-too-large': ({ maxFileSize = 0 }) =>
+      `画像サイズが上限の ${(maxFileSize / 1024 / 1024).toFixed(0)}MB を超えています`,
+    'decode-failed': () => '画像を読み込めません。ファイルが破損している可能性があります',
+    'fetch-failed': ({ status }) =>
+      status
+        ? `画像を取得できません (HTTP ${status})`
+        : '画像を取得できません。URL とサーバーのクロスオリジン設定 (CORS) を確認してください',
+    'image-too-small': ({ dimension = 'width', actual = 0, limit = 0 }) =>
+      `画像の${DIMENSION_LABELS[dimension === 'height' ? 'height' : 'width']} ${actual}px が最小値の ${limit}px を下回っています`,
+    'image-too-large': ({ dimension = 'width', actual = 0, limit = 0 }) =>
+      dimension === 'megapixels'
+        ? `画像の画素数 ${actual.toFixed(1)}MP が上限の ${limit}MP を超えています`
+        : `画像の${DIMENSION_LABELS[dimension]} ${actual}px が上限の ${limit}px を超えています`,
+  },
+  drop: {
+    'no-file': () => '画像ファイルが見つかりません。画像をドロップまたは貼り付けてください',
+    'multiple-files': () => '一度に読み込める画像は 1 枚のみです',
+    'not-an-image': ({ fileName }) => `「${fileName}」は画像ファイルではありません`,
+  },
+  export: {
+    'exceeds-max-bytes': '画像の書き出しに失敗しました (ファイルサイズの上限まで圧縮できません)',
+    'unsupported-format':
+      '画像の書き出しに失敗しました (指定された形式にブラウザが対応していません)',
+    'tainted-canvas':
+      '画像の書き出しに失敗しました (クロスオリジン画像が CORS なしで読み込まれたため、ピクセルを読み取れません)',
+  },
+  upload: {
+    'http-error': ({ status }) => `アップロードに失敗しました (HTTP ${status})`,
+    'network-error': () => 'アップロードに失敗しました。ネットワーク接続を確認してください',
+    'invalid-response': () => 'アップロードは完了しましたが、サーバーの応答を読み取れませんでした',
+    'upload-failed': () => 'アップロードに失敗しました',
+    aborted: () => 'アップロードをキャンセルしました',
+  },
+  editor: {
+    roleDescription: '画像トリミング',
+    croppingLabel: '画像のトリミング',
+    backgroundLabel: '画像を移動してトリミング',
+    uploadText: 'クリックしてアップロード、または画像をドロップ・貼り付け',
+    uploadHint: (formats) => `対応形式: ${list(formats)}`,
+    croppingInstructions:
+      '矢印キーでトリミング枠を移動します。Shift を押すと移動量が大きくなります。Alt + 矢印キーで枠のサイズを変更し、+ / - で枠を拡大・縮小します。画像をダブルクリックすると焦点を設定できます。',
+    backgroundInstructions:
+      '矢印キーで画像を移動します。Shift を押すと移動量が大きくなります。+ / - で画像を拡大・縮小します。画像をダブルクリックすると焦点を設定できます。',
+    cropSize: (width, height) => `トリミングサイズ ${width} × ${height} ピクセル`,
+  },
+  container: {
+    sourceTitle: 'トリミング',
+    previewTitle: 'プレビュー',
+    undo: '元に戻す',
+    undoTitle: '元に戻す (Ctrl+Z)',
+    redo: 'やり直す',
+    redoTitle: 'やり直す (Ctrl+Shift+Z)',
+    rotateLeft: '左に回転',
+    rotateRight: '右に回転',
+    flipHorizontal: '左右反転',
+    flipVertical: '上下反転',
+    straighten: '傾き補正',
+    zoom: 'ズーム',
+    zoomFit: 'フィット',
+    zoomFill: '全体に拡大',
+    zoomActualSize: '100%',
+    cancel: 'キャンセル',
+    download: 'ダウンロード',
+    upload: 'アップロード',
+    confirmUpscale: 'このまま続行',
+    dropValid: 'ドロップして画像を読み込む',
+    dropInvalid: 'ドロップできるのは画像ファイル 1 つのみです',
+    loadFailed: '画像の読み込みに失敗しました',
+    imageLoadFailed: '画像の読み込みに失敗しました',
+    exportFailed: 'トリミング画像の作成に失敗しました',
+    upscaleWarning: ({ width, height, minWidth, minHeight }) =>
+      `トリミング範囲が ${width} × ${height} ピクセルしかなく、最低出力解像度 ${minWidth} × ${minHeight} を下回っています。出力時に拡大されるため、画質が低下する可能性があります`,
+    uploading: (percent) => `アップロード中 ${percent}%`,
+    uploadRetrying: (attempt) => `アップロードに失敗しました。再試行中 (${attempt} 回目)`,
+    cancelUpload: 'アップロードを中止',
+    processing: '処理中…',
+    variantsLabel: '出力バリエーション',
+    variantWidth: (width) => `幅 ${width}px`,
+    aspectRatioLabel: 'アスペクト比',
+    aspectRatioFree: 'フリー',
+    aspectRatioCustom: 'カスタム',
+    customRatioWidth: '比率の幅',
+    customRatioHeight: '比率の高さ',
+  },
+  batch: {
+    title: '一括トリミング',
+    position: (index, total) => `${total} 枚中 ${index} 枚目`,
+    addImages: '画像を追加',
+    removeImage: (fileName) => `「${fileName}」を削除`,
+    clearAll: 'すべてクリア',
+    applyFramingToAll: 'このトリミングをすべてに適用',
+    exportAll: 'すべて書き出し',
+    exportProgress: (completed, total) => `書き出し中 ${completed} / ${total}`,
+    exportSummary: (succeeded, failed) =>
+      failed
+        ? `${succeeded} 枚を書き出しました (${failed} 枚失敗)`
+        : `${succeeded} 枚を書き出しました`,
+    rejectedFile: (fileName, reason) => `「${fileName}」: ${reason}`,
+    dropValid: 'ドロップして画像を追加',
+    dropInvalid: 'ドロップできるのは画像ファイルのみです',
+    status: {
+      pending: '未書き出し',
+      exporting: '書き出し中',
+      done: '完了',
+      error: '失敗',
+    },
+  },
+  adjustments: {
+    label: '画像の調整',
+    sliders: {
+      brightness: '明るさ',
+      contrast: 'コントラスト',
+      saturation: '彩度',
+      exposure: '露出',
+      sharpen: 'シャープ',
+    },
+    filterLabel: 'フィルター',
+    filters: {
+      none: 'オリジナル',
+      grayscale: 'モノクロ',
+      sepia: 'セピア',
+    },
+    reset: '調整をリセット',
+  },
+  preview: {
+    placeholder: 'プレビュー',
+  },
+  dialog: {
+    title: '画像のトリミング',
+    close: '閉じる',
+  },
+  app: {
+    title: '画像トリミングツール',
+    subtitle: '9:16 の比率でトリミング、拡大・縮小でき、元の形式のまま出力します',
+    languageLabel: '言語',
+    backgroundGroup: '画像を移動',
+    croppingGroup: '枠を移動',
+    cropOnly: 'トリミング',
+    cropWithPreview: 'トリミング + プレビュー',
+    batchGroup: '一括処理',
+    batchCropping: '一括トリミング',
+    pages: {
+      'movable-cropping-only': {
+        title: 'トリミング (枠を移動)',
+        heading: 'トリミングのみ (枠を変更)',
+      },
+      'movable-cropping-with-preview': {
+        title: 'トリミング + プレビュー (枠を移動)',
+        heading: 'トリミングとプレビュー (枠を変更)',
+      },
+      'movable-background-image-only': {
+        title: 'トリミング (画像を移動)',
+        heading: 'トリミングのみ (画像を移動)',
+      },
+      'movable-background-image-with-preview': {
+        title: 'トリミング + プレビュー (画像を移動)',
+        heading: 'トリミングとプレビュー (画像を移動)',
+      },
+      'batch-cropping': {
+        title: '一括トリミング',
+        heading: '一括トリミング (共通の比率)',
+      },
+    },
+  },
+}
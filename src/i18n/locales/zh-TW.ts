@@ -0,0 +1,172 @@
+import type { Messages } from '../types'
+
+const list = (items: string[]) => items.join('、')
+
+const DIMENSION_LABELS = { width: '寬度', height: '高度' } as const
+
+export const zhTW: Messages = {
+  validation: {
+    'unsupported-format': ({ formats = [] }) => `不支援的圖片格式，請選擇 ${list(formats)}`,
+    'invalid-content': () => '檔案內容不是有效的圖片，可能已損毀或被更改副檔名',
+    'type-mismatch': ({ detectedFormat }) => `檔案內容為 ${detectedFormat} 格式，與檔案類型不符`,
+    'file-too-large': ({ maxFileSize = 0 }) =>
+      `圖片大小超過 ${(maxFileSize / 1024 / 1024).toFixed(0)}MB 限制`,
+    'decode-failed': () => '無法讀取圖片內容，檔案可能已損毀',
+    'fetch-failed': ({ status }) =>
+      status
+        ? `無法取得圖片 (HTTP ${status})`
+        : '無法取得圖片，請確認網址正確且伺服器允許跨來源存取 (CORS)',
+    'image-too-small': ({ dimension = 'width', actual = 0, limit = 0 }) =>
+      `圖片${DIMENSION_LABELS[dimension === 'height' ? 'height' : 'width']} ${actual}px 小於最小限制 ${limit}px`,
+    'image-too-large': ({ dimension = 'width', actual = 0, limit = 0 }) =>
+      dimension === 'megapixels'
+        ? `圖片像素數 ${actual.toFixed(1)}MP 超過上限 ${limit}MP`
+        : `圖片${DIMENSION_LABELS[dimension]} ${actual}px 超過上限 ${limit}px`,
+  },
+  drop: {
+    'no-file': () => '沒有偵測到圖片檔案，請拖放或貼上圖片',
+    'multiple-files': () => '一次只能載入一張圖片',
+    'not-an-image': ({ fileName }) => `「${fileName}」不是圖片檔案`,
+  },
+  export: {
+    'exceeds-max-bytes': '圖片匯出失敗 (無法壓縮至檔案大小上限)',
+    'unsupported-format': '圖片匯出失敗 (瀏覽器不支援指定的格式)',
+    'tainted-canvas': '圖片匯出失敗 (跨來源圖片未允許 CORS，無法讀取像素)',
+  },
+  upload: {
+    'http-error': ({ status }) => `上傳失敗 (HTTP ${status})`,
+    'network-error': () => '上傳失敗，請檢查網路連線',
+    'invalid-response': () => '上傳成功，但無法解析伺服器的回應',
+    'upload-failed': () => '上傳失敗',
+    aborted: () => '已取消上傳',
+  },
+  editor: {
+    roleDescription: '圖片裁切器',
+    croppingLabel: '原圖裁切',
+    backgroundLabel: '移動圖片裁切',
+    uploadText: '點擊此處上傳，或拖放、貼上圖片',
+    uploadHint: (formats) => `支援 ${list(formats)}`,
+    croppingInstructions:
+      '使用方向鍵移動裁切框，按住 Shift 可加大移動距離；Alt + 方向鍵調整裁切框大小；+ / - 縮放裁切框；雙擊圖片設定焦點。',
+    backgroundInstructions:
+      '使用方向鍵移動圖片，按住 Shift 可加大移動距離；+ / - 縮放圖片；雙擊圖片設定焦點。',
+    cropSize: (width, height) => `裁切尺寸 ${width} × ${height} 像素`,
+  },
+  container: {
+    sourceTitle: '原圖裁切',
+    previewTitle: '即時預覽',
+    undo: '復原',
+    undoTitle: '復原 (Ctrl+Z)',
+    redo: '重做',
+    redoTitle: '重做 (Ctrl+Shift+Z)',
+    rotateLeft: '向左旋轉',
+    rotateRight: '向右旋轉',
+    flipHorizontal: '水平翻轉',
+    flipVertical: '垂直翻轉',
+    straighten: '拉直',
+    zoom: '縮放',
+    zoomFit: '符合裁切框',
+    zoomFill: '填滿',
+    zoomActualSize: '100%',
+    cancel: '取消',
+    download: '下載',
+    upload: '上傳',
+    confirmUpscale: '仍要繼續',
+    dropValid: '放開以載入圖片',
+    dropInvalid: '僅支援拖放單一圖片檔案',
+    loadFailed: '載入圖片失敗',
+    imageLoadFailed: '圖片載入失敗',
+    exportFailed: '產生裁切圖片失敗',
+    upscaleWarning: ({ width, height, minWidth, minHeight }) =>
+      `裁切區域僅 ${width} × ${height} 像素，低於最低輸出解析度 ${minWidth} × ${minHeight}，輸出時需要放大，畫質可能變差`,
+    uploading: (percent) => `上傳中 ${percent}%`,
+    uploadRetrying: (attempt) => `上傳失敗，正在重試 (第 ${attempt} 次嘗試)`,
+    cancelUpload: '取消上傳',
+    processing: '處理中…',
+    variantsLabel: '輸出版本',
+    variantWidth: (width) => `寬 ${width}px`,
+    aspectRatioLabel: '裁切比例',
+    aspectRatioFree: '自由',
+    aspectRatioCustom: '自訂',
+    customRatioWidth: '比例寬度',
+    customRatioHeight: '比例高度',
+  },
+  batch: {
+    title: '批次裁切',
+    position: (index, total) => `第 ${index} / ${total} 張`,
+    addImages: '新增圖片',
+    removeImage: (fileName) => `移除「${fileName}」`,
+    clearAll: '清除全部',
+    applyFramingToAll: '套用此裁切到全部',
+    exportAll: '全部匯出',
+    exportProgress: (completed, total) => `匯出中 ${completed} / ${total}`,
+    exportSummary: (succeeded, failed) =>
+      failed ? `已匯出 ${succeeded} 張，${failed} 張失敗` : `已匯出 ${succeeded} 張`,
+    rejectedFile: (fileName, reason) => `「${fileName}」：${reason}`,
+    dropValid: '放開以加入圖片',
+    dropInvalid: '僅支援拖放圖片檔案',
+    status: {
+      pending: '待匯出',
+      exporting: '匯出中',
+      done: '已完成',
+      error: '失敗',
+    },
+  },
+  adjustments: {
+    label: '圖片調整',
+    sliders: {
+      brightness: '亮度',
+      contrast: '對比',
+      saturation: '飽和度',
+      exposure: '曝光',
+      sharpen: '銳利化',
+    },
+    filterLabel: '濾鏡',
+    filters: {
+      none: '原色',
+      grayscale: '黑白',
+      sepia: '復古',
+    },
+    reset: '重設調整',
+  },
+  preview: {
+    placeholder: '預覽區域',
+  },
+  dialog: {
+    title: '裁切圖片',
+    close: '關閉',
+  },
+  app: {
+    title: '圖片裁切工具',
+    subtitle: '支援 9:16 比例裁切，可放大縮小，保持原格式輸出',
+    languageLabel: '語言',
+    backgroundGroup: '可移動背景圖片',
+    croppingGroup: '可移動裁切框',
+    cropOnly: '裁切模式',
+    cropWithPreview: '裁切 + 預覽',
+    batchGroup: '批次處理',
+    batchCropping: '批次裁切',
+    pages: {
+      'movable-cropping-only': {
+        title: '裁切模式 (可移動裁切框)',
+        heading: '單純裁切模式 (可變更裁切框)',
+      },
+      'movable-cropping-with-preview': {
+        title: '裁切 + 預覽 (可移動裁切框)',
+        heading: '裁切與預覽模式 (可變更裁切框)',
+      },
+      'movable-background-image-only': {
+        title: '裁切模式 (可移動背景)',
+        heading: '單純裁切模式 (可移動背景)',
+      },
+      'movable-background-image-with-preview': {
+        title: '裁切 + 預覽 (可移動背景)',
+        heading: '裁切與預覽模式 (可移動背景)',
+      },
+      'batch-cropping': {
+        title: '批次裁切',
+        heading: '批次裁切模式 (共用裁切比例)',
+      },
+    },
+  },
+}
@@ -0,0 +1,246 @@
+import type { ValidationErrorCode } from '@/composables/useCropper'
+import type { DropErrorCode } from '@/composables/useImageDrop'
+import type { CropQueueItemStatus } from '@/composables/useCropQueue'
+import type { AdjustmentFilter, AdjustmentSlider } from '@/utils/adjustmentUtils'
+import type { ExportErrorCode } from '@/utils/imageUtils'
+import type { UploadErrorCode } from '@/utils/uploadUtils'
+
+/**
+ * 支援的語系
+ */
+export type Locale = 'zh-TW' | 'en' | 'ja'
+
+/**
+ * 示範頁面 (對應 router 的 meta.page)
+ */
+export type PageName =
+  | 'movable-cropping-only'
+  | 'movable-cropping-with-preview'
+  | 'movable-background-image-only'
+  | 'movable-background-image-with-preview'
+  | 'batch-cropping'
+
+/**
+ * 驗證錯誤訊息的參數 (隨 ValidationResult.params 提供，依錯誤代碼填入不同欄位)
+ */
+export interface ValidationErrorParams {
+  /** 支援的格式清單 (unsupported-format) */
+  formats?: string[]
+  /** 由檔案內容判斷出的格式名稱 (type-mismatch) */
+  detectedFormat?: string
+  /** 檔案大小上限 (bytes，file-too-large) */
+  maxFileSize?: number
+  /** 超出限制的項目 (image-too-small / image-too-large) */
+  dimension?: 'width' | 'height' | 'megapixels'
+  /** 圖片實際的寬、高 (像素) 或像素數 (百萬像素) */
+  actual?: number
+  /** 對應的限制值 */
+  limit?: number
+  /** HTTP 狀態碼 (fetch-failed，伺服器回應錯誤時提供) */
+  status?: number
+}
+
+/**
+ * 拖放錯誤訊息的參數
+ */
+export interface DropErrorParams {
+  /** 檔案名稱 (not-an-image) */
+  fileName?: string
+}
+
+/**
+ * 上傳錯誤訊息的參數
+ */
+export interface UploadErrorParams {
+  /** HTTP 狀態碼 (http-error) */
+  status?: number
+}
+
+/**
+ * 放大輸出警告的參數
+ */
+export interface UpscaleWarningParams {
+  /** 裁切區域寬度 (原始圖片像素) */
+  width: number
+  /** 裁切區域高度 (原始圖片像素) */
+  height: number
+  /** 最低輸出寬度 */
+  minWidth: number
+  /** 最低輸出高度 */
+  minHeight: number
+}
+
+/**
+ * 訊息目錄
+ *
+ * @description
+ * 固定文字為字串；需要代入數值的訊息為函式，由各語系自行決定語序與格式。
+ * 錯誤訊息以錯誤代碼為 key，讓 ValidationResult / DropErrorCode / ExportError / UploadError 可直接查表。
+ */
+export interface Messages {
+  /** 檔案驗證錯誤 (useCropper) */
+  validation: Record<ValidationErrorCode, (params: ValidationErrorParams) => string>
+
+  /** 拖放與貼上錯誤 (useImageDrop) */
+  drop: Record<DropErrorCode, (params: DropErrorParams) => string>
+
+  /** 匯出錯誤 (getOptimizedBlob) */
+  export: Record<ExportErrorCode, string>
+
+  /** 上傳錯誤 (uploadWithRetry) */
+  upload: Record<UploadErrorCode, (params: UploadErrorParams) => string>
+
+  /** 編輯器 */
+  editor: {
+    /** 編輯器的 aria-roledescription */
+    roleDescription: string
+    /** 可移動裁切框模式的 aria-label */
+    croppingLabel: string
+    /** 可移動背景模式的 aria-label */
+    backgroundLabel: string
+    /** 空白狀態的上傳提示 */
+    uploadText: string
+    /** 支援格式提示 */
+    uploadHint: (formats: string[]) => string
+    /** 可移動裁切框模式的鍵盤操作說明 (螢幕閱讀器) */
+    croppingInstructions: string
+    /** 可移動背景模式的鍵盤操作說明 (螢幕閱讀器) */
+    backgroundInstructions: string
+    /** 操作完成後朗讀的裁切尺寸 */
+    cropSize: (width: number, height: number) => string
+  }
+
+  /** 容器 (工具列、按鈕與錯誤訊息) */
+  container: {
+    sourceTitle: string
+    previewTitle: string
+    undo: string
+    undoTitle: string
+    redo: string
+    redoTitle: string
+    rotateLeft: string
+    rotateRight: string
+    flipHorizontal: string
+    flipVertical: string
+    straighten: string
+    /** 縮放滑桿 (可移動背景模式) */
+    zoom: string
+    /** 縮放到剛好覆蓋裁切框 */
+    zoomFit: string
+    /** 縮放到填滿編輯區域 */
+    zoomFill: string
+    /** 以原始尺寸 (100%) 顯示 */
+    zoomActualSize: string
+    cancel: string
+    download: string
+    upload: string
+    /** 確認以放大後的解析度輸出 */
+    confirmUpscale: string
+    /** 拖曳單一圖片時的提示 */
+    dropValid: string
+    /** 拖曳多個檔案或非圖片時的提示 */
+    dropInvalid: string
+    /** 驗證失敗但沒有錯誤代碼時的訊息 */
+    loadFailed: string
+    /** Cropper.js 無法載入圖片時的訊息 */
+    imageLoadFailed: string
+    /** 產生裁切圖片失敗 */
+    exportFailed: string
+    /** 裁切區域低於最低輸出解析度的警告 */
+    upscaleWarning: (params: UpscaleWarningParams) => string
+    /** 上傳進度 (百分比) */
+    uploading: (percent: number) => string
+    /** 上傳失敗後重試中 (第幾次嘗試) */
+    uploadRetrying: (attempt: number) => string
+    /** 取消上傳 */
+    cancelUpload: string
+    /** 產生輸出圖片期間的狀態 */
+    processing: string
+    /** 輸出變體分頁的名稱 (螢幕閱讀器) */
+    variantsLabel: string
+    /** 輸出變體分頁上的輸出寬度 */
+    variantWidth: (width: number) => string
+    /** 裁切比例選擇器的名稱 (螢幕閱讀器) */
+    aspectRatioLabel: string
+    /** 不限制比例 */
+    aspectRatioFree: string
+    /** 自訂比例 */
+    aspectRatioCustom: string
+    /** 自訂比例寬度欄位的 aria-label */
+    customRatioWidth: string
+    /** 自訂比例高度欄位的 aria-label */
+    customRatioHeight: string
+  }
+
+  /** 批次裁切容器 */
+  batch: {
+    title: string
+    /** 目前編輯的圖片位置 (從 1 開始) */
+    position: (index: number, total: number) => string
+    addImages: string
+    /** 移除按鈕的 aria-label */
+    removeImage: (fileName: string) => string
+    clearAll: string
+    applyFramingToAll: string
+    exportAll: string
+    exportProgress: (completed: number, total: number) => string
+    exportSummary: (succeeded: number, failed: number) => string
+    /** 未通過驗證而沒有加入的檔案 */
+    rejectedFile: (fileName: string, reason: string) => string
+    dropValid: string
+    dropInvalid: string
+    status: Record<CropQueueItemStatus, string>
+  }
+
+  /** 圖片調整面板 */
+  adjustments: {
+    /** 面板的 aria-label */
+    label: string
+    /** 各滑桿的名稱 */
+    sliders: Record<AdjustmentSlider, string>
+    /** 濾鏡選擇的 aria-label */
+    filterLabel: string
+    filters: Record<AdjustmentFilter, string>
+    reset: string
+  }
+
+  /** 預覽元件 */
+  preview: {
+    placeholder: string
+  }
+
+  /** 裁切對話框 (openCropDialog) */
+  dialog: {
+    /** 未指定 title 時的標題 */
+    title: string
+    close: string
+  }
+
+  /** 示範頁面 */
+  app: {
+    title: string
+    subtitle: string
+    languageLabel: string
+    backgroundGroup: string
+    croppingGroup: string
+    cropOnly: string
+    cropWithPreview: string
+    batchGroup: string
+    batchCropping: string
+    pages: Record<PageName, { title: string; heading: string }>
+  }
+}
+
+/**
+ * 遞迴的 Partial (函式視為單一值，不再展開)
+ */
+type DeepPartial<T> = T extends (...args: never[]) => unknown
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T
+
+/**
+ * 覆寫部分訊息時使用的型別 (未指定的訊息沿用語系預設值)
+ */
+export type MessagesOverride = DeepPartial<Messages>
@@ -0,0 +1,120 @@
+/**
+ * 函式庫進入點 (npm run build-lib)
+ *
+ * 示範頁面 (src/main.ts、src/router、src/views) 不包含在函式庫中。
+ * 樣式輸出為 client-side-crop.css，使用元件時請一併引入。
+ */
+import MovableCroppingContainer from '@/components/MovableCroppingContainer.vue'
+import MovableBackgroundImageContainer from '@/components/MovableBackgroundImageContainer.vue'
+import MovableCroppingBatchContainer from '@/components/MovableCroppingBatchContainer.vue'
+import MovableCroppingEditor from '@/components/MovableCroppingEditor.vue'
+import MovableBackgroundImageEditor from '@/components/MovableBackgroundImageEditor.vue'
+import CropperResultPreview from '@/components/CropperResultPreview.vue'
+import { CropperPlugin } from '@/plugin'
+
+export {
+  MovableCroppingContainer,
+  MovableBackgroundImageContainer,
+  MovableCroppingBatchContainer,
+  MovableCroppingEditor,
+  MovableBackgroundImageEditor,
+  CropperResultPreview,
+  CropperPlugin,
+}
+export default CropperPlugin
+
+export {
+  setCropperDefaults,
+  getCropperDefaults,
+  resetCropperDefaults,
+  openCropDialog,
+  type CropperPluginOptions,
+  type CropperDefaults,
+  type CropDialogMode,
+  type CropDialogOptions,
+  type CropResult,
+  type CroppingDialogProps,
+  type BackgroundDialogProps,
+} from '@/plugin'
+
+export {
+  useCropper,
+  validateImageDimensions,
+  type CropData,
+  type ImageSource,
+  type ImageDimensionLimits,
+  type ValidationErrorCode,
+  type ValidationResult,
+  type PreparedImageResult,
+} from '@/composables/useCropper'
+export { calculateFitSelection } from '@/composables/useCropperCalculation'
+export { ASPECT_RATIO_PRESETS, type AspectRatioPreset } from '@/composables/useAspectRatio'
+
+export {
+  getOptimizedBlob,
+  ExportError,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportErrorCode,
+  type OutputVariant,
+  type OptimizedBlobResult,
+  type CropShape,
+  type CropMask,
+  type CropResultInfo,
+} from '@/utils/imageUtils'
+export type { MetadataPolicy } from '@/utils/exifUtils'
+export {
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  type ImageAdjustments,
+  type AdjustmentFilter,
+} from '@/utils/adjustmentUtils'
+export {
+  detectFocalPoint,
+  detectFaces,
+  detectSalientPoint,
+  type FocalPoint,
+  type FocalBox,
+  type FocalPointProvider,
+} from '@/utils/focalPointUtils'
+export type { CropGuides, CompositionGuide, SafeAreaInsets } from '@/utils/guideUtils'
+export {
+  createFormDataUploader,
+  createPresignedUrlUploader,
+  createFetchTransport,
+  xhrTransport,
+  UploadError,
+  type Uploader,
+  type UploadContext,
+  type UploadProgress,
+  type UploadRequest,
+  type UploadHttpResponse,
+  type UploadTransport,
+  type UploadErrorCode,
+  type UploadRetryOptions,
+  type UploadResult,
+  type FormDataUploaderOptions,
+  type PresignedUpload,
+  type PresignedUploadResult,
+  type PresignedUrlUploaderOptions,
+} from '@/utils/uploadUtils'
+
+export {
+  setLocale,
+  resolveLocale,
+  SUPPORTED_LOCALES,
+  type Locale,
+  type Messages,
+  type MessagesOverride,
+} from '@/i18n'
+
+// 讓宿主應用的範本型別檢查認得 CropperPlugin 全域註冊的元件
+declare module 'vue' {
+  export interface GlobalComponents {
+    MovableCroppingContainer: typeof MovableCroppingContainer
+    MovableBackgroundImageContainer: typeof MovableBackgroundImageContainer
+    MovableCroppingBatchContainer: typeof MovableCroppingBatchContainer
+    MovableCroppingEditor: typeof MovableCroppingEditor
+    MovableBackgroundImageEditor: typeof MovableBackgroundImageEditor
+    CropperResultPreview: typeof CropperResultPreview
+  }
+}
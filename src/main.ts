@@ -1,6 +1,13 @@
 import { createApp } from 'vue'
 import App from './App.vue'
 import router from './router'
+import { resolveLocale, setLocale } from './i18n'
+
+// 依瀏覽器偏好語言決定初始語系，都不支援時維持預設語系
+const preferredLocale = navigator.languages.map(resolveLocale).find((locale) => locale !== null)
+if (preferredLocale) {
+  setLocale(preferredLocale)
+}
 
 const app = createApp(App)
 
@@ -0,0 +1,54 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { getOptimizedBlob } from '@/utils/imageUtils'
+import {
+  getCropperDefaults,
+  globalDefault,
+  resetCropperDefaults,
+  setCropperDefaults,
+} from '../defaults'
+
+describe('setCropperDefaults', () => {
+  afterEach(() => {
+    resetCropperDefaults()
+  })
+
+  it('與先前的設定合併，值為 undefined 時移除該選項', () => {
+    setCropperDefaults({ maxFileSize: 5 * 1024 * 1024, backgroundColor: '#fff' })
+    setCropperDefaults({ metadataPolicy: 'keep', backgroundColor: undefined })
+
+    expect(getCropperDefaults()).toEqual({ maxFileSize: 5 * 1024 * 1024, metadataPolicy: 'keep' })
+  })
+
+  it('globalDefault 在呼叫時才讀取全域預設值，沒有設定時使用 fallback', () => {
+    const maxFileSize = globalDefault('maxFileSize', 10 * 1024 * 1024)
+    const exportOptions = globalDefault('exportOptions')
+
+    expect(maxFileSize()).toBe(10 * 1024 * 1024)
+    expect(exportOptions()).toBeUndefined()
+
+    setCropperDefaults({ maxFileSize: 1024 * 1024, exportOptions: { formats: ['image/png'] } })
+
+    expect(maxFileSize()).toBe(1024 * 1024)
+    expect(exportOptions()).toEqual({ formats: ['image/png'] })
+  })
+
+  it('全域預設的 exportOptions.formats 決定輸出格式', async () => {
+    const toBlob = vi.fn((callback: BlobCallback, type: string) => {
+      callback(new Blob([new Uint8Array(10)], { type }))
+    })
+    const data = new Uint8ClampedArray(10 * 10 * 4).fill(255)
+    const canvas = {
+      width: 10,
+      height: 10,
+      toBlob,
+      getContext: () => ({ getImageData: () => ({ data }) }),
+    } as unknown as HTMLCanvasElement
+
+    setCropperDefaults({ exportOptions: { formats: ['image/png'] } })
+    const result = await getOptimizedBlob(canvas, globalDefault('exportOptions')())
+
+    expect(result.mimeType).toBe('image/png')
+    expect(toBlob).toHaveBeenCalledTimes(1)
+    expect(toBlob.mock.calls[0][1]).toBe('image/png')
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { createApp, nextTick } from 'vue'
+import { mount } from '@vue/test-utils'
+import { CropperPlugin, openCropDialog } from '..'
+import { getCropperDefaults, resetCropperDefaults } from '../defaults'
+import { DEFAULT_LOCALE, locale, setLocale } from '@/i18n'
+import MovableCroppingContainer from '@/components/MovableCroppingContainer.vue'
+
+describe('CropperPlugin', () => {
+  afterEach(() => {
+    resetCropperDefaults()
+    setLocale(DEFAULT_LOCALE)
+  })
+
+  it('全域註冊元件並設定語系與預設值', () => {
+    const app = createApp({ render: () => null })
+    app.use(CropperPlugin, { locale: 'en', defaults: { metadataPolicy: 'strip-gps' } })
+
+    expect(app.component('MovableCroppingContainer')).toBe(MovableCroppingContainer)
+    expect(app.component('MovableBackgroundImageEditor')).toBeDefined()
+    expect(locale.value).toBe('en')
+    expect(getCropperDefaults()).toEqual({ metadataPolicy: 'strip-gps' })
+  })
+
+  it('registerComponents 為 false 時不註冊元件', () => {
+    const app = createApp({ render: () => null })
+    app.use(CropperPlugin, { registerComponents: false })
+
+    expect(app.component('MovableCroppingContainer')).toBeUndefined()
+  })
+
+  it('容器未指定 prop 時使用全域預設值，prop 優先', () => {
+    const app = createApp({ render: () => null })
+    app.use(CropperPlugin, { defaults: { showPreview: false, metadataPolicy: 'keep' } })
+
+    const wrapper = mount(MovableCroppingContainer, { props: { metadataPolicy: 'strip-gps' } })
+
+    expect(wrapper.props('showPreview')).toBe(false)
+    expect(wrapper.props('metadataPolicy')).toBe('strip-gps')
+    expect(wrapper.props('maxFileSize')).toBe(10 * 1024 * 1024)
+    wrapper.unmount()
+  })
+})
+
+describe('openCropDialog', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('點擊關閉時以 null resolve 並移除對話框', async () => {
+    const result = openCropDialog({ title: '更換頭像' })
+    await nextTick()
+
+    expect(document.querySelector('.crop-dialog-title')?.textContent).toBe('更換頭像')
+    ;(document.querySelector('.crop-dialog-close') as HTMLButtonElement).click()
+
+    await expect(result).resolves.toBeNull()
+    expect(document.querySelector('.crop-dialog')).toBeNull()
+  })
+
+  it('signal 中止時以 null resolve', async () => {
+    const controller = new AbortController()
+    const result = openCropDialog({ mode: 'background', signal: controller.signal })
+    await nextTick()
+    expect(document.querySelector('.crop-dialog')).not.toBeNull()
+
+    controller.abort()
+
+    await expect(result).resolves.toBeNull()
+    expect(document.querySelector('.crop-dialog')).toBeNull()
+  })
+})
@@ -0,0 +1,94 @@
+import type { ExportOptions } from '@/utils/imageUtils'
+import type { MetadataPolicy } from '@/utils/exifUtils'
+import type { CropGuides } from '@/utils/guideUtils'
+import type { Uploader, UploadRetryOptions } from '@/utils/uploadUtils'
+import type { MessagesOverride } from '@/i18n'
+
+/**
+ * 容器的全域預設值
+ *
+ * @description
+ * 只影響未指定對應 prop 的容器 (prop 優先)；不支援某個選項的容器會忽略該選項，
+ * 例如批次容器沒有 uploader 與 showPreview。
+ */
+export interface CropperDefaults {
+  /** 最大檔案大小限制，單位 bytes */
+  maxFileSize?: number
+  /** 是否顯示即時預覽 */
+  showPreview?: boolean
+  /** 匯出設定 (輸出格式、品質、尺寸與檔案大小上限) */
+  exportOptions?: ExportOptions
+  /** 匯出背景色 (CSS color) */
+  backgroundColor?: string
+  /** 輸出檔案的中繼資料策略 */
+  metadataPolicy?: MetadataPolicy
+  /** 上傳轉接器 */
+  uploader?: Uploader
+  /** 上傳失敗時的重試設定 */
+  uploadRetry?: UploadRetryOptions
+  /** 覆寫部分訊息 */
+  messages?: MessagesOverride
+  /** 構圖輔助線 */
+  guides?: CropGuides
+}
+
+let currentDefaults: CropperDefaults = {}
+
+/**
+ * 設定容器的全域預設值 (與先前的設定合併，值為 undefined 時移除該選項)
+ *
+ * @description
+ * 預設值在容器建立時讀取，已掛載的容器不受影響，請在掛載前設定 (例如 app.use(CropperPlugin, { defaults }))。
+ *
+ * @param {CropperDefaults} defaults - 全域預設值
+ *
+ * @example
+ * setCropperDefaults({
+ *   exportOptions: { formats: ['image/webp'], maxBytes: 500 * 1024 },
+ *   uploader: createFormDataUploader({ url: '/api/avatar' }),
+ * })
+ */
+export const setCropperDefaults = (defaults: CropperDefaults) => {
+  const merged: CropperDefaults = { ...currentDefaults, ...defaults }
+  for (const key of Object.keys(merged) as (keyof CropperDefaults)[]) {
+    if (merged[key] === undefined) delete merged[key]
+  }
+  currentDefaults = merged
+}
+
+/**
+ * 取得目前的全域預設值
+ */
+export const getCropperDefaults = (): Readonly<CropperDefaults> => currentDefaults
+
+/**
+ * 清除所有全域預設值
+ */
+export const resetCropperDefaults = () => {
+  currentDefaults = {}
+}
+
+/**
+ * 產生讀取全域預設值的 prop 預設值函式 (供容器的 withDefaults 使用)
+ *
+ * @description
+ * [為什麼用函式而不是直接讀取？]
+ * withDefaults 的預設值在模組載入時就會求值，函式形式的預設值則在每個容器建立時才呼叫，
+ * 因此掛載前才呼叫 setCropperDefaults 也會生效。
+ *
+ * 沒有全域預設值也沒有 fallback 時回傳 undefined，與沒有預設值的 prop 相同；
+ * withDefaults 的型別不允許預設值函式回傳 undefined，因此在這裡轉型。
+ *
+ * @param {K} key - 全域預設值的名稱
+ * @param {CropperDefaults[K]} [fallback] - 沒有全域預設值時使用的值
+ *
+ * @example
+ * withDefaults(defineProps<Props>(), {
+ *   maxFileSize: globalDefault('maxFileSize', 10 * 1024 * 1024),
+ *   exportOptions: globalDefault('exportOptions'),
+ * })
+ */
+export const globalDefault =
+  <K extends keyof CropperDefaults>(key: K, fallback?: NonNullable<CropperDefaults[K]>) =>
+  () =>
+    (currentDefaults[key] ?? fallback) as NonNullable<CropperDefaults[K]>
@@ -0,0 +1,113 @@
+import { createApp } from 'vue'
+import type { ImageSource } from '@/composables/useCropper'
+import type { CropResultInfo } from '@/utils/imageUtils'
+import type { UploadResult } from '@/utils/uploadUtils'
+import CropDialog from '@/components/CropDialog.vue'
+import type MovableCroppingContainer from '@/components/MovableCroppingContainer.vue'
+import type MovableBackgroundImageContainer from '@/components/MovableBackgroundImageContainer.vue'
+
+/**
+ * 對話框使用的容器
+ * - cropping: 可移動裁切框 (MovableCroppingContainer)
+ * - background: 可移動背景圖片 (MovableBackgroundImageContainer)
+ */
+export type CropDialogMode = 'cropping' | 'background'
+
+/**
+ * 裁切對話框的結果
+ */
+export interface CropResult {
+  /** 使用者點擊的按鈕 */
+  action: 'upload' | 'download'
+  /** 裁切後的圖片 (upload 時為含檔名的 File) */
+  blob: Blob
+  /** 裁切比例與輸出尺寸 (與容器的 upload / download 事件相同) */
+  info: CropResultInfo
+  /** 指定 uploader 時的上傳結果 (只在上傳成功後才關閉對話框) */
+  upload?: UploadResult
+}
+
+// 對話框固定輸出單一圖片 (不支援 outputs)，圖片由 src 選項指定，事件由 openCropDialog 處理
+type DialogContainerProps<P> = Omit<
+  P,
+  'src' | 'outputs' | `on${string}` | 'key' | 'ref' | 'ref_for' | 'ref_key' | 'class' | 'style'
+>
+
+/**
+ * 可移動裁切框對話框的容器 props
+ */
+export type CroppingDialogProps = DialogContainerProps<
+  InstanceType<typeof MovableCroppingContainer>['$props']
+>
+
+/**
+ * 可移動背景圖片對話框的容器 props
+ */
+export type BackgroundDialogProps = DialogContainerProps<
+  InstanceType<typeof MovableBackgroundImageContainer>['$props']
+>
+
+interface BaseCropDialogOptions {
+  /** 對話框標題，未指定時使用語系預設值 */
+  title?: string
+  /** 預先載入的圖片 (遠端 URL、data URL 或 Blob)，未指定時顯示上傳區域 */
+  src?: ImageSource
+  /** 中止時關閉對話框並以 null resolve (例如路由切換時) */
+  signal?: AbortSignal
+}
+
+/**
+ * openCropDialog 的選項
+ */
+export type CropDialogOptions =
+  | (BaseCropDialogOptions & { mode?: 'cropping'; props?: CroppingDialogProps })
+  | (BaseCropDialogOptions & { mode: 'background'; props?: BackgroundDialogProps })
+
+/**
+ * 開啟裁切對話框
+ *
+ * @description
+ * 在 document.body 掛載一個獨立的 Vue app 與 modal <dialog>，使用者點擊上傳或下載後關閉並回傳裁切結果；
+ * 點擊關閉、按下 Esc 或 signal 中止時回傳 null。宿主應用不需要全域註冊元件，也不需要在範本中放置容器。
+ *
+ * 指定 uploader (props 或全域預設值) 時，上傳成功才會關閉；上傳失敗時對話框維持開啟並顯示錯誤，讓使用者重試。
+ * 對話框是獨立的 app，不會繼承宿主 app 的 provide，語系與預設值請使用 setLocale / setCropperDefaults 或 props 指定。
+ *
+ * @param {CropDialogOptions} [options] - 對話框選項
+ * @returns {Promise<CropResult | null>} 裁切結果，取消時為 null
+ *
+ * @example
+ * const result = await openCropDialog({
+ *   src: file,
+ *   props: { aspectRatio: 1, shape: 'circle' },
+ * })
+ * if (result) avatar.value = URL.createObjectURL(result.blob)
+ */
+export const openCropDialog = (options: CropDialogOptions = {}): Promise<CropResult | null> => {
+  const { signal } = options
+  if (signal?.aborted) return Promise.resolve(null)
+
+  return new Promise((resolve) => {
+    const host = document.createElement('div')
+    document.body.appendChild(host)
+
+    const close = (result: CropResult | null) => {
+      signal?.removeEventListener('abort', abort)
+      app.unmount()
+      host.remove()
+      resolve(result)
+    }
+    const abort = () => close(null)
+
+    const app = createApp(CropDialog, {
+      mode: options.mode,
+      title: options.title,
+      src: options.src,
+      containerProps: options.props,
+      onClose: close,
+    })
+
+    signal?.addEventListener('abort', abort, { once: true })
+    app.mount(host)
+  })
+}
@@ -0,0 +1,75 @@
+import type { App, Plugin } from 'vue'
+import { setLocale, type Locale } from '@/i18n'
+import { setCropperDefaults, type CropperDefaults } from './defaults'
+import MovableCroppingContainer from '@/components/MovableCroppingContainer.vue'
+import MovableBackgroundImageContainer from '@/components/MovableBackgroundImageContainer.vue'
+import MovableCroppingBatchContainer from '@/components/MovableCroppingBatchContainer.vue'
+import MovableCroppingEditor from '@/components/MovableCroppingEditor.vue'
+import MovableBackgroundImageEditor from '@/components/MovableBackgroundImageEditor.vue'
+import CropperResultPreview from '@/components/CropperResultPreview.vue'
+
+export {
+  setCropperDefaults,
+  getCropperDefaults,
+  resetCropperDefaults,
+  type CropperDefaults,
+} from './defaults'
+export {
+  openCropDialog,
+  type CropDialogMode,
+  type CropDialogOptions,
+  type CropResult,
+  type CroppingDialogProps,
+  type BackgroundDialogProps,
+} from './dialog'
+
+/**
+ * 全域註冊的元件 (名稱與元件檔名相同)
+ * @constant
+ */
+const CROPPER_COMPONENTS = {
+  MovableCroppingContainer,
+  MovableBackgroundImageContainer,
+  MovableCroppingBatchContainer,
+  MovableCroppingEditor,
+  MovableBackgroundImageEditor,
+  CropperResultPreview,
+}
+
+/**
+ * CropperPlugin 的選項
+ */
+export interface CropperPluginOptions {
+  /** 全域語系 (等同呼叫 setLocale) */
+  locale?: Locale
+  /** 容器的全域預設值 (等同呼叫 setCropperDefaults) */
+  defaults?: CropperDefaults
+  /** 是否全域註冊元件，預設 true；只使用 openCropDialog 或自行 import 元件時可關閉 */
+  registerComponents?: boolean
+}
+
+/**
+ * Vue plugin：全域註冊元件並設定語系與預設值
+ *
+ * @description
+ * 語系與預設值是模組層級的全域設定 (與 setLocale 相同)，同一頁面的多個 Vue app 會共用。
+ *
+ * @example
+ * createApp(App)
+ *   .use(CropperPlugin, {
+ *     locale: 'en',
+ *     defaults: { exportOptions: { formats: ['image/webp'] }, metadataPolicy: 'strip-gps' },
+ *   })
+ *   .mount('#app')
+ */
+export const CropperPlugin: Plugin<[CropperPluginOptions?]> = {
+  install(app: App, options: CropperPluginOptions = {}) {
+    if (options.locale) setLocale(options.locale)
+    if (options.defaults) setCropperDefaults(options.defaults)
+
+    if (options.registerComponents === false) return
+    for (const [name, component] of Object.entries(CROPPER_COMPONENTS)) {
+      app.component(name, component)
+    }
+  },
+}
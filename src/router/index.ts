@@ -1,4 +1,12 @@
 import { createRouter, createWebHistory } from 'vue-router'
+import type { PageName } from '@/i18n'
+
+declare module 'vue-router' {
+  interface RouteMeta {
+    /** 頁面名稱，用來從訊息目錄 (messages.app.pages) 取得頁面標題 */
+    page?: PageName
+  }
+}
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
@@ -7,25 +15,31 @@ const router = createRouter({
       path: '/movable-cropping',
       name: 'movable-cropping-only',
       component: () => import('@/views/MovableCroppingOnlyView.vue'),
-      meta: { title: '裁切模式 (可移動裁切框)' },
+      meta: { page: 'movable-cropping-only' },
     },
     {
       path: '/movable-cropping/preview',
       name: 'movable-cropping-with-preview',
       component: () => import('@/views/MovableCroppingWithPreviewView.vue'),
-      meta: { title: '裁切 + 預覽 (可移動裁切框)' },
+      meta: { page: 'movable-cropping-with-preview' },
     },
     {
       path: '/movable-background-image',
       name: 'movable-background-image-only',
       component: () => import('@/views/MovableBackgroundImageOnlyView.vue'),
-      meta: { title: '裁切模式 (可移動背景)' },
+      meta: { page: 'movable-background-image-only' },
     },
     {
       path: '/movable-background-image/preview',
       name: 'movable-background-image-with-preview',
       component: () => import('@/views/MovableBackgroundImageWithPreviewView.vue'),
-      meta: { title: '裁切 + 預覽 (可移動背景)' },
+      meta: { page: 'movable-background-image-with-preview' },
+    },
+    {
+      path: '/batch',
+      name: 'batch-cropping',
+      component: () => import('@/views/BatchCroppingView.vue'),
+      meta: { page: 'batch-cropping' },
     },
     {
       path: '/',
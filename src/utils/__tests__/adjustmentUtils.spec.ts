@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  adjustPixels,
+  isDefaultAdjustments,
+  sharpenPixels,
+  toCssFilter,
+  type ImageAdjustments,
+} from '../adjustmentUtils'
+import type { PixelBuffer } from '../resampleUtils'
+
+const createAdjustments = (adjustments: Partial<ImageAdjustments>): ImageAdjustments => ({
+  ...DEFAULT_IMAGE_ADJUSTMENTS,
+  ...adjustments,
+})
+
+/**
+ * 建立單一像素的像素資料
+ */
+const singlePixel = (...rgba: [number, number, number, number]): PixelBuffer => ({
+  data: new Uint8ClampedArray(rgba),
+  width: 1,
+  height: 1,
+})
+
+const adjustPixel = (
+  rgba: [number, number, number, number],
+  adjustments: Partial<ImageAdjustments>,
+) => Array.from(adjustPixels(singlePixel(...rgba), createAdjustments(adjustments)).data)
+
+describe('isDefaultAdjustments', () => {
+  it('沒有任何調整時為 true', () => {
+    expect(isDefaultAdjustments({ ...DEFAULT_IMAGE_ADJUSTMENTS })).toBe(true)
+  })
+
+  it('任一項目有調整時為 false', () => {
+    expect(isDefaultAdjustments(createAdjustments({ sharpen: 10 }))).toBe(false)
+    expect(isDefaultAdjustments(createAdjustments({ filter: 'sepia' }))).toBe(false)
+  })
+})
+
+describe('toCssFilter', () => {
+  it('沒有任何調整時為 none', () => {
+    expect(toCssFilter(DEFAULT_IMAGE_ADJUSTMENTS, 'sharpen')).toBe('none')
+  })
+
+  it('依曝光、亮度、對比、飽和度、濾鏡的順序輸出', () => {
+    const adjustments = createAdjustments({
+      brightness: 20,
+      contrast: -50,
+      saturation: 100,
+      exposure: 1,
+      filter: 'grayscale',
+    })
+
+    expect(toCssFilter(adjustments)).toBe(
+      'brightness(2) brightness(1.2) contrast(0.5) saturate(2) grayscale(1)',
+    )
+  })
+
+  it('指定 id 時以 SVG filter 套用銳利化', () => {
+    const adjustments = createAdjustments({ sharpen: 50 })
+
+    expect(toCssFilter(adjustments, 'sharpen-1')).toBe('url(#sharpen-1)')
+    expect(toCssFilter(adjustments)).toBe('none')
+  })
+})
+
+describe('adjustPixels', () => {
+  it('亮度與曝光以倍率調整', () => {
+    expect(adjustPixel([100, 100, 100, 255], { brightness: 50 })).toEqual([150, 150, 150, 255])
+    expect(adjustPixel([100, 100, 100, 255], { exposure: 1 })).toEqual([200, 200, 200, 255])
+    expect(adjustPixel([100, 100, 100, 255], { exposure: -1 })).toEqual([50, 50, 50, 255])
+  })
+
+  it('對比以中間值為基準拉開或收斂', () => {
+    expect(adjustPixel([200, 50, 255, 255], { contrast: 100 })).toEqual([255, 0, 255, 255])
+    expect(adjustPixel([255, 255, 255, 255], { contrast: -50 })).toEqual([191, 191, 191, 255])
+  })
+
+  it('飽和度 -100 時為無彩度', () => {
+    expect(adjustPixel([255, 0, 0, 255], { saturation: -100 })).toEqual([54, 54, 54, 255])
+  })
+
+  it('套用黑白與復古濾鏡', () => {
+    expect(adjustPixel([255, 0, 0, 255], { filter: 'grayscale' })).toEqual([54, 54, 54, 255])
+    expect(adjustPixel([100, 100, 100, 255], { filter: 'sepia' })).toEqual([135, 120, 94, 255])
+  })
+
+  it('保留 Alpha 且不修改原資料', () => {
+    const source = singlePixel(100, 100, 100, 128)
+
+    const result = adjustPixels(source, createAdjustments({ brightness: 50 }))
+
+    expect(Array.from(result.data)).toEqual([150, 150, 150, 128])
+    expect(Array.from(source.data)).toEqual([100, 100, 100, 128])
+  })
+})
+
+describe('sharpenPixels', () => {
+  // 3x3，中心 200，其餘 100
+  const createSpot = (): PixelBuffer => {
+    const data = new Uint8ClampedArray(3 * 3 * 4)
+    for (let i = 0; i < 9; i++)
+      data.set(i === 4 ? [200, 200, 200, 255] : [100, 100, 100, 255], i * 4)
+    return { data, width: 3, height: 3 }
+  }
+
+  it('強度為 0 時直接回傳原資料', () => {
+    const source = createSpot()
+
+    expect(sharpenPixels(source, 0)).toBe(source)
+  })
+
+  it('平坦區域顏色不變', () => {
+    const source: PixelBuffer = {
+      data: new Uint8ClampedArray(2 * 2 * 4).fill(120),
+      width: 2,
+      height: 2,
+    }
+
+    expect(Array.from(sharpenPixels(source, 100).data)).toEqual(Array.from(source.data))
+  })
+
+  it('加強與周圍的差異', () => {
+    const result = sharpenPixels(createSpot(), 50)
+
+    // 中心：3 * 200 - 0.5 * 400
+    expect(Array.from(result.data.subarray(16, 20))).toEqual([255, 255, 255, 255])
+    // 上方 (邊緣以自身補齊)：3 * 100 - 0.5 * (100 + 200 + 100 + 100)
+    expect(Array.from(result.data.subarray(4, 8))).toEqual([50, 50, 50, 255])
+    // 角落不與中心相鄰：3 * 100 - 0.5 * 400
+    expect(Array.from(result.data.subarray(0, 4))).toEqual([100, 100, 100, 255])
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest'
+import { EncodeError, encodeCanvas } from '../encodeUtils'
+
+const createMockCanvas = (supported: string[] = ['image/webp', 'image/jpeg', 'image/png']) => {
+  const toBlob = vi.fn((callback: BlobCallback, type: string, quality: number) => {
+    const actualType = supported.includes(type) ? type : 'image/png'
+    callback(new Blob([new Uint8Array(Math.round(quality * 1000))], { type: actualType }))
+  })
+  const data = new Uint8ClampedArray(10 * 10 * 4).fill(255)
+  const getContext = () => ({ getImageData: () => ({ data }) })
+
+  return { width: 10, height: 10, toBlob, getContext } as unknown as HTMLCanvasElement
+}
+
+describe('encodeCanvas', () => {
+  it('依偏好格式輸出', async () => {
+    const result = await encodeCanvas(createMockCanvas(), { formats: ['image/jpeg'] })
+
+    expect(result.mimeType).toBe('image/jpeg')
+    expect(result.extension).toBe('.jpg')
+  })
+
+  it('所有格式皆不支援時拋出不含語系訊息的 EncodeError', async () => {
+    const error = await encodeCanvas(createMockCanvas(['image/png']), {
+      formats: ['image/avif'],
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(EncodeError)
+    expect((error as EncodeError).code).toBe('unsupported-format')
+  })
+
+  it('Canvas 被跨來源圖片污染時拋出 tainted-canvas', async () => {
+    const canvas = createMockCanvas()
+    ;(canvas as unknown as { getContext: () => unknown }).getContext = () => ({
+      getImageData: () => {
+        throw new DOMException('The canvas has been tainted', 'SecurityError')
+      },
+    })
+
+    const error = await encodeCanvas(canvas).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(EncodeError)
+    expect((error as EncodeError).code).toBe('tainted-canvas')
+  })
+})
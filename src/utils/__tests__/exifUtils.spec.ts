@@ -0,0 +1,309 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  applyMetadataPolicy,
+  buildExifData,
+  getOrientationTransform,
+  normalizeOrientation,
+  parseExif,
+  type ExifMetadata,
+} from '../exifUtils'
+
+const toArrayBuffer = (bytes: Uint8Array | number[]) => new Uint8Array(bytes).buffer
+
+/**
+ * 建立最小的 JPEG 結構：SOI + APP0 (JFIF) + EOI
+ */
+const createJpeg = () =>
+  new Blob(
+    [
+      new Uint8Array([
+        0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00,
+        0x01, 0x00, 0x01, 0x00, 0x00, 0xff, 0xd9,
+      ]),
+    ],
+    { type: 'image/jpeg' },
+  )
+
+/**
+ * 建立只含 Orientation 的 Little Endian JPEG (APP1)
+ */
+const createJpegWithOrientation = (orientation: number) =>
+  toArrayBuffer([
+    0xff,
+    0xd8,
+    0xff,
+    0xe1,
+    0x00,
+    0x22,
+    0x45,
+    0x78,
+    0x69,
+    0x66,
+    0x00,
+    0x00,
+    // TIFF header ("II", 42, IFD0 offset = 8)
+    0x49,
+    0x49,
+    0x2a,
+    0x00,
+    0x08,
+    0x00,
+    0x00,
+    0x00,
+    // IFD0：1 個欄位，Orientation (SHORT)
+    0x01,
+    0x00,
+    0x12,
+    0x01,
+    0x03,
+    0x00,
+    0x01,
+    0x00,
+    0x00,
+    0x00,
+    orientation,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+    0xff,
+    0xd9,
+  ])
+
+const METADATA: ExifMetadata = {
+  orientation: 6,
+  capturedAt: new Date(2024, 4, 20, 13, 45, 30),
+  gps: { latitude: 25.033964, longitude: -121.564468, altitude: 12.5 },
+}
+
+describe('parseExif', () => {
+  it('解析 Little Endian 的 Orientation', () => {
+    expect(parseExif(createJpegWithOrientation(6))?.orientation).toBe(6)
+  })
+
+  it('沒有 EXIF 時回傳 null', async () => {
+    expect(parseExif(await createJpeg().arrayBuffer())).toBeNull()
+  })
+
+  it('非圖片內容回傳 null', () => {
+    expect(parseExif(new TextEncoder().encode('not an image file').buffer)).toBeNull()
+  })
+
+  it('毀損的 EXIF 不會拋出錯誤', () => {
+    const bytes = new Uint8Array(createJpegWithOrientation(6))
+    bytes[13] = 0x00 // 破壞 byte order 標記
+    expect(parseExif(bytes.buffer)).toBeNull()
+  })
+})
+
+describe('getOrientationTransform', () => {
+  it('Orientation 1 不需變換', () => {
+    expect(getOrientationTransform(1, 400, 300)).toEqual({
+      width: 400,
+      height: 300,
+      matrix: [1, 0, 0, 1, 0, 0],
+    })
+  })
+
+  it('Orientation 3 (180 度) 維持尺寸', () => {
+    const { width, height, matrix } = getOrientationTransform(3, 400, 300)
+    expect({ width, height }).toEqual({ width: 400, height: 300 })
+    expect(matrix).toEqual([-1, 0, 0, -1, 400, 300])
+  })
+
+  it('Orientation 6 (順時針 90 度) 寬高互換，左上角移到右上角', () => {
+    const { width, height, matrix } = getOrientationTransform(6, 400, 300)
+    expect({ width, height }).toEqual({ width: 300, height: 400 })
+
+    // 原始 (0, 0) → 校正後 (300, 0)
+    const [a, b, c, d, e, f] = matrix
+    expect([a * 0 + c * 0 + e, b * 0 + d * 0 + f]).toEqual([300, 0])
+    // 原始 (400, 300) → 校正後 (0, 400)
+    expect([a * 400 + c * 300 + e, b * 400 + d * 300 + f]).toEqual([0, 400])
+  })
+
+  it('Orientation 8 (逆時針 90 度) 寬高互換', () => {
+    const { width, height } = getOrientationTransform(8, 400, 300)
+    expect({ width, height }).toEqual({ width: 300, height: 400 })
+  })
+})
+
+describe('normalizeOrientation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  /**
+   * 建立只含 SOF0 的 JPEG (感光元件方向為 width × height)
+   */
+  const createSizedJpeg = (width: number, height: number) =>
+    new Uint8Array([
+      0xff,
+      0xd8,
+      0xff,
+      0xc0,
+      0x00,
+      0x11,
+      0x08,
+      height >> 8,
+      height & 0xff,
+      width >> 8,
+      width & 0xff,
+      0x03,
+      0x01,
+      0x22,
+      0x00,
+      0x02,
+      0x11,
+      0x01,
+      0x03,
+      0x11,
+      0x01,
+      0xff,
+      0xd9,
+    ])
+
+  it('瀏覽器解碼時已套用 Orientation 則回傳 null，不重新編碼', async () => {
+    const bytes = createSizedJpeg(40, 20)
+    const close = vi.fn()
+    vi.stubGlobal(
+      'createImageBitmap',
+      vi.fn(async () => ({ width: 20, height: 40, close })),
+    )
+    const createElement = vi.spyOn(document, 'createElement')
+
+    const result = await normalizeOrientation(
+      new Blob([bytes], { type: 'image/jpeg' }),
+      bytes.buffer,
+      6,
+    )
+
+    expect(result).toBeNull()
+    expect(createElement).not.toHaveBeenCalledWith('canvas')
+    expect(close).toHaveBeenCalled()
+  })
+})
+
+describe('buildExifData', () => {
+  it('strip-all 不產生 EXIF', () => {
+    expect(buildExifData(METADATA, 'strip-all')).toBeNull()
+  })
+
+  it('沒有中繼資料時不產生 EXIF', () => {
+    expect(buildExifData(null, 'keep')).toBeNull()
+    expect(buildExifData({ orientation: 1 }, 'keep')).toBeNull()
+  })
+
+  it('strip-gps 只有 GPS 資料時不產生 EXIF', () => {
+    expect(buildExifData({ orientation: 1, gps: METADATA.gps }, 'strip-gps')).toBeNull()
+  })
+})
+
+describe('applyMetadataPolicy', () => {
+  it('strip-all 原樣回傳', async () => {
+    const blob = createJpeg()
+    expect(await applyMetadataPolicy(blob, METADATA, 'strip-all')).toBe(blob)
+  })
+
+  it('keep 寫回拍攝時間與 GPS，且 Orientation 重設為 1', async () => {
+    const output = await applyMetadataPolicy(createJpeg(), METADATA, 'keep')
+    const parsed = parseExif(await output.arrayBuffer())
+
+    expect(output.type).toBe('image/jpeg')
+    expect(parsed?.orientation).toBe(1)
+    expect(parsed?.capturedAt).toEqual(METADATA.capturedAt)
+    expect(parsed?.gps?.latitude).toBeCloseTo(METADATA.gps!.latitude, 5)
+    expect(parsed?.gps?.longitude).toBeCloseTo(METADATA.gps!.longitude, 5)
+    expect(parsed?.gps?.altitude).toBeCloseTo(12.5, 3)
+  })
+
+  it('strip-gps 保留拍攝時間但移除 GPS', async () => {
+    const output = await applyMetadataPolicy(createJpeg(), METADATA, 'strip-gps')
+    const parsed = parseExif(await output.arrayBuffer())
+
+    expect(parsed?.capturedAt).toEqual(METADATA.capturedAt)
+    expect(parsed?.gps).toBeUndefined()
+  })
+
+  it('寫入中繼資料後超過 maxBytes 時回傳不含中繼資料的圖片', async () => {
+    const blob = createJpeg()
+    const output = await applyMetadataPolicy(blob, METADATA, 'keep', blob.size + 10)
+
+    expect(output).toBe(blob)
+  })
+
+  it('寫入中繼資料後仍在 maxBytes 內時保留中繼資料', async () => {
+    const output = await applyMetadataPolicy(createJpeg(), METADATA, 'keep', 64 * 1024)
+
+    expect(parseExif(await output.arrayBuffer())?.capturedAt).toEqual(METADATA.capturedAt)
+  })
+
+  it('寫入 PNG 的 eXIf 區塊', async () => {
+    const png = new Blob(
+      [
+        new Uint8Array([
+          0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+          // IHDR (內容不影響測試)
+          0x00, 0x00, 0x00, 0x00, 0x49, 0x48, 0x44, 0x52, 0x00, 0x00, 0x00, 0x00,
+          // IDAT
+          0x00, 0x00, 0x00, 0x00, 0x49, 0x44, 0x41, 0x54, 0x00, 0x00, 0x00, 0x00,
+        ]),
+      ],
+      { type: 'image/png' },
+    )
+    const output = await applyMetadataPolicy(png, METADATA, 'keep')
+    const parsed = parseExif(await output.arrayBuffer())
+
+    expect(parsed?.gps?.latitude).toBeCloseTo(METADATA.gps!.latitude, 5)
+  })
+
+  it('Simple WebP (VP8L) 轉為 Extended 格式並寫入 EXIF', async () => {
+    // VP8L：signature 0x2f，寬高 (1 - 1) = 0
+    const vp8l = [0x2f, 0x00, 0x00, 0x00, 0x00, 0x00]
+    const webp = new Blob(
+      [
+        new Uint8Array([
+          0x52,
+          0x49,
+          0x46,
+          0x46,
+          0x12,
+          0x00,
+          0x00,
+          0x00,
+          0x57,
+          0x45,
+          0x42,
+          0x50,
+          0x56,
+          0x50,
+          0x38,
+          0x4c,
+          vp8l.length,
+          0x00,
+          0x00,
+          0x00,
+          ...vp8l,
+        ]),
+      ],
+      { type: 'image/webp' },
+    )
+    const output = await applyMetadataPolicy(webp, METADATA, 'strip-gps')
+    const bytes = new Uint8Array(await output.arrayBuffer())
+    const view = new DataView(bytes.buffer)
+
+    expect(String.fromCharCode(...bytes.subarray(12, 16))).toBe('VP8X')
+    // RIFF 大小需與實際內容一致
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8)
+    expect(parseExif(bytes.buffer)?.capturedAt).toEqual(METADATA.capturedAt)
+  })
+
+  it('不支援寫入的格式原樣回傳', async () => {
+    const avif = new Blob([new Uint8Array(16)], { type: 'image/avif' })
+    expect(await applyMetadataPolicy(avif, METADATA, 'keep')).toBe(avif)
+  })
+})
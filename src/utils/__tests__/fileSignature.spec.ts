@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { detectImageType, isDeclaredTypeConsistent, normalizeMimeType } from '../fileSignature'
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+
+/**
+ * 建立 ISOBMFF ftyp box
+ */
+const createFtyp = (majorBrand: string, compatibleBrands: string[]) => {
+  const size = 16 + compatibleBrands.length * 4
+  return new Uint8Array([
+    0,
+    0,
+    0,
+    size,
+    ...ascii('ftyp'),
+    ...ascii(majorBrand),
+    0,
+    0,
+    0,
+    0,
+    ...compatibleBrands.flatMap(ascii),
+  ])
+}
+
+/**
+ * 建立 BMP 的 file header 與 DIB header 大小欄位
+ */
+const createBmpHeader = (dibHeaderSize: number) => {
+  const bytes = new Uint8Array(18)
+  bytes.set(ascii('BM'))
+  new DataView(bytes.buffer).setUint32(14, dibHeaderSize, true)
+  return bytes
+}
+
+describe('detectImageType', () => {
+  it('辨識 JPEG', () => {
+    expect(detectImageType(new Uint8Array([0xff, 0xd8, 0xff, 0xe1]))).toBe('image/jpeg')
+  })
+
+  it('辨識 PNG', () => {
+    expect(detectImageType(new Uint8Array([0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a]))).toBe(
+      'image/png',
+    )
+  })
+
+  it('辨識 GIF87a 與 GIF89a', () => {
+    expect(detectImageType(new Uint8Array(ascii('GIF87a')))).toBe('image/gif')
+    expect(detectImageType(new Uint8Array(ascii('GIF89a')))).toBe('image/gif')
+  })
+
+  it('辨識 WebP (RIFF....WEBP)', () => {
+    expect(detectImageType(new Uint8Array([...ascii('RIFF'), 1, 2, 3, 4, ...ascii('WEBP')]))).toBe(
+      'image/webp',
+    )
+  })
+
+  it('RIFF 但不是 WEBP (例如 WAV) 時無法辨識', () => {
+    expect(detectImageType(new Uint8Array([...ascii('RIFF'), 1, 2, 3, 4, ...ascii('WAVE')]))).toBe(
+      null,
+    )
+  })
+
+  it('辨識 BMP (BITMAPINFOHEADER 與 BITMAPV5HEADER)', () => {
+    expect(detectImageType(createBmpHeader(40))).toBe('image/bmp')
+    expect(detectImageType(createBmpHeader(124))).toBe('image/bmp')
+  })
+
+  it('BM 開頭但 DIB header 大小不正確時無法辨識', () => {
+    expect(detectImageType(new Uint8Array([...ascii('BM'), 0, 0]))).toBeNull()
+    expect(detectImageType(new Uint8Array([...ascii('BMP file notes: ...')]))).toBeNull()
+    expect(detectImageType(createBmpHeader(41))).toBeNull()
+  })
+
+  it('依 ftyp 品牌辨識 AVIF (主要品牌為 mif1 時檢查相容品牌)', () => {
+    expect(detectImageType(createFtyp('avif', ['mif1']))).toBe('image/avif')
+    expect(detectImageType(createFtyp('mif1', ['avif', 'miaf']))).toBe('image/avif')
+  })
+
+  it('依 ftyp 品牌辨識 HEIC 與 HEIF', () => {
+    expect(detectImageType(createFtyp('heic', ['mif1', 'heic']))).toBe('image/heic')
+    expect(detectImageType(createFtyp('mif1', ['mif1']))).toBe('image/heif')
+  })
+
+  it('其他 ftyp 品牌 (例如 MP4) 無法辨識', () => {
+    expect(detectImageType(createFtyp('isom', ['mp41']))).toBeNull()
+  })
+
+  it('非圖片內容回傳 null', () => {
+    expect(detectImageType(new Uint8Array([0x4d, 0x5a, 0x90, 0x00]))).toBeNull()
+    expect(detectImageType(new Uint8Array([]))).toBeNull()
+  })
+})
+
+describe('normalizeMimeType', () => {
+  it('轉換常見別名', () => {
+    expect(normalizeMimeType('image/jpg')).toBe('image/jpeg')
+    expect(normalizeMimeType('image/x-ms-bmp')).toBe('image/bmp')
+    expect(normalizeMimeType('application/x-bmp')).toBe('image/bmp')
+    expect(normalizeMimeType('IMAGE/PNG')).toBe('image/png')
+  })
+})
+
+describe('isDeclaredTypeConsistent', () => {
+  it('宣告類型與內容相同時相符', () => {
+    expect(isDeclaredTypeConsistent('image/jpeg', 'image/jpeg')).toBe(true)
+    expect(isDeclaredTypeConsistent('image/pjpeg', 'image/jpeg')).toBe(true)
+  })
+
+  it('沒有宣告類型時以內容為準', () => {
+    expect(isDeclaredTypeConsistent('', 'image/heic')).toBe(true)
+    expect(isDeclaredTypeConsistent('application/octet-stream', 'image/heic')).toBe(true)
+  })
+
+  it('BMP 的別名與內容相符', () => {
+    expect(isDeclaredTypeConsistent('image/x-ms-bmp', 'image/bmp')).toBe(true)
+    expect(isDeclaredTypeConsistent('application/x-bmp', 'image/bmp')).toBe(true)
+    expect(isDeclaredTypeConsistent('image/x-windows-bmp', 'image/bmp')).toBe(true)
+  })
+
+  it('HEIC 與 HEIF 視為相符', () => {
+    expect(isDeclaredTypeConsistent('image/heif', 'image/heic')).toBe(true)
+  })
+
+  it('宣告類型與內容不同時不相符', () => {
+    expect(isDeclaredTypeConsistent('image/png', 'image/jpeg')).toBe(false)
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  calculateSaliencyFocus,
+  detectFaces,
+  findFocalPoint,
+  getFocusCenter,
+} from '../focalPointUtils'
+import type { PixelBuffer } from '../resampleUtils'
+
+/**
+ * 建立灰色背景的像素資料，textured 回傳 true 的座標改為黑白棋盤格 (細節豐富的區域)
+ */
+const createPixels = (
+  width: number,
+  height: number,
+  textured: (x: number, y: number) => boolean,
+): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = textured(x, y) ? ((x + y) % 2 ? 255 : 0) : 128
+      data.set([value, value, value, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+const image = { naturalWidth: 800, naturalHeight: 600 } as HTMLImageElement
+
+describe('calculateSaliencyFocus', () => {
+  it('沒有任何細節時為 null', () => {
+    expect(calculateSaliencyFocus(createPixels(32, 32, () => false))).toBeNull()
+  })
+
+  it('焦點落在細節豐富的區域', () => {
+    const pixels = createPixels(32, 32, (x, y) => x >= 24 && y >= 16 && y < 24)
+
+    expect(calculateSaliencyFocus(pixels)).toEqual({ x: 28, y: 20 })
+  })
+
+  it('多個相同程度的區域取加權中心', () => {
+    const pixels = createPixels(32, 32, (x, y) => y < 8 && (x < 8 || x >= 24))
+
+    expect(calculateSaliencyFocus(pixels)).toEqual({ x: 16, y: 4 })
+  })
+})
+
+describe('getFocusCenter', () => {
+  it('焦點範圍取中心，焦點直接回傳', () => {
+    expect(getFocusCenter({ x: 100, y: 50, width: 40, height: 20 })).toEqual({ x: 120, y: 60 })
+    expect(getFocusCenter({ x: 100, y: 50 })).toEqual({ x: 100, y: 50 })
+  })
+})
+
+describe('detectFaces', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('瀏覽器不支援 FaceDetector 時為 null', async () => {
+    vi.stubGlobal('FaceDetector', undefined)
+
+    expect(await detectFaces(image)).toBeNull()
+  })
+
+  it('回傳涵蓋所有臉部的範圍', async () => {
+    const box = (left: number, top: number, right: number, bottom: number) => ({
+      boundingBox: { left, top, right, bottom },
+    })
+    vi.stubGlobal(
+      'FaceDetector',
+      class {
+        detect = async () => [box(100, 80, 200, 200), box(400, 120, 480, 220)]
+      },
+    )
+
+    expect(await detectFaces(image)).toEqual({ x: 100, y: 80, width: 380, height: 140 })
+  })
+})
+
+describe('findFocalPoint', () => {
+  it('以提供者回傳範圍的中心為焦點', async () => {
+    const focus = await findFocalPoint(image, () => ({ x: 100, y: 50, width: 40, height: 20 }))
+
+    expect(focus).toEqual({ x: 120, y: 60 })
+  })
+
+  it('焦點限制在圖片範圍內', async () => {
+    const focus = await findFocalPoint(image, async () => ({ x: -20, y: 900 }))
+
+    expect(focus).toEqual({ x: 0, y: 600 })
+  })
+
+  it('找不到焦點時為 null', async () => {
+    expect(await findFocalPoint(image, () => null)).toBeNull()
+  })
+
+  it('提供者失敗時記錄警告並回傳 null', async () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const focus = await findFocalPoint(image, async () => {
+      throw new Error('detector unavailable')
+    })
+
+    expect(focus).toBeNull()
+    expect(consoleWarnSpy).toHaveBeenCalled()
+    consoleWarnSpy.mockRestore()
+  })
+})
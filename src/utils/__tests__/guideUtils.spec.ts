@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { getGuidePath, normalizeSafeArea } from '../guideUtils'
+
+// 取出 path 中所有的座標數值
+const getNumbers = (path: string) => (path.match(/-?\d+(\.\d+)?/g) ?? []).map(Number)
+
+describe('getGuidePath', () => {
+  it('三分法在 1/3 與 2/3 畫線', () => {
+    expect(getGuidePath('thirds')).toBe(
+      'M 33.333 0 V 100 M 66.667 0 V 100 M 0 33.333 H 100 M 0 66.667 H 100',
+    )
+  })
+
+  it('黃金比例格線在 0.382 與 0.618 畫線', () => {
+    expect(getGuidePath('golden-grid')).toBe(
+      'M 38.197 0 V 100 M 61.803 0 V 100 M 0 38.197 H 100 M 0 61.803 H 100',
+    )
+  })
+
+  it('黃金螺旋從左下角開始，由四分之一弧連成', () => {
+    const path = getGuidePath('golden-spiral')
+
+    expect(path.startsWith('M 0 100 A 61.803 100 0 0 1 61.803 0')).toBe(true)
+    expect(path.match(/A /g)).toHaveLength(10)
+  })
+
+  it('黃金螺旋的座標都在裁切框內', () => {
+    const numbers = getNumbers(getGuidePath('golden-spiral'))
+
+    expect(numbers.every((value) => value >= 0 && value <= 100)).toBe(true)
+  })
+})
+
+describe('normalizeSafeArea', () => {
+  it('未指定或沒有內縮時為 null', () => {
+    expect(normalizeSafeArea()).toBeNull()
+    expect(normalizeSafeArea({ top: 0, bottom: 0 })).toBeNull()
+  })
+
+  it('補齊未指定的邊並限制在 0 ~ 0.5', () => {
+    expect(normalizeSafeArea({ top: 0.14, bottom: 0.8, left: -0.1, right: Number.NaN })).toEqual({
+      top: 0.14,
+      right: 0,
+      bottom: 0.5,
+      left: 0,
+    })
+  })
+})
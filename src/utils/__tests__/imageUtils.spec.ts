@@ -0,0 +1,391 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  calculateExportSize,
+  ExportError,
+  getCropMaskBorderRadius,
+  getCropMaskGeometry,
+  getCropResultInfo,
+  getExportFileName,
+  getOptimizedBlob,
+  hasTransparentPixels,
+  resolveExportOptions,
+  resolveVariantExportOptions,
+  type ExportFormat,
+} from '../imageUtils'
+import { EXPORT_IMAGE_QUALITY, EXPORT_WEBP_QUALITY } from '@/composables/useCropper'
+import { DEFAULT_IMAGE_ADJUSTMENTS } from '@/utils/adjustmentUtils'
+
+/**
+ * 建立模擬 Canvas
+ * - 檔案大小 = quality * 1000 bytes，方便驗證品質搜尋
+ * - 不在 supported 內的格式會回傳 image/png (模擬瀏覽器的 Fallback 行為)
+ * - alpha 為所有像素的透明度
+ */
+const createMockCanvas = (
+  supported: string[] = ['image/webp', 'image/jpeg', 'image/png'],
+  alpha = 255,
+  width = 10,
+  height = 10,
+) => {
+  const toBlob = vi.fn((callback: BlobCallback, type: ExportFormat, quality: number) => {
+    const actualType = supported.includes(type) ? type : 'image/png'
+    callback(new Blob([new Uint8Array(Math.round(quality * 1000))], { type: actualType }))
+  })
+
+  const data = new Uint8ClampedArray(width * height * 4).fill(alpha)
+  const getContext = () => ({ getImageData: () => ({ data }) })
+
+  return {
+    canvas: { width, height, toBlob, getContext } as unknown as HTMLCanvasElement,
+    toBlob,
+  }
+}
+
+describe('calculateExportSize', () => {
+  it('未設定限制時維持原尺寸', () => {
+    expect(calculateExportSize(800, 600)).toEqual({ width: 800, height: 600 })
+  })
+
+  it('依 maxWidth 等比縮小', () => {
+    expect(calculateExportSize(800, 600, { maxWidth: 400 })).toEqual({ width: 400, height: 300 })
+  })
+
+  it('依 maxHeight 等比縮小', () => {
+    expect(calculateExportSize(800, 600, { maxHeight: 300 })).toEqual({ width: 400, height: 300 })
+  })
+
+  it('fitWithin 限制最長邊', () => {
+    expect(calculateExportSize(900, 1600, { fitWithin: 800 })).toEqual({ width: 450, height: 800 })
+  })
+
+  it('同時設定多個限制時取最嚴格者', () => {
+    expect(calculateExportSize(1000, 1000, { maxWidth: 800, fitWithin: 500 })).toEqual({
+      width: 500,
+      height: 500,
+    })
+  })
+
+  it('不會放大小於限制的圖片', () => {
+    expect(calculateExportSize(200, 100, { fitWithin: 1000 })).toEqual({ width: 200, height: 100 })
+  })
+
+  it('指定 width 時等比縮放 (可放大)', () => {
+    expect(calculateExportSize(200, 100, { width: 600 })).toEqual({ width: 600, height: 300 })
+    expect(calculateExportSize(900, 1600, { width: 450 })).toEqual({ width: 450, height: 800 })
+  })
+
+  it('指定 width 時仍受其他限制', () => {
+    expect(calculateExportSize(200, 100, { width: 600, maxWidth: 400 })).toEqual({
+      width: 400,
+      height: 200,
+    })
+  })
+})
+
+describe('getExportFileName', () => {
+  it('以輸出格式的副檔名取代原副檔名並加上後綴', () => {
+    expect(getExportFileName('photo.jpg', 'cropped', '.webp')).toBe('photo-cropped.webp')
+    expect(getExportFileName('my.photo.png', 'avatar@2x', '.png')).toBe('my.photo-avatar@2x.png')
+  })
+
+  it('原檔名沒有副檔名時直接加上後綴與副檔名', () => {
+    expect(getExportFileName('image', 'cropped', '.jpg')).toBe('image-cropped.jpg')
+  })
+})
+
+describe('resolveVariantExportOptions', () => {
+  it('變體的設定覆寫容器的設定', () => {
+    expect(
+      resolveVariantExportOptions(
+        {
+          name: 'cover',
+          width: 1920,
+          formats: ['image/png'],
+          exportOptions: { maxBytes: 500_000 },
+        },
+        { formats: ['image/webp'], maxBytes: 1_000_000, backgroundColor: '#fff' },
+      ),
+    ).toEqual({
+      formats: ['image/png'],
+      width: 1920,
+      maxBytes: 500_000,
+      backgroundColor: '#fff',
+    })
+  })
+
+  it('變體未指定時沿用容器的設定', () => {
+    expect(resolveVariantExportOptions({ name: 'thumb' }, { formats: ['image/jpeg'] })).toEqual({
+      formats: ['image/jpeg'],
+    })
+  })
+})
+
+describe('resolveExportOptions', () => {
+  it('backgroundColor 與遮罩 prop 優先於 exportOptions 的同名設定', () => {
+    expect(
+      resolveExportOptions(
+        { maxBytes: 500_000, backgroundColor: '#000' },
+        { backgroundColor: '#fff', mask: { shape: 'circle' } },
+      ),
+    ).toEqual({ maxBytes: 500_000, backgroundColor: '#fff', mask: { shape: 'circle' } })
+  })
+
+  it('未指定 prop 時沿用 exportOptions 的設定', () => {
+    expect(
+      resolveExportOptions(
+        { backgroundColor: '#000', mask: { shape: 'rounded', radius: 0.2 } },
+        { mask: null },
+      ),
+    ).toEqual({ backgroundColor: '#000', mask: { shape: 'rounded', radius: 0.2 } })
+  })
+})
+
+describe('getCropResultInfo', () => {
+  const cropData = {
+    x: 10,
+    y: 20,
+    width: 400,
+    height: 400,
+    rotate: 0,
+    scaleX: 1,
+    scaleY: 1,
+  } as const
+  const adjustments = { ...DEFAULT_IMAGE_ADJUSTMENTS, brightness: 20 }
+
+  it('以匯出設定計算輸出尺寸，並複製調整值', () => {
+    const info = getCropResultInfo(
+      { width: 1000, height: 1000 },
+      { fitWithin: 500 },
+      { aspectRatio: 1, cropData, adjustments, mask: null },
+    )
+
+    expect(info).toEqual({ aspectRatio: 1, width: 500, height: 500, cropData, adjustments })
+    expect(info.adjustments).not.toBe(adjustments)
+    expect(info).not.toHaveProperty('geometry')
+  })
+
+  it('非矩形時附上遮罩在輸出圖片上的幾何資訊', () => {
+    const info = getCropResultInfo(
+      { width: 200, height: 100 },
+      {},
+      { aspectRatio: null, cropData, adjustments, mask: { shape: 'circle' } },
+    )
+
+    expect(info.geometry).toEqual(
+      getCropMaskGeometry({ shape: 'circle' }, { width: 200, height: 100 }),
+    )
+  })
+})
+
+describe('getCropMaskGeometry', () => {
+  it('circle 為內切橢圓', () => {
+    expect(getCropMaskGeometry({ shape: 'circle' }, { width: 400, height: 200 })).toEqual({
+      shape: 'circle',
+      width: 400,
+      height: 200,
+      radiusX: 200,
+      radiusY: 100,
+    })
+  })
+
+  it('rounded 的圓角半徑以短邊計算', () => {
+    expect(
+      getCropMaskGeometry({ shape: 'rounded', radius: 0.25 }, { width: 400, height: 200 }),
+    ).toMatchObject({ radiusX: 50, radiusY: 50 })
+  })
+
+  it('rounded 未指定半徑時使用預設值，且不超過短邊的一半', () => {
+    expect(getCropMaskGeometry({ shape: 'rounded' }, { width: 100, height: 100 })).toMatchObject({
+      radiusX: 10,
+    })
+    expect(
+      getCropMaskGeometry({ shape: 'rounded', radius: 2 }, { width: 100, height: 100 }),
+    ).toMatchObject({ radiusX: 50 })
+  })
+
+  it('rect 沒有圓角', () => {
+    expect(getCropMaskGeometry({ shape: 'rect' }, { width: 100, height: 50 })).toMatchObject({
+      radiusX: 0,
+      radiusY: 0,
+    })
+  })
+})
+
+describe('getCropMaskBorderRadius', () => {
+  it('circle 為 50%', () => {
+    expect(getCropMaskBorderRadius({ shape: 'circle' }, 9 / 16)).toBe('50% / 50%')
+  })
+
+  it('rounded 依長寬比換算為正圓角', () => {
+    expect(getCropMaskBorderRadius({ shape: 'rounded', radius: 0.1 }, 2)).toBe('5% / 10%')
+    expect(getCropMaskBorderRadius({ shape: 'rounded', radius: 0.1 }, 0.5)).toBe('10% / 5%')
+  })
+})
+
+describe('getOptimizedBlob', () => {
+  it('預設優先輸出 WebP', async () => {
+    const { canvas, toBlob } = createMockCanvas()
+    const result = await getOptimizedBlob(canvas)
+
+    expect(result.mimeType).toBe('image/webp')
+    expect(result.extension).toBe('.webp')
+    expect(toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/webp', EXPORT_WEBP_QUALITY)
+  })
+
+  it('不支援 WebP 時 Fallback 回 JPEG', async () => {
+    const { canvas, toBlob } = createMockCanvas(['image/jpeg', 'image/png'])
+    const result = await getOptimizedBlob(canvas)
+
+    expect(result.mimeType).toBe('image/jpeg')
+    expect(result.extension).toBe('.jpg')
+    expect(toBlob).toHaveBeenLastCalledWith(
+      expect.any(Function),
+      'image/jpeg',
+      EXPORT_IMAGE_QUALITY,
+    )
+  })
+
+  it('依照指定的格式順序輸出', async () => {
+    const { canvas } = createMockCanvas()
+    const result = await getOptimizedBlob(canvas, { formats: ['image/png'] })
+
+    expect(result.mimeType).toBe('image/png')
+    expect(result.extension).toBe('.png')
+  })
+
+  it('套用自訂品質', async () => {
+    const { canvas, toBlob } = createMockCanvas()
+    await getOptimizedBlob(canvas, { formats: ['image/jpeg'], quality: { 'image/jpeg': 0.5 } })
+
+    expect(toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/jpeg', 0.5)
+  })
+
+  it('超過 maxBytes 時降低品質直到符合', async () => {
+    const { canvas } = createMockCanvas()
+    const result = await getOptimizedBlob(canvas, { formats: ['image/jpeg'], maxBytes: 500 })
+
+    expect(result.mimeType).toBe('image/jpeg')
+    expect(result.blob.size).toBeLessThanOrEqual(500)
+    // 二分搜尋應找到接近上限的最高品質
+    expect(result.blob.size).toBeGreaterThan(450)
+  })
+
+  it('某格式無法符合 maxBytes 時改試下一個格式', async () => {
+    const { canvas } = createMockCanvas()
+    const result = await getOptimizedBlob(canvas, {
+      formats: ['image/png', 'image/jpeg'],
+      maxBytes: 500,
+    })
+
+    expect(result.mimeType).toBe('image/jpeg')
+  })
+
+  it('所有格式都無法符合 maxBytes 時拋出錯誤', async () => {
+    const { canvas } = createMockCanvas()
+
+    await expect(
+      getOptimizedBlob(canvas, { formats: ['image/jpeg'], maxBytes: 10, minQuality: 0.5 }),
+    ).rejects.toThrow('檔案大小上限')
+  })
+
+  it('拋出的錯誤帶有錯誤代碼', async () => {
+    const { canvas } = createMockCanvas()
+
+    const error = await getOptimizedBlob(canvas, {
+      formats: ['image/jpeg'],
+      maxBytes: 10,
+      minQuality: 0.5,
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ExportError)
+    expect((error as ExportError).code).toBe('exceeds-max-bytes')
+  })
+
+  it('OffscreenCanvas 以 convertToBlob 匯出 (Worker 內)', async () => {
+    const convertToBlob = vi.fn(async ({ type, quality }: ImageEncodeOptions) => {
+      return new Blob([new Uint8Array(Math.round((quality ?? 1) * 1000))], { type })
+    })
+    const data = new Uint8ClampedArray(10 * 10 * 4).fill(255)
+    const canvas = {
+      width: 10,
+      height: 10,
+      convertToBlob,
+      getContext: () => ({ getImageData: () => ({ data }) }),
+    } as unknown as OffscreenCanvas
+
+    const result = await getOptimizedBlob(canvas, { formats: ['image/jpeg'] })
+
+    expect(result.mimeType).toBe('image/jpeg')
+    expect(convertToBlob).toHaveBeenCalledWith({
+      type: 'image/jpeg',
+      quality: EXPORT_IMAGE_QUALITY,
+    })
+  })
+
+  it('所有格式皆不支援時拋出錯誤', async () => {
+    const { canvas } = createMockCanvas(['image/png'])
+
+    await expect(getOptimizedBlob(canvas, { formats: ['image/avif'] })).rejects.toThrow(
+      '圖片匯出失敗',
+    )
+  })
+
+  it('Canvas 被跨來源圖片污染時拋出 tainted-canvas', async () => {
+    const { canvas } = createMockCanvas()
+    ;(canvas as unknown as { getContext: () => unknown }).getContext = () => ({
+      getImageData: () => {
+        throw new DOMException('The canvas has been tainted', 'SecurityError')
+      },
+    })
+
+    const error = await getOptimizedBlob(canvas).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ExportError)
+    expect((error as ExportError).code).toBe('tainted-canvas')
+  })
+})
+
+describe('hasTransparentPixels', () => {
+  it('完全不透明時回傳 false', () => {
+    expect(hasTransparentPixels(new Uint8ClampedArray([0, 0, 0, 255, 10, 20, 30, 255]))).toBe(false)
+  })
+
+  it('含有半透明像素時回傳 true', () => {
+    expect(hasTransparentPixels(new Uint8ClampedArray([0, 0, 0, 255, 10, 20, 30, 128]))).toBe(true)
+  })
+
+  it('只檢查 Alpha channel', () => {
+    expect(hasTransparentPixels(new Uint8ClampedArray([0, 0, 0, 255]))).toBe(false)
+  })
+})
+
+describe('getOptimizedBlob 透明度處理', () => {
+  it('含透明像素且不支援 WebP 時改用 PNG 而非 JPEG', async () => {
+    const { canvas, toBlob } = createMockCanvas(['image/jpeg', 'image/png'], 0)
+    const result = await getOptimizedBlob(canvas)
+
+    expect(result.mimeType).toBe('image/png')
+    expect(toBlob).not.toHaveBeenCalledWith(expect.any(Function), 'image/jpeg', expect.any(Number))
+  })
+
+  it('含透明像素且支援 WebP 時輸出 WebP', async () => {
+    const { canvas } = createMockCanvas(['image/webp', 'image/jpeg', 'image/png'], 0)
+    const result = await getOptimizedBlob(canvas)
+
+    expect(result.mimeType).toBe('image/webp')
+  })
+
+  it('即使只指定 JPEG，含透明像素時仍改用 PNG', async () => {
+    const { canvas } = createMockCanvas(['image/jpeg', 'image/png'], 0)
+    const result = await getOptimizedBlob(canvas, { formats: ['image/jpeg'] })
+
+    expect(result.mimeType).toBe('image/png')
+  })
+
+  it('完全不透明時維持 JPEG Fallback', async () => {
+    const { canvas } = createMockCanvas(['image/jpeg', 'image/png'], 255)
+    const result = await getOptimizedBlob(canvas)
+
+    expect(result.mimeType).toBe('image/jpeg')
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { resamplePixels, type PixelBuffer, type PixelResamplingMethod } from '../resampleUtils'
+
+const METHODS: PixelResamplingMethod[] = ['stepwise', 'bilinear', 'lanczos3']
+
+/**
+ * 建立像素資料，pixel 回傳每個座標的 RGBA
+ */
+const createPixels = (
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number, number],
+): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+const getPixel = ({ data, width }: PixelBuffer, x: number, y: number) =>
+  Array.from(data.subarray((y * width + x) * 4, (y * width + x) * 4 + 4))
+
+const average = ({ data }: PixelBuffer, channel: number) => {
+  let sum = 0
+  for (let i = channel; i < data.length; i += 4) sum += data[i]!
+  return sum / (data.length / 4)
+}
+
+// 1px 黑白棋盤格，單步縮小時最容易產生摩爾紋
+const checkerboard = (size: number) =>
+  createPixels(size, size, (x, y) => ((x + y) % 2 ? [255, 255, 255, 255] : [0, 0, 0, 255]))
+
+describe('resamplePixels', () => {
+  it('尺寸相同時直接回傳原資料', () => {
+    const source = createPixels(4, 4, () => [10, 20, 30, 255])
+
+    expect(resamplePixels(source, 4, 4, 'lanczos3')).toBe(source)
+  })
+
+  it.each(METHODS)('%s: 縮小後維持輸出尺寸與純色', (method) => {
+    const result = resamplePixels(
+      createPixels(9, 7, () => [200, 100, 50, 255]),
+      3,
+      2,
+      method,
+    )
+
+    expect(result.width).toBe(3)
+    expect(result.height).toBe(2)
+    for (let y = 0; y < 2; y++) {
+      for (let x = 0; x < 3; x++) {
+        expect(getPixel(result, x, y)).toEqual([200, 100, 50, 255])
+      }
+    }
+  })
+
+  it.each(['stepwise', 'lanczos3'] as const)(
+    '%s: 棋盤格縮小後為均勻的灰色 (無摩爾紋)',
+    (method) => {
+      const result = resamplePixels(checkerboard(32), 5, 5, method)
+
+      for (let y = 0; y < 5; y++) {
+        for (let x = 0; x < 5; x++) {
+          const [r] = getPixel(result, x, y)
+          expect(Math.abs(r! - 127.5)).toBeLessThan(16)
+        }
+      }
+    },
+  )
+
+  it('stepwise: 大幅縮小時保留整體亮度', () => {
+    // 8x8 中只有一個亮點，雙線性插值只取樣相鄰像素會遺失，逐步減半則平均進結果
+    const source = createPixels(8, 8, (x, y) =>
+      x === 3 && y === 3 ? [255, 255, 255, 255] : [0, 0, 0, 255],
+    )
+
+    const stepwise = resamplePixels(source, 2, 2, 'stepwise')
+    const bilinear = resamplePixels(source, 2, 2, 'bilinear')
+
+    expect(average(stepwise, 0)).toBeCloseTo(average(source, 0), 0)
+    expect(average(bilinear, 0)).toBe(0)
+  })
+
+  it('stepwise: 奇數尺寸減半時不遺失邊緣像素', () => {
+    // 最右側一欄為白色，5x2 → 2x1 時應併入最後一個輸出像素
+    const source = createPixels(5, 2, (x) => (x === 4 ? [255, 255, 255, 255] : [0, 0, 0, 255]))
+
+    const result = resamplePixels(source, 2, 1, 'stepwise')
+
+    expect(getPixel(result, 0, 0)[0]).toBe(0)
+    expect(getPixel(result, 1, 0)[0]).toBe(85)
+  })
+
+  it.each(METHODS)('%s: 透明區域不會在邊緣混入黑色', (method) => {
+    // 左半部為完全透明的黑色，右半部為不透明的紅色
+    const source = createPixels(16, 4, (x) => (x < 8 ? [0, 0, 0, 0] : [255, 0, 0, 255]))
+
+    const result = resamplePixels(source, 5, 2, method)
+
+    for (let x = 0; x < 5; x++) {
+      const [r, g, b, a] = getPixel(result, x, 0)
+      if (a! > 0) {
+        expect([r, g, b]).toEqual([255, 0, 0])
+      }
+    }
+    // 邊界上的像素為半透明
+    expect(getPixel(result, 2, 0)[3]).toBeGreaterThan(0)
+    expect(getPixel(result, 2, 0)[3]).toBeLessThan(255)
+  })
+
+  it('相同輸入得到相同輸出', () => {
+    const first = resamplePixels(checkerboard(20), 7, 7, 'lanczos3')
+    const second = resamplePixels(checkerboard(20), 7, 7, 'lanczos3')
+
+    expect(first.data).toEqual(second.data)
+  })
+})
@@ -0,0 +1,296 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  calculateRetryDelay,
+  createFetchTransport,
+  createFormDataUploader,
+  createPresignedUrlUploader,
+  uploadWithRetry,
+  UploadError,
+} from '../uploadUtils'
+
+const createFile = () => new File(['image-data'], 'photo.webp', { type: 'image/webp' })
+
+// 依序回傳指定的回應；Error 代表網路錯誤
+const createFetchStub = (...responses: (Response | Error)[]) =>
+  vi.fn<typeof fetch>(async () => {
+    const next = responses.shift()
+    if (!next || next instanceof Error) throw next ?? new Error('No response')
+    return next
+  })
+
+const NO_DELAY = { baseDelay: 0 }
+
+describe('calculateRetryDelay', () => {
+  it('每次重試等待時間加倍', () => {
+    expect(calculateRetryDelay(1)).toBe(500)
+    expect(calculateRetryDelay(2)).toBe(1000)
+    expect(calculateRetryDelay(3, { baseDelay: 100 })).toBe(400)
+  })
+
+  it('不超過等待時間上限', () => {
+    expect(calculateRetryDelay(10, { baseDelay: 1000, maxDelay: 5000 })).toBe(5000)
+  })
+})
+
+describe('createFetchTransport', () => {
+  it('在開始與完成時回報進度', async () => {
+    const fetchStub = createFetchStub(new Response('ok'))
+    const onProgress = vi.fn()
+    const body = createFile()
+
+    const response = await createFetchTransport(fetchStub)(
+      { method: 'PUT', url: '/upload', body },
+      { signal: new AbortController().signal, onProgress },
+    )
+
+    expect(response).toEqual({ status: 200, body: 'ok' })
+    expect(onProgress).toHaveBeenNthCalledWith(1, { loaded: 0, total: body.size })
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: body.size, total: body.size })
+  })
+})
+
+describe('createFormDataUploader', () => {
+  it('以 multipart/form-data POST 上傳並解析 JSON 回應', async () => {
+    const fetchStub = createFetchStub(new Response('{"id":"abc"}', { status: 201 }))
+    const uploader = createFormDataUploader<{ id: string }>({
+      url: '/api/avatars',
+      fieldName: 'avatar',
+      fields: { userId: '42' },
+      headers: { Authorization: 'Bearer token' },
+      transport: createFetchTransport(fetchStub),
+    })
+    const file = createFile()
+
+    const result = await uploadWithRetry(uploader, file)
+
+    expect(result).toEqual({ ok: true, data: { id: 'abc' }, attempts: 1 })
+    const [url, init] = fetchStub.mock.calls[0]!
+    expect(url).toBe('/api/avatars')
+    expect(init?.method).toBe('POST')
+    expect(init?.headers).toEqual({ Authorization: 'Bearer token' })
+    const body = init?.body as FormData
+    expect(body.get('userId')).toBe('42')
+    expect((body.get('avatar') as File).name).toBe('photo.webp')
+  })
+
+  it('回應不是 JSON 時回傳原始文字', async () => {
+    const uploader = createFormDataUploader({
+      url: '/upload',
+      transport: createFetchTransport(createFetchStub(new Response('saved'))),
+    })
+
+    const result = await uploadWithRetry(uploader, createFile())
+
+    expect(result.ok && result.data).toBe('saved')
+  })
+})
+
+describe('createPresignedUrlUploader', () => {
+  it('以 PUT 上傳到預先簽署的網址', async () => {
+    const fetchStub = createFetchStub(new Response(null, { status: 200 }))
+    const getUploadUrl = vi.fn().mockResolvedValue({
+      url: 'https://bucket.example.com/photo.webp?signature=abc',
+      headers: { 'x-amz-acl': 'public-read' },
+    })
+    const uploader = createPresignedUrlUploader({
+      getUploadUrl,
+      transport: createFetchTransport(fetchStub),
+    })
+    const file = createFile()
+
+    const result = await uploadWithRetry(uploader, file)
+
+    expect(result).toEqual({
+      ok: true,
+      data: { url: 'https://bucket.example.com/photo.webp' },
+      attempts: 1,
+    })
+    expect(getUploadUrl).toHaveBeenCalledWith(file, expect.any(AbortSignal))
+    const [, init] = fetchStub.mock.calls[0]!
+    expect(init?.method).toBe('PUT')
+    expect(init?.body).toBe(file)
+    expect(init?.headers).toEqual({ 'Content-Type': 'image/webp', 'x-amz-acl': 'public-read' })
+  })
+
+  it('有 fileUrl 時回傳 fileUrl', async () => {
+    const uploader = createPresignedUrlUploader({
+      getUploadUrl: async () => ({
+        url: 'https://bucket.example.com/tmp?signature=abc',
+        fileUrl: 'https://cdn.example.com/photo.webp',
+      }),
+      transport: createFetchTransport(createFetchStub(new Response(null))),
+    })
+
+    const result = await uploadWithRetry(uploader, createFile())
+
+    expect(result.ok && result.data).toEqual({ url: 'https://cdn.example.com/photo.webp' })
+  })
+
+  it('無法取得上傳網址時視為網路錯誤', async () => {
+    const uploader = createPresignedUrlUploader({
+      getUploadUrl: async () => {
+        throw new Error('Failed to fetch')
+      },
+    })
+
+    const result = await uploadWithRetry(uploader, createFile(), { retry: { retries: 0 } })
+
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.error.code).toBe('network-error')
+  })
+})
+
+describe('uploadWithRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('伺服器錯誤時重試直到成功', async () => {
+    const fetchStub = createFetchStub(
+      new Response('', { status: 503 }),
+      new Error('Network down'),
+      new Response('{}'),
+    )
+    const uploader = createFormDataUploader({
+      url: '/upload',
+      transport: createFetchTransport(fetchStub),
+    })
+    const onRetry = vi.fn()
+
+    const result = await uploadWithRetry(uploader, createFile(), { retry: NO_DELAY, onRetry })
+
+    expect(result).toEqual({ ok: true, data: {}, attempts: 3 })
+    expect(onRetry.mock.calls).toEqual([[2], [3]])
+  })
+
+  it('超過重試次數時回傳最後一次的錯誤', async () => {
+    const fetchStub = createFetchStub(
+      new Response('', { status: 500 }),
+      new Response('', { status: 502 }),
+    )
+    const uploader = createFormDataUploader({
+      url: '/upload',
+      transport: createFetchTransport(fetchStub),
+    })
+
+    const result = await uploadWithRetry(uploader, createFile(), {
+      retry: { ...NO_DELAY, retries: 1 },
+    })
+
+    expect(result.ok).toBe(false)
+    expect(result.attempts).toBe(2)
+    expect(!result.ok && result.error).toBeInstanceOf(UploadError)
+    expect(!result.ok && result.error.status).toBe(502)
+  })
+
+  it('用戶端錯誤 (4xx) 不重試', async () => {
+    const fetchStub = createFetchStub(new Response('', { status: 413 }))
+    const uploader = createFormDataUploader({
+      url: '/upload',
+      transport: createFetchTransport(fetchStub),
+    })
+
+    const result = await uploadWithRetry(uploader, createFile(), { retry: NO_DELAY })
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(!result.ok && result.error.code).toBe('http-error')
+    expect(!result.ok && result.error.status).toBe(413)
+  })
+
+  it('等待重試期間取消時回傳 aborted', async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const fetchStub = createFetchStub(new Response('', { status: 500 }), new Response('{}'))
+    const uploader = createFormDataUploader({
+      url: '/upload',
+      transport: createFetchTransport(fetchStub),
+    })
+
+    const pending = uploadWithRetry(uploader, createFile(), {
+      retry: { baseDelay: 1000 },
+      signal: controller.signal,
+    })
+    await vi.advanceTimersByTimeAsync(500)
+    controller.abort()
+    const result = await pending
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(!result.ok && result.error.code).toBe('aborted')
+  })
+
+  it('上傳期間取消時回傳 aborted 且不重試', async () => {
+    const controller = new AbortController()
+    const fetchStub = vi.fn<typeof fetch>(async () => {
+      controller.abort()
+      throw new DOMException('Aborted', 'AbortError')
+    })
+    const uploader = createFormDataUploader({
+      url: '/upload',
+      transport: createFetchTransport(fetchStub),
+    })
+
+    const result = await uploadWithRetry(uploader, createFile(), {
+      retry: NO_DELAY,
+      signal: controller.signal,
+    })
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(result).toMatchObject({ ok: false, attempts: 1 })
+    expect(!result.ok && result.error.code).toBe('aborted')
+  })
+
+  it('parseResponse 拋出錯誤時回傳 invalid-response 且不重試', async () => {
+    const fetchStub = createFetchStub(new Response('<html>'), new Response('{}'))
+    const uploader = createFormDataUploader({
+      url: '/upload',
+      transport: createFetchTransport(fetchStub),
+      parseResponse: (response) => JSON.parse(response.body) as unknown,
+    })
+
+    const result = await uploadWithRetry(uploader, createFile(), { retry: NO_DELAY })
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(result).toMatchObject({ ok: false, attempts: 1 })
+    expect(!result.ok && result.error.code).toBe('invalid-response')
+  })
+
+  it('parseResponse 拋出的 UploadError 照常回報', async () => {
+    const uploader = createFormDataUploader({
+      url: '/upload',
+      transport: createFetchTransport(createFetchStub(new Response('{"ok":false}'))),
+      parseResponse: () => {
+        throw new UploadError('http-error', 400)
+      },
+    })
+
+    const result = await uploadWithRetry(uploader, createFile(), { retry: NO_DELAY })
+
+    expect(!result.ok && result.error.code).toBe('http-error')
+    expect(!result.ok && result.error.status).toBe(400)
+  })
+
+  it('讀取回應內容失敗時視為網路錯誤並重試', async () => {
+    const broken = new Response('{}')
+    vi.spyOn(broken, 'text').mockRejectedValue(new TypeError('network error'))
+    const fetchStub = createFetchStub(broken, new Response('{}'))
+    const uploader = createFormDataUploader({
+      url: '/upload',
+      transport: createFetchTransport(fetchStub),
+    })
+
+    const result = await uploadWithRetry(uploader, createFile(), { retry: NO_DELAY })
+
+    expect(result).toEqual({ ok: true, data: {}, attempts: 2 })
+  })
+
+  it('自訂轉接器拋出 UploadError 以外的錯誤時回傳 upload-failed 且不重試', async () => {
+    const upload = vi.fn(async () => {
+      throw new Error('Unexpected')
+    })
+
+    const result = await uploadWithRetry({ upload }, createFile(), { retry: NO_DELAY })
+
+    expect(upload).toHaveBeenCalledTimes(1)
+    expect(!result.ok && result.error.code).toBe('upload-failed')
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { ExportFormat } from '../imageUtils'
+import type { EncodeRequest, EncodeResponse } from '../workerEncoder'
+
+/**
+ * 模擬 Canvas (與 imageUtils.spec 相同：檔案大小 = quality * 1000 bytes)
+ */
+const createMockCanvas = () => {
+  const toBlob = vi.fn((callback: BlobCallback, type: ExportFormat, quality: number) => {
+    callback(new Blob([new Uint8Array(Math.round(quality * 1000))], { type }))
+  })
+  const data = new Uint8ClampedArray(10 * 10 * 4).fill(255)
+  const getContext = () => ({ getImageData: () => ({ data }) })
+
+  return {
+    canvas: { width: 10, height: 10, toBlob, getContext } as unknown as HTMLCanvasElement,
+    toBlob,
+  }
+}
+
+/**
+ * 模擬 Worker：收到訊息後以 respond 產生回應
+ * - 'error' / 'messageerror'：觸發 Worker 的對應事件
+ * - 'hang'：不回應 (模擬卡住或被 CSP 擋下)
+ */
+const stubWorker = (
+  respond: (request: EncodeRequest) => EncodeResponse | 'error' | 'messageerror' | 'hang',
+) => {
+  const instances: MockWorker[] = []
+
+  class MockWorker extends EventTarget {
+    postMessage = vi.fn((request: EncodeRequest) => {
+      queueMicrotask(() => {
+        const response = respond(request)
+        if (response === 'hang') return
+        if (response === 'error') {
+          this.dispatchEvent(new ErrorEvent('error', { message: 'boom', cancelable: true }))
+        } else if (response === 'messageerror') {
+          this.dispatchEvent(new MessageEvent('messageerror'))
+        } else {
+          this.dispatchEvent(new MessageEvent('message', { data: response }))
+        }
+      })
+    })
+    terminate = vi.fn()
+
+    constructor() {
+      super()
+      instances.push(this)
+    }
+  }
+
+  vi.stubGlobal('Worker', MockWorker)
+  vi.stubGlobal(
+    'OffscreenCanvas',
+    class {
+      convertToBlob() {}
+    },
+  )
+  vi.stubGlobal(
+    'createImageBitmap',
+    vi.fn(async () => ({ width: 10, height: 10, close: vi.fn() })),
+  )
+
+  return instances
+}
+
+// Worker 為模組層級的單例，每個測試重新載入模組
+const loadModule = () => import('../workerEncoder')
+
+describe('encodeImage', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('不支援 OffscreenCanvas 時在主執行緒編碼', async () => {
+    const { encodeImage, isWorkerEncodingSupported } = await loadModule()
+    const { canvas, toBlob } = createMockCanvas()
+
+    expect(isWorkerEncodingSupported()).toBe(false)
+
+    const result = await encodeImage(canvas)
+
+    expect(toBlob).toHaveBeenCalled()
+    expect(result.mimeType).toBe('image/webp')
+  })
+
+  it('支援時轉移 ImageBitmap 給 Worker 編碼', async () => {
+    const blob = new Blob(['worker'], { type: 'image/jpeg' })
+    const workers = stubWorker(({ id }) => ({
+      id,
+      result: { blob, mimeType: 'image/jpeg', extension: '.jpg' },
+    }))
+    const { encodeImage } = await loadModule()
+    const { canvas, toBlob } = createMockCanvas()
+
+    const result = await encodeImage(canvas, { formats: ['image/jpeg'] })
+
+    expect(result.blob).toBe(blob)
+    expect(toBlob).not.toHaveBeenCalled()
+
+    const [request, transfer] = workers[0]!.postMessage.mock.calls[0] as unknown as [
+      EncodeRequest,
+      Transferable[],
+    ]
+    expect(request.options).toEqual({ formats: ['image/jpeg'] })
+    expect(transfer).toEqual([request.bitmap])
+  })
+
+  it('多次編碼共用同一個 Worker', async () => {
+    const workers = stubWorker(({ id }) => ({
+      id,
+      result: { blob: new Blob([String(id)]), mimeType: 'image/webp', extension: '.webp' },
+    }))
+    const { encodeImage } = await loadModule()
+    const { canvas } = createMockCanvas()
+
+    const [first, second] = await Promise.all([encodeImage(canvas), encodeImage(canvas)])
+
+    expect(workers).toHaveLength(1)
+    expect(await first.blob.text()).toBe('0')
+    expect(await second.blob.text()).toBe('1')
+  })
+
+  it('Worker 回傳 ExportError 代碼時直接拋出，不改走主執行緒', async () => {
+    stubWorker(({ id }) => ({ id, error: { code: 'exceeds-max-bytes' } }))
+    const { encodeImage } = await loadModule()
+    // resetModules 後需使用重新載入的 ExportError 判斷
+    const { ExportError } = await import('../imageUtils')
+    const { canvas, toBlob } = createMockCanvas()
+
+    const error = await encodeImage(canvas, { maxBytes: 1 }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(ExportError)
+    expect(error.code).toBe('exceeds-max-bytes')
+    expect(toBlob).not.toHaveBeenCalled()
+  })
+
+  it('Worker 執行失敗時改在主執行緒編碼', async () => {
+    const workers = stubWorker(() => 'error')
+    const { encodeImage } = await loadModule()
+    const { canvas, toBlob } = createMockCanvas()
+
+    const result = await encodeImage(canvas)
+
+    expect(toBlob).toHaveBeenCalled()
+    expect(result.mimeType).toBe('image/webp')
+    expect(workers[0]!.terminate).toHaveBeenCalled()
+  })
+  it('Worker 回應無法還原時改在主執行緒編碼', async () => {
+    const workers = stubWorker(() => 'messageerror')
+    const { encodeImage } = await loadModule()
+    const { canvas, toBlob } = createMockCanvas()
+
+    const result = await encodeImage(canvas)
+
+    expect(toBlob).toHaveBeenCalled()
+    expect(result.mimeType).toBe('image/webp')
+    expect(workers[0]!.terminate).toHaveBeenCalled()
+  })
+
+  it('Worker 沒有回應時逾時改在主執行緒編碼，下次重新建立 Worker', async () => {
+    vi.useFakeTimers()
+    try {
+      const workers = stubWorker(() => 'hang')
+      const { encodeImage, WORKER_ENCODE_TIMEOUT_MS } = await loadModule()
+      const { canvas, toBlob } = createMockCanvas()
+
+      const pending = encodeImage(canvas)
+      await vi.advanceTimersByTimeAsync(WORKER_ENCODE_TIMEOUT_MS)
+      const result = await pending
+
+      expect(toBlob).toHaveBeenCalled()
+      expect(result.mimeType).toBe('image/webp')
+      expect(workers[0]!.terminate).toHaveBeenCalled()
+
+      void encodeImage(canvas)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(workers).toHaveLength(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
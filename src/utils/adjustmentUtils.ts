@@ -0,0 +1,313 @@
+import type { CropperSelection } from 'cropperjs'
+import type { PixelBuffer } from './resampleUtils'
+
+/**
+ * 濾鏡預設值
+ * - none: 原色
+ * - grayscale: 黑白
+ * - sepia: 復古 (棕褐色)
+ */
+export type AdjustmentFilter = 'none' | 'grayscale' | 'sepia'
+
+/**
+ * 圖片調整 (亮度、對比、飽和度、曝光、濾鏡與銳利化)
+ *
+ * @description
+ * 皆為可序列化的數值，會隨裁切結果 (CropResultInfo.adjustments) 一起輸出，供後端重現或下次編輯時參考。
+ */
+export interface ImageAdjustments {
+  /** 亮度 (-100 ~ 100，0 為原圖) */
+  brightness: number
+  /** 對比 (-100 ~ 100，0 為原圖) */
+  contrast: number
+  /** 飽和度 (-100 ~ 100，0 為原圖，-100 為無彩度) */
+  saturation: number
+  /** 曝光 (EV，-2 ~ 2，每 +1 亮度加倍) */
+  exposure: number
+  /** 濾鏡預設值 */
+  filter: AdjustmentFilter
+  /** 銳利化強度 (0 ~ 100) */
+  sharpen: number
+}
+
+/**
+ * 未調整的預設值
+ * @constant
+ */
+export const DEFAULT_IMAGE_ADJUSTMENTS: Readonly<ImageAdjustments> = Object.freeze({
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  exposure: 0,
+  filter: 'none',
+  sharpen: 0,
+})
+
+/**
+ * 各調整項目的範圍 (調整面板的滑桿範圍)
+ * @constant
+ */
+export const ADJUSTMENT_RANGES = {
+  brightness: { min: -100, max: 100, step: 1 },
+  contrast: { min: -100, max: 100, step: 1 },
+  saturation: { min: -100, max: 100, step: 1 },
+  exposure: { min: -2, max: 2, step: 0.1 },
+  sharpen: { min: 0, max: 100, step: 1 },
+} as const
+
+/**
+ * 可用滑桿調整的項目 (濾鏡預設值以外)
+ */
+export type AdjustmentSlider = keyof typeof ADJUSTMENT_RANGES
+
+/**
+ * 判斷是否有任何調整 (沒有時匯出可略過像素處理)
+ */
+export const isDefaultAdjustments = (adjustments: ImageAdjustments) =>
+  (Object.keys(DEFAULT_IMAGE_ADJUSTMENTS) as (keyof ImageAdjustments)[]).every(
+    (key) => adjustments[key] === DEFAULT_IMAGE_ADJUSTMENTS[key],
+  )
+
+/**
+ * 將色彩調整換算為 CSS filter 函式 (不含銳利化)
+ *
+ * @description
+ * 套用順序為「曝光 → 亮度 → 對比 → 飽和度 → 濾鏡」，與 adjustPixels 相同。
+ * 曝光以 2^EV 的亮度倍率表示，其他項目以 1 ± 數值 / 100 的倍率表示。
+ */
+const toColorFilterFunctions = (adjustments: ImageAdjustments) => {
+  const functions: string[] = []
+  if (adjustments.exposure) functions.push(`brightness(${2 ** adjustments.exposure})`)
+  if (adjustments.brightness) functions.push(`brightness(${1 + adjustments.brightness / 100})`)
+  if (adjustments.contrast) functions.push(`contrast(${1 + adjustments.contrast / 100})`)
+  if (adjustments.saturation) functions.push(`saturate(${1 + adjustments.saturation / 100})`)
+  if (adjustments.filter !== 'none') functions.push(`${adjustments.filter}(1)`)
+  return functions
+}
+
+/**
+ * 將調整換算為 CSS filter (編輯器與預覽的即時顯示)
+ *
+ * @description
+ * CSS 沒有銳利化的濾鏡函式，指定 sharpenFilterId 時以 url(#id) 參照 SVG 的 feConvolveMatrix (見 getSharpenKernel)。
+ *
+ * @param {ImageAdjustments} adjustments - 圖片調整
+ * @param {string} [sharpenFilterId] - 銳利化 SVG filter 的 id，未指定時忽略銳利化
+ * @returns {string} CSS filter，沒有任何調整時為 'none'
+ *
+ * @example
+ * toCssFilter({ ...DEFAULT_IMAGE_ADJUSTMENTS, brightness: 20, filter: 'grayscale' })
+ * // 'brightness(1.2) grayscale(1)'
+ */
+export const toCssFilter = (adjustments: ImageAdjustments, sharpenFilterId?: string) => {
+  const functions = toColorFilterFunctions(adjustments)
+  if (sharpenFilterId && adjustments.sharpen > 0) functions.push(`url(#${sharpenFilterId})`)
+  return functions.length ? functions.join(' ') : 'none'
+}
+
+/**
+ * 取得銳利化的 3x3 卷積核 (Unsharp 的簡化版：中心加強、上下左右減去)
+ *
+ * @param {number} sharpen - 銳利化強度 (0 ~ 100)
+ * @returns {number[]} 以列為主的 9 個權重 (總和為 1，平坦區域顏色不變)
+ */
+export const getSharpenKernel = (sharpen: number) => {
+  const amount = sharpen / 100
+  return [0, -amount, 0, -amount, 1 + 4 * amount, -amount, 0, -amount, 0]
+}
+
+// CSS Filter Effects 規範中 saturate / grayscale / sepia 對應的色彩矩陣 (sRGB)
+const saturateMatrix = (s: number) => [
+  0.213 + 0.787 * s,
+  0.715 - 0.715 * s,
+  0.072 - 0.072 * s,
+  0.213 - 0.213 * s,
+  0.715 + 0.285 * s,
+  0.072 - 0.072 * s,
+  0.213 - 0.213 * s,
+  0.715 - 0.715 * s,
+  0.072 + 0.928 * s,
+]
+
+const GRAYSCALE_MATRIX = [0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722]
+
+const SEPIA_MATRIX = [0.393, 0.769, 0.189, 0.349, 0.686, 0.168, 0.272, 0.534, 0.131]
+
+const clampChannel = (value: number) => Math.min(Math.max(value, 0), 255)
+
+/**
+ * 以像素套用色彩調整 (不含銳利化)
+ *
+ * @description
+ * 與 CSS filter 相同的公式與順序，作為不支援 CanvasRenderingContext2D.filter 的瀏覽器 (舊版 Safari) 的後備方案，
+ * 確保匯出結果與即時預覽一致。每個步驟後都限制在 0 ~ 255，與瀏覽器逐一套用濾鏡函式的行為相同；Alpha 不變。
+ *
+ * @param {PixelBuffer} pixels - RGBA 像素資料
+ * @param {ImageAdjustments} adjustments - 圖片調整
+ * @returns {PixelBuffer} 新的像素資料 (不修改原資料)
+ */
+export const adjustPixels = (pixels: PixelBuffer, adjustments: ImageAdjustments): PixelBuffer => {
+  const gain = 2 ** adjustments.exposure
+  const brightness = 1 + adjustments.brightness / 100
+  const contrast = 1 + adjustments.contrast / 100
+  const saturation = adjustments.saturation
+    ? saturateMatrix(1 + adjustments.saturation / 100)
+    : null
+  const filterMatrix =
+    adjustments.filter === 'grayscale'
+      ? GRAYSCALE_MATRIX
+      : adjustments.filter === 'sepia'
+        ? SEPIA_MATRIX
+        : null
+
+  const source = pixels.data
+  const data = new Uint8ClampedArray(source.length)
+  const rgb = [0, 0, 0]
+
+  const applyMatrix = (matrix: number[]) => {
+    const [r, g, b] = rgb as [number, number, number]
+    for (let channel = 0; channel < 3; channel++) {
+      const row = channel * 3
+      rgb[channel] = clampChannel(matrix[row]! * r + matrix[row + 1]! * g + matrix[row + 2]! * b)
+    }
+  }
+
+  for (let i = 0; i < source.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      let value = clampChannel(source[i + channel]! * gain)
+      value = clampChannel(value * brightness)
+      value = clampChannel((value - 127.5) * contrast + 127.5)
+      rgb[channel] = value
+    }
+
+    if (saturation) applyMatrix(saturation)
+    if (filterMatrix) applyMatrix(filterMatrix)
+
+    data[i] = rgb[0]!
+    data[i + 1] = rgb[1]!
+    data[i + 2] = rgb[2]!
+    data[i + 3] = source[i + 3]!
+  }
+
+  return { data, width: pixels.width, height: pixels.height }
+}
+
+/**
+ * 以 3x3 卷積銳利化像素 (與 getSharpenKernel 相同的權重)
+ *
+ * @description
+ * 邊緣像素以最近的像素補齊 (避免邊框變暗)，只處理 RGB，Alpha 不變。
+ *
+ * @param {PixelBuffer} pixels - RGBA 像素資料
+ * @param {number} sharpen - 銳利化強度 (0 ~ 100)
+ * @returns {PixelBuffer} 新的像素資料 (強度為 0 時直接回傳原資料)
+ */
+export const sharpenPixels = (pixels: PixelBuffer, sharpen: number): PixelBuffer => {
+  if (sharpen <= 0) return pixels
+
+  const amount = sharpen / 100
+  const { data: source, width, height } = pixels
+  const data = new Uint8ClampedArray(source.length)
+  const indexOf = (x: number, y: number) =>
+    (Math.min(Math.max(y, 0), height - 1) * width + Math.min(Math.max(x, 0), width - 1)) * 4
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = indexOf(x, y)
+      const top = indexOf(x, y - 1)
+      const bottom = indexOf(x, y + 1)
+      const left = indexOf(x - 1, y)
+      const right = indexOf(x + 1, y)
+
+      for (let channel = 0; channel < 3; channel++) {
+        const neighbors =
+          source[top + channel]! +
+          source[bottom + channel]! +
+          source[left + channel]! +
+          source[right + channel]!
+        data[center + channel] = (1 + 4 * amount) * source[center + channel]! - amount * neighbors
+      }
+      data[center + 3] = source[center + 3]!
+    }
+  }
+
+  return { data, width, height }
+}
+
+/**
+ * 在 $toCanvas 的 beforeDraw 中設定色彩調整的 Canvas filter
+ *
+ * @description
+ * beforeDraw 在繪製圖片之前呼叫，設定 context.filter 後圖片會以相同的 CSS filter 繪製 (與即時預覽一致)。
+ * 瀏覽器不支援 context.filter 時，設定會被忽略，回傳 false 讓呼叫端改以 applyCanvasAdjustments 的像素處理補上。
+ *
+ * @param {CanvasRenderingContext2D} context - $toCanvas 的繪圖 context
+ * @param {ImageAdjustments} adjustments - 圖片調整
+ * @returns {boolean} 色彩調整是否已由 context.filter 處理 (沒有色彩調整時也視為已處理)
+ */
+export const applyContextFilter = (
+  context: CanvasRenderingContext2D,
+  adjustments: ImageAdjustments,
+) => {
+  const functions = toColorFilterFunctions(adjustments)
+  if (!functions.length) return true
+  if (!('filter' in context)) return false
+
+  const filter = functions.join(' ')
+  context.filter = filter
+  return context.filter === filter
+}
+
+/**
+ * 將 beforeDraw 未處理的調整 (銳利化、不支援 context.filter 時的色彩調整) 以像素套用到 Canvas
+ *
+ * @param {HTMLCanvasElement} canvas - $toCanvas 產生的 Canvas
+ * @param {ImageAdjustments} adjustments - 圖片調整
+ * @param {boolean} isColorApplied - 色彩調整是否已由 applyContextFilter 處理
+ */
+export const applyCanvasAdjustments = (
+  canvas: HTMLCanvasElement,
+  adjustments: ImageAdjustments,
+  isColorApplied: boolean,
+) => {
+  if (isColorApplied && adjustments.sharpen <= 0) return
+
+  const context = canvas.getContext('2d')
+  if (!context || !canvas.width || !canvas.height) return
+
+  let pixels: PixelBuffer = context.getImageData(0, 0, canvas.width, canvas.height)
+  if (!isColorApplied) pixels = adjustPixels(pixels, adjustments)
+  pixels = sharpenPixels(pixels, adjustments.sharpen)
+
+  context.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0)
+}
+
+/**
+ * 以調整後的顏色輸出裁切結果 (取代 selection.$toCanvas)
+ *
+ * @description
+ * 色彩調整在 beforeDraw 以 context.filter 繪製，銳利化 (以及不支援 context.filter 時的色彩調整) 再以像素處理補上。
+ * 沒有任何調整時與 selection.$toCanvas 相同。
+ *
+ * @param {CropperSelection} selection - 裁切框
+ * @param {{ width: number; height: number }} size - 輸出尺寸
+ * @param {ImageAdjustments} [adjustments] - 圖片調整
+ * @returns {Promise<HTMLCanvasElement>} 裁切結果
+ */
+export const toAdjustedCanvas = async (
+  selection: CropperSelection,
+  size: { width: number; height: number },
+  adjustments?: ImageAdjustments,
+) => {
+  if (!adjustments || isDefaultAdjustments(adjustments)) return selection.$toCanvas(size)
+
+  let isColorApplied = false
+  const canvas = await selection.$toCanvas({
+    ...size,
+    beforeDraw: (context) => {
+      isColorApplied = applyContextFilter(context, adjustments)
+    },
+  })
+  applyCanvasAdjustments(canvas, adjustments, isColorApplied)
+  return canvas
+}
@@ -0,0 +1,545 @@
+import { resamplePixels, type ResamplingMethod } from './resampleUtils'
+
+/**
+ * 圖片編碼 (縮放、遮罩與格式 / 品質選擇)
+ *
+ * [為什麼與 imageUtils.ts 分開？]
+ * 編碼 Worker (imageEncoder.worker.ts) 只需要這裡的純 Canvas 運算。
+ * imageUtils.ts 依賴 i18n 與 composables (會一併打包 Vue)，因此本模組不可引入 Vue、i18n 或 composables。
+ */
+
+/**
+ * 圖片匯出品質設定
+ * @constant
+ * @description
+ * 設定為 0.92 (92%) 是為了避免檔案大小膨脹。
+ * 當使用 1.0 (100%) 時，瀏覽器會使用極低的壓縮率，導致產出的圖片檔案大小可能遠大於原始檔案。
+ * 0.92 是一個在品質與檔案大小之間取得良好平衡的數值，通常能產出與原圖大小相近的結果。
+ */
+export const EXPORT_IMAGE_QUALITY = 0.92
+
+/**
+ * WebP 圖片匯出品質設定
+ * @constant
+ * @description
+ * 設定為 0.95 (95%)。WebP 的壓縮效率優於 JPEG，即使在高品質下也能保持較小的檔案大小。
+ * 使用 0.95 可以獲得接近無損的視覺品質，同時檔案大小通常仍小於 JPEG (0.92)。
+ */
+export const EXPORT_WEBP_QUALITY = 0.95
+
+/**
+ * 支援匯出的圖片格式 (MIME types)
+ */
+export type ExportFormat = 'image/webp' | 'image/jpeg' | 'image/png' | 'image/avif'
+
+/**
+ * 裁切形狀
+ * - rect: 矩形 (預設)
+ * - circle: 圓形 (裁切框不是正方形時為內切橢圓)
+ * - rounded: 圓角矩形
+ */
+export type CropShape = 'rect' | 'circle' | 'rounded'
+
+/**
+ * 裁切形狀遮罩
+ */
+export interface CropMask {
+  shape: CropShape
+  /** 圓角半徑 (短邊的比例，0 ~ 0.5)，僅 rounded 使用，預設 0.1 */
+  radius?: number
+}
+
+/**
+ * 遮罩在輸出圖片上的幾何資訊 (像素)
+ * @description 與 CSS border-radius 相同的描述方式：circle 為 width / 2、height / 2，rect 為 0
+ */
+export interface CropMaskGeometry {
+  shape: CropShape
+  /** 輸出圖片寬度 */
+  width: number
+  /** 輸出圖片高度 */
+  height: number
+  /** 水平圓角半徑 */
+  radiusX: number
+  /** 垂直圓角半徑 */
+  radiusY: number
+}
+
+/**
+ * 圖片匯出設定
+ */
+export interface ExportOptions {
+  /** 偏好的輸出格式 (依序嘗試，瀏覽器不支援時自動改用下一個)，預設 ['image/webp', 'image/jpeg'] */
+  formats?: ExportFormat[]
+  /** 各格式的匯出品質 (0~1)，未指定時使用預設值 */
+  quality?: Partial<Record<ExportFormat, number>>
+  /** 輸出寬度 (像素)，指定時依比例縮放 (可放大) 至此寬度，仍受 maxWidth / maxHeight / fitWithin 限制 */
+  width?: number
+  /** 輸出最大寬度 (像素) */
+  maxWidth?: number
+  /** 輸出最大高度 (像素) */
+  maxHeight?: number
+  /** 輸出最長邊上限 (像素)，例如 1080 表示寬高皆不超過 1080 */
+  fitWithin?: number
+  /** 檔案大小上限 (bytes)，超過時會逐步降低品質直到符合 */
+  maxBytes?: number
+  /** 以 maxBytes 搜尋品質時的最低品質 (0~1)，預設 0.1 */
+  minQuality?: number
+  /** 背景色 (CSS color)，指定時會將透明區域填滿此顏色後再匯出 */
+  backgroundColor?: string
+  /** 縮小輸出尺寸時使用的縮圖演算法，預設 'browser' (放大時一律交由瀏覽器處理) */
+  resampling?: ResamplingMethod
+  /** 裁切形狀遮罩，非矩形時遮罩外的像素為透明 (未指定 backgroundColor 時改用支援透明度的格式) */
+  mask?: CropMask
+}
+
+/**
+ * 圖片匯出結果介面
+ */
+export interface OptimizedBlobResult {
+  /** 圖片 Blob 物件 */
+  blob: Blob
+  /** 圖片 MIME type (例如: image/webp) */
+  mimeType: string
+  /** 建議的檔案副檔名 (包含點號，例如: .webp) */
+  extension: string
+}
+
+/**
+ * 匯出錯誤代碼
+ * - exceeds-max-bytes: 所有格式在最低品質下仍超過 maxBytes
+ * - unsupported-format: 瀏覽器不支援任何指定的格式
+ * - tainted-canvas: 跨來源圖片未以 CORS 載入，Canvas 被污染而無法讀取像素
+ */
+export type ExportErrorCode = 'exceeds-max-bytes' | 'unsupported-format' | 'tainted-canvas'
+
+/**
+ * 編碼錯誤 (不含語系訊息)
+ *
+ * @description 由 getOptimizedBlob 轉為 ExportError；Worker 內只傳 code 回主執行緒
+ */
+export class EncodeError extends Error {
+  readonly code: ExportErrorCode
+
+  constructor(code: ExportErrorCode) {
+    super(code)
+    this.name = 'EncodeError'
+    this.code = code
+  }
+}
+
+/**
+ * 預設輸出格式順序：WebP 優先，不支援時 Fallback 回 JPEG
+ * @constant
+ */
+const DEFAULT_EXPORT_FORMATS: ExportFormat[] = ['image/webp', 'image/jpeg']
+
+/**
+ * 各格式的預設匯出品質
+ * @constant
+ * @description PNG 為無損格式，品質參數會被瀏覽器忽略
+ */
+const DEFAULT_EXPORT_QUALITY: Record<ExportFormat, number> = {
+  'image/webp': EXPORT_WEBP_QUALITY,
+  'image/jpeg': EXPORT_IMAGE_QUALITY,
+  'image/png': 1,
+  'image/avif': EXPORT_WEBP_QUALITY,
+}
+
+/**
+ * 各格式對應的副檔名
+ * @constant
+ */
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  'image/webp': '.webp',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/avif': '.avif',
+}
+
+/**
+ * 支援透明度 (Alpha channel) 的輸出格式
+ * @constant
+ */
+const ALPHA_CAPABLE_FORMATS: readonly ExportFormat[] = ['image/webp', 'image/png', 'image/avif']
+
+/**
+ * 預設縮圖演算法
+ * @constant
+ * @description
+ * resamplePixels 以 Float32Array 處理像素 (每像素約 16 bytes，另加暫存緩衝區)，1200 萬像素的裁切結果需要 200MB 以上，
+ * 在主執行緒 (不支援 Worker 時) 可能凍結畫面或耗盡記憶體，因此預設仍交由瀏覽器縮放，需要時再以 resampling 指定
+ */
+const DEFAULT_RESAMPLING: ResamplingMethod = 'browser'
+
+/**
+ * 預設圓角半徑 (短邊的比例)
+ * @constant
+ */
+export const DEFAULT_MASK_RADIUS = 0.1
+
+/**
+ * 以 maxBytes 搜尋品質時的預設最低品質
+ * @constant
+ */
+const DEFAULT_MIN_QUALITY = 0.1
+
+/**
+ * 品質二分搜尋的最大次數
+ * @constant
+ * @description 6 次可將品質精確到約 0.015，再多對檔案大小的影響已不明顯
+ */
+const QUALITY_SEARCH_STEPS = 6
+
+/**
+ * 可匯出的 Canvas
+ * @description 主執行緒使用 HTMLCanvasElement，Web Worker 內使用 OffscreenCanvas (見 imageEncoder.worker.ts)
+ */
+export type EncodableCanvas = HTMLCanvasElement | OffscreenCanvas
+
+// Worker 內沒有 HTMLCanvasElement，因此以 convertToBlob 判斷是否為 OffscreenCanvas
+const isOffscreenCanvas = (canvas: EncodableCanvas): canvas is OffscreenCanvas =>
+  'convertToBlob' in canvas
+
+/**
+ * 建立與來源相同種類的 Canvas
+ */
+const createCanvas = (source: EncodableCanvas, width: number, height: number): EncodableCanvas => {
+  if (isOffscreenCanvas(source)) return new OffscreenCanvas(width, height)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+const getContext2d = (canvas: EncodableCanvas) =>
+  isOffscreenCanvas(canvas) ? canvas.getContext('2d') : canvas.getContext('2d')
+
+// 跨來源圖片未以 CORS 載入時 Canvas 會被污染 (tainted)，讀取像素或編碼時瀏覽器拋出 SecurityError
+const isSecurityError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'SecurityError'
+
+/**
+ * 將 Canvas 匯出為 Blob 的 Promise 包裝
+ * @description OffscreenCanvas 不支援指定格式時 convertToBlob 可能 reject，統一以 null 表示失敗
+ */
+const canvasToBlob = (
+  canvas: EncodableCanvas,
+  type: ExportFormat,
+  quality: number,
+): Promise<Blob | null> => {
+  if (isOffscreenCanvas(canvas)) {
+    // 不支援的格式視為無法輸出 (改試下一個格式)，SecurityError 則交由 encodeCanvas 回報
+    return canvas.convertToBlob({ type, quality }).catch((error: unknown) => {
+      if (isSecurityError(error)) throw error
+      return null
+    })
+  }
+
+  return new Promise((resolve) => {
+    canvas.toBlob(resolve, type, quality)
+  })
+}
+
+/**
+ * 依照匯出設定計算輸出尺寸 (只縮小、不放大，並維持原比例)
+ *
+ * @param {number} width - 原始寬度 (像素)
+ * @param {number} height - 原始高度 (像素)
+ * @param {ExportOptions} options - 匯出設定
+ * @returns {{ width: number, height: number }} 輸出尺寸 (像素，已四捨五入且至少為 1)
+ *
+ * @description 指定 width 時改為縮放至該寬度 (可放大)，其餘限制仍只縮小
+ *
+ * @example
+ * calculateExportSize(4000, 3000, { fitWithin: 1000 }) // { width: 1000, height: 750 }
+ * calculateExportSize(400, 300, { width: 800 }) // { width: 800, height: 600 }
+ */
+export const calculateExportSize = (
+  width: number,
+  height: number,
+  options: Pick<ExportOptions, 'width' | 'maxWidth' | 'maxHeight' | 'fitWithin'> = {},
+) => {
+  const { maxWidth, maxHeight, fitWithin } = options
+  let scale = options.width && options.width > 0 ? options.width / width : 1
+
+  if (maxWidth && maxWidth > 0) scale = Math.min(scale, maxWidth / width)
+  if (maxHeight && maxHeight > 0) scale = Math.min(scale, maxHeight / height)
+  if (fitWithin && fitWithin > 0) scale = Math.min(scale, fitWithin / Math.max(width, height))
+
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  }
+}
+
+/**
+ * 將 Canvas 縮放至指定尺寸 (尺寸相同時直接回傳原 Canvas)
+ *
+ * [為什麼提供 drawImage 以外的縮圖演算法？]
+ * 編輯器的 toCanvas 以原圖解析度輸出，縮小到匯出尺寸時若只經過一次 drawImage，
+ * 瀏覽器只會取樣少數來源像素，布料紋路與文字容易出現鋸齒與摩爾紋。
+ * 因此指定 resampling 時，縮小改以 resamplePixels 處理像素資料；放大不會有此問題，仍交由瀏覽器插值。
+ */
+const resizeCanvas = (
+  canvas: EncodableCanvas,
+  width: number,
+  height: number,
+  method: ResamplingMethod,
+) => {
+  if (canvas.width === width && canvas.height === height) return canvas
+
+  const resized = createCanvas(canvas, width, height)
+
+  const context = getContext2d(resized)
+  if (!context) return canvas
+
+  const sourceContext = getContext2d(canvas)
+  const isDownscale = width <= canvas.width && height <= canvas.height
+
+  if (method !== 'browser' && isDownscale && sourceContext) {
+    const pixels = resamplePixels(
+      sourceContext.getImageData(0, 0, canvas.width, canvas.height),
+      width,
+      height,
+      method,
+    )
+    context.putImageData(new ImageData(pixels.data, width, height), 0, 0)
+    return resized
+  }
+
+  context.imageSmoothingEnabled = true
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(canvas, 0, 0, width, height)
+  return resized
+}
+
+/**
+ * 計算遮罩在指定輸出尺寸上的幾何資訊
+ *
+ * @param {CropMask} mask - 裁切形狀遮罩
+ * @param {{ width: number, height: number }} size - 輸出圖片尺寸 (像素)
+ * @returns {CropMaskGeometry} 遮罩的幾何資訊 (像素)
+ *
+ * @example
+ * getCropMaskGeometry({ shape: 'rounded', radius: 0.25 }, { width: 400, height: 200 })
+ * // { shape: 'rounded', width: 400, height: 200, radiusX: 50, radiusY: 50 }
+ */
+export const getCropMaskGeometry = (
+  mask: CropMask,
+  { width, height }: { width: number; height: number },
+): CropMaskGeometry => {
+  if (mask.shape === 'circle') {
+    return { shape: mask.shape, width, height, radiusX: width / 2, radiusY: height / 2 }
+  }
+
+  if (mask.shape === 'rounded') {
+    const ratio = Math.min(Math.max(mask.radius ?? DEFAULT_MASK_RADIUS, 0), 0.5)
+    const radius = Math.min(width, height) * ratio
+    return { shape: mask.shape, width, height, radiusX: radius, radiusY: radius }
+  }
+
+  return { shape: mask.shape, width, height, radiusX: 0, radiusY: 0 }
+}
+
+/**
+ * 將遮罩外的像素設為透明
+ * @description 於縮放後套用，讓邊緣的反鋸齒以輸出解析度計算
+ */
+const applyCropMask = (canvas: EncodableCanvas, mask: CropMask) => {
+  const masked = createCanvas(canvas, canvas.width, canvas.height)
+
+  const context = getContext2d(masked)
+  if (!context) return canvas
+
+  const { width, height, radiusX, radiusY } = getCropMaskGeometry(mask, canvas)
+
+  context.drawImage(canvas, 0, 0)
+  // destination-in 只保留與之後繪製的形狀重疊的像素
+  context.globalCompositeOperation = 'destination-in'
+  context.beginPath()
+  if (mask.shape === 'circle') {
+    context.ellipse(width / 2, height / 2, radiusX, radiusY, 0, 0, Math.PI * 2)
+  } else {
+    context.roundRect(0, 0, width, height, radiusX)
+  }
+  context.fill()
+  return masked
+}
+
+/**
+ * 將 Canvas 的透明區域填滿指定背景色
+ */
+const flattenCanvas = (canvas: EncodableCanvas, backgroundColor: string) => {
+  const flattened = createCanvas(canvas, canvas.width, canvas.height)
+
+  const context = getContext2d(flattened)
+  if (!context) return canvas
+
+  context.fillStyle = backgroundColor
+  context.fillRect(0, 0, flattened.width, flattened.height)
+  context.drawImage(canvas, 0, 0)
+  return flattened
+}
+
+/**
+ * 檢查 RGBA 像素資料中是否含有非完全不透明的像素
+ *
+ * @param {Uint8ClampedArray} data - ImageData.data (RGBA，每 4 個值為一個像素)
+ * @returns {boolean} 是否含有透明或半透明像素
+ */
+export const hasTransparentPixels = (data: Uint8ClampedArray) => {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i]! < 255) return true
+  }
+  return false
+}
+
+/**
+ * 檢查 Canvas 內容是否含有透明像素
+ * @description 無法讀取像素時 (例如取不到 2D context) 保守視為含有透明度，避免誤轉為 JPEG
+ */
+const canvasHasTransparency = (canvas: EncodableCanvas) => {
+  const context = getContext2d(canvas)
+  if (!context) return true
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height)
+  return hasTransparentPixels(data)
+}
+
+/**
+ * 將格式列表限制為支援透明度的格式
+ * @description 移除 JPEG 等不支援透明度的格式，並確保最後一定有 PNG 可以 Fallback
+ */
+const toAlphaCapableFormats = (formats: ExportFormat[]) => {
+  const alphaFormats = formats.filter((format) => ALPHA_CAPABLE_FORMATS.includes(format))
+  if (!alphaFormats.includes('image/png')) {
+    alphaFormats.push('image/png')
+  }
+  return alphaFormats
+}
+
+/**
+ * 以二分搜尋找出符合檔案大小上限的最高品質
+ *
+ * @description
+ * 品質與檔案大小大致呈單調關係，因此在 [minQuality, maxQuality] 之間二分搜尋，
+ * 保留「符合上限且品質最高」的結果。若最低品質仍超過上限則回傳 null。
+ */
+const searchQualityWithinBudget = async (
+  canvas: EncodableCanvas,
+  type: ExportFormat,
+  minQuality: number,
+  maxQuality: number,
+  maxBytes: number,
+): Promise<Blob | null> => {
+  let low = minQuality
+  let high = maxQuality
+  let best: Blob | null = null
+
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2
+    const blob = await canvasToBlob(canvas, type, quality)
+    if (!blob) return best
+
+    if (blob.size <= maxBytes) {
+      best = blob
+      low = quality
+    } else {
+      high = quality
+    }
+  }
+
+  if (best) return best
+
+  const smallest = await canvasToBlob(canvas, type, minQuality)
+  return smallest && smallest.size <= maxBytes ? smallest : null
+}
+
+// encodeCanvas 的實作 (SecurityError 由 encodeCanvas 統一轉為 EncodeError)
+const encodeOptimizedBlob = async (
+  canvas: EncodableCanvas,
+  options: ExportOptions,
+): Promise<OptimizedBlobResult> => {
+  const { width, height } = calculateExportSize(canvas.width, canvas.height, options)
+  let source = resizeCanvas(canvas, width, height, options.resampling ?? DEFAULT_RESAMPLING)
+  let formats = options.formats?.length ? options.formats : DEFAULT_EXPORT_FORMATS
+
+  if (options.mask && options.mask.shape !== 'rect') {
+    source = applyCropMask(source, options.mask)
+  }
+
+  if (options.backgroundColor) {
+    source = flattenCanvas(source, options.backgroundColor)
+  } else if (
+    formats.some((format) => !ALPHA_CAPABLE_FORMATS.includes(format)) &&
+    canvasHasTransparency(source)
+  ) {
+    formats = toAlphaCapableFormats(formats)
+  }
+
+  let exceededBudget = false
+
+  for (const format of formats) {
+    const quality = options.quality?.[format] ?? DEFAULT_EXPORT_QUALITY[format]
+    const blob = await canvasToBlob(source, format, quality)
+
+    // 檢查是否成功匯出為指定格式
+    // iOS < 14 等不支援 WebP 的瀏覽器，即使指定 image/webp，也會回傳 image/png 或 image/jpeg
+    if (!blob || blob.type !== format) continue
+
+    let result: Blob | null = blob
+    if (options.maxBytes && blob.size > options.maxBytes) {
+      // PNG 為無損格式，調整品質沒有效果
+      result =
+        format === 'image/png'
+          ? null
+          : await searchQualityWithinBudget(
+              source,
+              format,
+              Math.min(options.minQuality ?? DEFAULT_MIN_QUALITY, quality),
+              quality,
+              options.maxBytes,
+            )
+
+      if (!result) {
+        exceededBudget = true
+        continue
+      }
+    }
+
+    return {
+      blob: result,
+      mimeType: format,
+      extension: EXPORT_EXTENSIONS[format],
+    }
+  }
+
+  if (exceededBudget) {
+    throw new EncodeError('exceeds-max-bytes')
+  }
+  throw new EncodeError('unsupported-format')
+}
+
+/**
+ * 依匯出設定縮放、套用遮罩並編碼 Canvas (getOptimizedBlob 的實作)
+ *
+ * @param {EncodableCanvas} canvas - 來源 Canvas (Worker 內為 OffscreenCanvas)
+ * @param {ExportOptions} [options] - 匯出設定
+ * @returns {Promise<OptimizedBlobResult>} 包含 Blob、MimeType 與副檔名的結果物件
+ * @throws {EncodeError} 無法在檔案大小上限內輸出、瀏覽器不支援任何指定的格式，或 Canvas 被跨來源圖片污染
+ */
+export const encodeCanvas = async (
+  canvas: EncodableCanvas,
+  options: ExportOptions = {},
+): Promise<OptimizedBlobResult> => {
+  try {
+    return await encodeOptimizedBlob(canvas, options)
+  } catch (error) {
+    if (isSecurityError(error)) {
+      throw new EncodeError('tainted-canvas')
+    }
+    throw error
+  }
+}
@@ -0,0 +1,935 @@
+/**
+ * 圖片 EXIF 中繼資料
+ */
+export interface ExifMetadata {
+  /** EXIF Orientation (1~8)，未標記時為 1 */
+  orientation: number
+  /** 拍攝時間 (DateTimeOriginal，無時區資訊，以本地時間解讀) */
+  capturedAt?: Date
+  /** GPS 位置 */
+  gps?: {
+    /** 緯度 (十進位，北緯為正) */
+    latitude: number
+    /** 經度 (十進位，東經為正) */
+    longitude: number
+    /** 海拔 (公尺，海平面以下為負) */
+    altitude?: number
+  }
+}
+
+/**
+ * 輸出檔案的中繼資料處理策略
+ * - strip-all: 移除所有中繼資料 (預設，與 Canvas 匯出的結果相同)
+ * - strip-gps: 保留拍攝時間等資訊，但移除 GPS 位置
+ * - keep: 保留解析到的中繼資料 (拍攝時間與 GPS 位置)
+ */
+export type MetadataPolicy = 'strip-all' | 'strip-gps' | 'keep'
+
+// TIFF 標籤 (Tag) 定義
+const TAG_ORIENTATION = 0x0112
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_GPS_VERSION_ID = 0x0000
+const TAG_GPS_LATITUDE_REF = 0x0001
+const TAG_GPS_LATITUDE = 0x0002
+const TAG_GPS_LONGITUDE_REF = 0x0003
+const TAG_GPS_LONGITUDE = 0x0004
+const TAG_GPS_ALTITUDE_REF = 0x0005
+const TAG_GPS_ALTITUDE = 0x0006
+
+// TIFF 資料型別與對應的位元組數
+const TYPE_BYTE = 1
+const TYPE_ASCII = 2
+const TYPE_SHORT = 3
+const TYPE_LONG = 4
+const TYPE_RATIONAL = 5
+const TYPE_SLONG = 9
+const TYPE_SRATIONAL = 10
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00] // "Exif\0\0"
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+const readFourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  )
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte)
+
+// ============================================================
+// 解析 (Parse)
+// ============================================================
+
+/**
+ * 讀取 IFD 中的所有欄位，回傳 tag → 數值陣列 / 字串
+ */
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean) => {
+  const entries = new Map<number, number[] | string>()
+  const start = tiffStart + ifdOffset
+  if (start + 2 > view.byteLength) return entries
+
+  const count = view.getUint16(start, littleEndian)
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12
+    if (entry + 12 > view.byteLength) break
+
+    const tag = view.getUint16(entry, littleEndian)
+    const type = view.getUint16(entry + 2, littleEndian)
+    const valueCount = view.getUint32(entry + 4, littleEndian)
+    const size = TYPE_SIZES[type]
+    if (!size) continue
+
+    // 資料長度超過 4 bytes 時，欄位內存放的是相對於 TIFF 開頭的偏移量
+    const valueOffset =
+      size * valueCount > 4 ? tiffStart + view.getUint32(entry + 8, littleEndian) : entry + 8
+    if (valueOffset + size * valueCount > view.byteLength) continue
+
+    if (type === TYPE_ASCII) {
+      let text = ''
+      for (let j = 0; j < valueCount; j++) {
+        const code = view.getUint8(valueOffset + j)
+        if (code === 0) break
+        text += String.fromCharCode(code)
+      }
+      entries.set(tag, text)
+      continue
+    }
+
+    const values: number[] = []
+    for (let j = 0; j < valueCount; j++) {
+      const offset = valueOffset + j * size
+      switch (type) {
+        case TYPE_SHORT:
+          values.push(view.getUint16(offset, littleEndian))
+          break
+        case TYPE_LONG:
+          values.push(view.getUint32(offset, littleEndian))
+          break
+        case TYPE_SLONG:
+          values.push(view.getInt32(offset, littleEndian))
+          break
+        case TYPE_RATIONAL:
+        case TYPE_SRATIONAL: {
+          const read = type === TYPE_RATIONAL ? 'getUint32' : 'getInt32'
+          const denominator = view[read](offset + 4, littleEndian)
+          values.push(denominator === 0 ? 0 : view[read](offset, littleEndian) / denominator)
+          break
+        }
+        default:
+          values.push(view.getUint8(offset))
+      }
+    }
+    entries.set(tag, values)
+  }
+
+  return entries
+}
+
+/**
+ * 將 EXIF 日期字串 (YYYY:MM:DD HH:MM:SS) 轉換為 Date
+ */
+const parseExifDate = (value: number[] | string | undefined) => {
+  if (typeof value !== 'string') return undefined
+
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return undefined
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ]
+  const date = new Date(year, month - 1, day, hour, minute, second)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * 將 GPS 度分秒 (DMS) 轉換為十進位
+ */
+const toDecimalDegrees = (
+  dms: number[] | string | undefined,
+  ref: number[] | string | undefined,
+) => {
+  if (!Array.isArray(dms) || dms.length < 3) return undefined
+
+  const [degrees, minutes, seconds] = dms as [number, number, number]
+  const decimal = degrees + minutes / 60 + seconds / 3600
+  return ref === 'S' || ref === 'W' ? -decimal : decimal
+}
+
+/**
+ * 解析 TIFF 結構 (EXIF 資料本體)
+ */
+const parseTiff = (view: DataView, tiffStart: number): ExifMetadata | null => {
+  if (tiffStart + 8 > view.byteLength) return null
+
+  const byteOrder = view.getUint16(tiffStart)
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null
+  const littleEndian = byteOrder === 0x4949
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian)
+  const metadata: ExifMetadata = { orientation: 1 }
+
+  const orientation = ifd0.get(TAG_ORIENTATION)
+  if (Array.isArray(orientation) && orientation[0]! >= 1 && orientation[0]! <= 8) {
+    metadata.orientation = orientation[0]!
+  }
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD)
+  const exifIfd = Array.isArray(exifPointer)
+    ? readIfd(view, tiffStart, exifPointer[0]!, littleEndian)
+    : undefined
+  metadata.capturedAt =
+    parseExifDate(exifIfd?.get(TAG_DATE_TIME_ORIGINAL)) ?? parseExifDate(ifd0.get(TAG_DATE_TIME))
+
+  const gpsPointer = ifd0.get(TAG_GPS_IFD)
+  if (Array.isArray(gpsPointer)) {
+    const gpsIfd = readIfd(view, tiffStart, gpsPointer[0]!, littleEndian)
+    const latitude = toDecimalDegrees(
+      gpsIfd.get(TAG_GPS_LATITUDE),
+      gpsIfd.get(TAG_GPS_LATITUDE_REF),
+    )
+    const longitude = toDecimalDegrees(
+      gpsIfd.get(TAG_GPS_LONGITUDE),
+      gpsIfd.get(TAG_GPS_LONGITUDE_REF),
+    )
+
+    if (latitude !== undefined && longitude !== undefined) {
+      metadata.gps = { latitude, longitude }
+
+      const altitude = gpsIfd.get(TAG_GPS_ALTITUDE)
+      if (Array.isArray(altitude) && altitude.length > 0) {
+        const altitudeRef = gpsIfd.get(TAG_GPS_ALTITUDE_REF)
+        const belowSeaLevel = Array.isArray(altitudeRef) && altitudeRef[0] === 1
+        metadata.gps.altitude = belowSeaLevel ? -altitude[0]! : altitude[0]!
+      }
+    }
+  }
+
+  return metadata
+}
+
+/**
+ * 在 JPEG 中尋找 APP1 (Exif) 區段，回傳 TIFF 起始位置
+ */
+const findJpegTiffStart = (view: DataView, bytes: Uint8Array) => {
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return -1
+
+    const marker = view.getUint8(offset + 1)
+    // SOS (Start of Scan) 之後就是影像資料，不會再有中繼資料
+    if (marker === 0xda) return -1
+
+    const length = view.getUint16(offset + 2)
+    if (marker === 0xe1 && startsWith(bytes, EXIF_HEADER, offset + 4)) {
+      return offset + 4 + EXIF_HEADER.length
+    }
+    offset += 2 + length
+  }
+  return -1
+}
+
+/**
+ * 在 PNG 中尋找 eXIf 區塊，回傳 TIFF 起始位置
+ */
+const findPngTiffStart = (view: DataView) => {
+  let offset = PNG_SIGNATURE.length
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset)
+    const type = readFourCC(view, offset + 4)
+    if (type === 'eXIf') return offset + 8
+    if (type === 'IDAT' || type === 'IEND') return -1
+    offset += 12 + length
+  }
+  return -1
+}
+
+/**
+ * 在 WebP (RIFF) 中尋找 EXIF 區塊，回傳 TIFF 起始位置
+ */
+const findWebpTiffStart = (view: DataView, bytes: Uint8Array) => {
+  let offset = 12
+  while (offset + 8 <= view.byteLength) {
+    const type = readFourCC(view, offset)
+    const size = view.getUint32(offset + 4, true)
+    if (type === 'EXIF') {
+      // 部分編碼器會保留 "Exif\0\0" 前綴
+      const start = offset + 8
+      return startsWith(bytes, EXIF_HEADER, start) ? start + EXIF_HEADER.length : start
+    }
+    offset += 8 + size + (size % 2)
+  }
+  return -1
+}
+
+/**
+ * 讀取 ISOBMFF Box 標頭
+ */
+const readBox = (view: DataView, offset: number, end: number) => {
+  if (offset + 8 > end) return null
+
+  let size = view.getUint32(offset)
+  const type = readFourCC(view, offset + 4)
+  let headerSize = 8
+
+  if (size === 1) {
+    if (offset + 16 > end) return null
+    size = Number(view.getBigUint64(offset + 8))
+    headerSize = 16
+  } else if (size === 0) {
+    size = end - offset
+  }
+  if (size < headerSize) return null
+
+  return { type, start: offset, dataStart: offset + headerSize, end: Math.min(offset + size, end) }
+}
+
+const findChildBox = (view: DataView, start: number, end: number, type: string) => {
+  let offset = start
+  while (offset < end) {
+    const box = readBox(view, offset, end)
+    if (!box) return null
+    if (box.type === type) return box
+    offset = box.end
+  }
+  return null
+}
+
+const readSizedUint = (view: DataView, offset: number, size: number) => {
+  switch (size) {
+    case 1:
+      return view.getUint8(offset)
+    case 2:
+      return view.getUint16(offset)
+    case 4:
+      return view.getUint32(offset)
+    case 8:
+      return Number(view.getBigUint64(offset))
+    default:
+      return 0
+  }
+}
+
+/**
+ * 在 HEIC / AVIF (ISOBMFF) 中尋找 Exif item，回傳 TIFF 起始位置
+ *
+ * @description
+ * 結構為 meta → iinf (找出 item_type 為 "Exif" 的 item ID) → iloc (取得該 item 在檔案中的位置)。
+ * Exif item 的前 4 bytes 為 TIFF 標頭的偏移量。
+ */
+const findIsobmffTiffStart = (view: DataView) => {
+  const meta = findChildBox(view, 0, view.byteLength, 'meta')
+  if (!meta) return -1
+  // meta 為 FullBox，資料前有 4 bytes 的 version 與 flags
+  const metaStart = meta.dataStart + 4
+
+  const iinf = findChildBox(view, metaStart, meta.end, 'iinf')
+  const iloc = findChildBox(view, metaStart, meta.end, 'iloc')
+  if (!iinf || !iloc) return -1
+
+  // 1. 從 iinf 找出 Exif item 的 ID
+  const iinfVersion = view.getUint8(iinf.dataStart)
+  let offset = iinf.dataStart + 4 + (iinfVersion === 0 ? 2 : 4)
+  let exifItemId = -1
+  while (offset < iinf.end) {
+    const infe = readBox(view, offset, iinf.end)
+    if (!infe) break
+    if (infe.type === 'infe') {
+      const version = view.getUint8(infe.dataStart)
+      if (version >= 2) {
+        const idSize = version === 2 ? 2 : 4
+        const itemId = readSizedUint(view, infe.dataStart + 4, idSize)
+        const itemType = readFourCC(view, infe.dataStart + 4 + idSize + 2)
+        if (itemType === 'Exif') {
+          exifItemId = itemId
+          break
+        }
+      }
+    }
+    offset = infe.end
+  }
+  if (exifItemId < 0) return -1
+
+  // 2. 從 iloc 找出該 item 的檔案位置
+  const ilocVersion = view.getUint8(iloc.dataStart)
+  offset = iloc.dataStart + 4
+  const sizes = view.getUint16(offset)
+  const offsetSize = (sizes >> 12) & 0xf
+  const lengthSize = (sizes >> 8) & 0xf
+  const baseOffsetSize = (sizes >> 4) & 0xf
+  const indexSize = ilocVersion === 1 || ilocVersion === 2 ? sizes & 0xf : 0
+  offset += 2
+
+  const idSize = ilocVersion < 2 ? 2 : 4
+  const itemCount = readSizedUint(view, offset, idSize)
+  offset += idSize
+
+  for (let i = 0; i < itemCount && offset < iloc.end; i++) {
+    const itemId = readSizedUint(view, offset, idSize)
+    offset += idSize
+    if (ilocVersion === 1 || ilocVersion === 2) offset += 2 // construction_method
+    offset += 2 // data_reference_index
+    const baseOffset = readSizedUint(view, offset, baseOffsetSize)
+    offset += baseOffsetSize
+    const extentCount = view.getUint16(offset)
+    offset += 2
+
+    let firstExtentOffset = -1
+    for (let j = 0; j < extentCount; j++) {
+      offset += indexSize
+      const extentOffset = readSizedUint(view, offset, offsetSize)
+      offset += offsetSize + lengthSize
+      if (j === 0) firstExtentOffset = extentOffset
+    }
+
+    if (itemId === exifItemId && firstExtentOffset >= 0) {
+      const itemStart = baseOffset + firstExtentOffset
+      if (itemStart + 4 > view.byteLength) return -1
+      return itemStart + 4 + view.getUint32(itemStart)
+    }
+  }
+
+  return -1
+}
+
+/**
+ * 從圖片檔案內容解析 EXIF 中繼資料
+ *
+ * @description
+ * 支援 JPEG (APP1)、PNG (eXIf)、WebP (EXIF chunk) 與 HEIC / AVIF (ISOBMFF Exif item)。
+ * 只讀取本專案需要的欄位：Orientation、拍攝時間與 GPS 位置。
+ *
+ * @param {ArrayBuffer} buffer - 圖片檔案內容
+ * @returns {ExifMetadata | null} 解析結果，找不到 EXIF 或格式錯誤時回傳 null
+ *
+ * @example
+ * const metadata = parseExif(await file.arrayBuffer())
+ * if (metadata?.gps) console.log(metadata.gps.latitude, metadata.gps.longitude)
+ */
+export const parseExif = (buffer: ArrayBuffer): ExifMetadata | null => {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  if (bytes.length < 12) return null
+
+  let tiffStart = -1
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      tiffStart = findJpegTiffStart(view, bytes)
+    } else if (startsWith(bytes, PNG_SIGNATURE)) {
+      tiffStart = findPngTiffStart(view)
+    } else if (readFourCC(view, 0) === 'RIFF' && readFourCC(view, 8) === 'WEBP') {
+      tiffStart = findWebpTiffStart(view, bytes)
+    } else if (readFourCC(view, 4) === 'ftyp') {
+      tiffStart = findIsobmffTiffStart(view)
+    }
+
+    return tiffStart < 0 ? null : parseTiff(view, tiffStart)
+  } catch {
+    // 檔案毀損或結構不符預期時，視為沒有 EXIF
+    return null
+  }
+}
+
+// ============================================================
+// 方向校正 (Orientation)
+// ============================================================
+
+/**
+ * 計算 EXIF Orientation 對應的 Canvas 變換
+ *
+ * @description
+ * 回傳校正後的畫布尺寸，以及繪製原始 (未校正) 像素時要套用的 `context.setTransform` 參數。
+ * Orientation 5~8 包含 90 度旋轉，校正後寬高互換。
+ *
+ * @param {number} orientation - EXIF Orientation (1~8)
+ * @param {number} width - 原始像素寬度
+ * @param {number} height - 原始像素高度
+ * @returns 校正後的 width、height 與 matrix ([a, b, c, d, e, f])
+ */
+export const getOrientationTransform = (orientation: number, width: number, height: number) => {
+  const swapped = orientation >= 5 && orientation <= 8
+  const matrices: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, width, 0],
+    3: [-1, 0, 0, -1, width, height],
+    4: [1, 0, 0, -1, 0, height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, height, 0],
+    7: [0, -1, -1, 0, height, width],
+    8: [0, -1, 1, 0, 0, width],
+  }
+
+  return {
+    width: swapped ? height : width,
+    height: swapped ? width : height,
+    matrix:
+      matrices[orientation] ??
+      ([1, 0, 0, 1, 0, 0] as [number, number, number, number, number, number]),
+  }
+}
+
+/**
+ * 讀取 JPEG SOF 區段中的原始像素尺寸 (未套用 Orientation)
+ *
+ * @description 只讀取檔案標頭，不解碼像素；useCropper 以此在解碼前檢查像素尺寸限制
+ *
+ * @param {ArrayBuffer} buffer - JPEG 檔案內容
+ * @returns {{ width: number, height: number } | null} 原始像素尺寸，找不到 SOF 區段時回傳 null
+ */
+export const readJpegSize = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer)
+  let offset = 2
+  while (offset + 9 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null
+
+    const marker = view.getUint8(offset + 1)
+    // SOF0 ~ SOF15 (排除 DHT 0xC4、JPG 0xC8、DAC 0xCC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) }
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return null
+}
+
+/**
+ * 方向校正後重新編碼的圖片品質
+ * @constant
+ * @description 此圖片只作為裁切來源 (匯出時會再次編碼)，因此使用最高品質避免二次壓縮損失
+ */
+const NORMALIZED_IMAGE_QUALITY = 1
+
+/**
+ * 依照 EXIF Orientation 將 JPEG 轉為「像素即為顯示方向」的圖片
+ *
+ * ## 為什麼需要這個函式？
+ *
+ * 手機拍攝的照片通常以感光元件方向儲存像素，再以 EXIF Orientation 標記顯示時要如何旋轉。
+ * 各瀏覽器 (及版本) 對 Orientation 的處理不一致，同一張照片可能在某些環境中橫躺顯示。
+ *
+ * ## 解決方案
+ *
+ * 1. 以 createImageBitmap({ imageOrientation: 'from-image' }) 解碼 (依規範會套用 Orientation)
+ * 2. 以 SOF 區段中的原始尺寸檢查是否真的已經旋轉；瀏覽器已套用時直接使用原檔 (回傳 null)
+ * 3. 瀏覽器未套用時，自行以 Canvas 變換校正並重新編碼為不含 Orientation 的 JPEG，
+ *    後續顯示與匯出都不再受 EXIF 影響
+ *
+ * HEIC / AVIF 的方向由容器內的 irot / imir 描述，解碼器一律會套用，因此不在此處理。
+ *
+ * @param {File} file - 原始 JPEG 檔案
+ * @param {ArrayBuffer} buffer - 檔案內容 (避免重複讀取)
+ * @param {number} orientation - EXIF Orientation
+ * @returns {Promise<Blob | null>} 校正後的圖片，不需校正 (包含瀏覽器已套用) 或環境不支援時回傳 null
+ */
+export const normalizeOrientation = async (
+  file: Blob,
+  buffer: ArrayBuffer,
+  orientation: number,
+): Promise<Blob | null> => {
+  if (orientation <= 1 || orientation > 8) return null
+  if (typeof createImageBitmap === 'undefined') return null
+
+  const rawSize = readJpegSize(buffer)
+  if (!rawSize) return null
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  } catch {
+    return null
+  }
+
+  try {
+    const expected = getOrientationTransform(orientation, rawSize.width, rawSize.height)
+    // 90 度旋轉可由尺寸判斷是否已套用；翻轉與 180 度無法判斷，依規範視為已套用
+    const alreadyApplied =
+      expected.width === rawSize.width ||
+      (bitmap.width === expected.width && bitmap.height === expected.height)
+    // 瀏覽器已套用時沿用原檔，避免在主執行緒以最高品質重新編碼整張圖片
+    if (alreadyApplied) return null
+
+    const canvas = document.createElement('canvas')
+    canvas.width = expected.width
+    canvas.height = expected.height
+
+    const context = canvas.getContext('2d')
+    if (!context) return null
+
+    context.setTransform(...expected.matrix)
+    context.drawImage(bitmap, 0, 0)
+
+    return await new Promise<Blob | null>((resolve) => {
+      canvas.toBlob(resolve, 'image/jpeg', NORMALIZED_IMAGE_QUALITY)
+    })
+  } finally {
+    bitmap.close()
+  }
+}
+
+// ============================================================
+// 寫入 (Write)
+// ============================================================
+
+interface TiffEntry {
+  tag: number
+  type: number
+  count: number
+  /** 以 Big Endian 編碼的資料內容 */
+  data: number[]
+}
+
+const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff]
+const uint32 = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+]
+const ascii = (text: string) => [...Array.from(text, (char) => char.charCodeAt(0) & 0xff), 0]
+const rational = (value: number, denominator = 1000) => [
+  ...uint32(Math.round(value * denominator)),
+  ...uint32(denominator),
+]
+
+/**
+ * 將十進位度數轉換為 GPS 度分秒 (RATIONAL x3)
+ */
+const toDmsRationals = (decimal: number) => {
+  const absolute = Math.abs(decimal)
+  const degrees = Math.floor(absolute)
+  const minutesFloat = (absolute - degrees) * 60
+  const minutes = Math.floor(minutesFloat)
+  const seconds = (minutesFloat - minutes) * 60
+  return [...rational(degrees, 1), ...rational(minutes, 1), ...rational(seconds, 10000)]
+}
+
+const formatExifDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return (
+    `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  )
+}
+
+const getIfdSize = (entries: TiffEntry[]) =>
+  2 +
+  entries.length * 12 +
+  4 +
+  entries.reduce((total, entry) => {
+    const length = entry.data.length
+    return length > 4 ? total + length + (length % 2) : total
+  }, 0)
+
+/**
+ * 將 IFD 編碼為位元組 (超過 4 bytes 的資料接在 IFD 之後)
+ */
+const encodeIfd = (entries: TiffEntry[], ifdOffset: number) => {
+  const bytes: number[] = [...uint16(entries.length)]
+  const overflow: number[] = []
+  let overflowOffset = ifdOffset + 2 + entries.length * 12 + 4
+
+  for (const entry of entries) {
+    bytes.push(...uint16(entry.tag), ...uint16(entry.type), ...uint32(entry.count))
+    if (entry.data.length > 4) {
+      bytes.push(...uint32(overflowOffset))
+      overflow.push(...entry.data)
+      if (entry.data.length % 2) overflow.push(0)
+      overflowOffset += entry.data.length + (entry.data.length % 2)
+    } else {
+      bytes.push(...entry.data, ...new Array(4 - entry.data.length).fill(0))
+    }
+  }
+
+  // 下一個 IFD 的偏移量 (無)
+  bytes.push(...uint32(0), ...overflow)
+  return bytes
+}
+
+/**
+ * 依照策略建立 EXIF (TIFF) 資料
+ *
+ * @description
+ * 輸出圖片已經是顯示方向，因此 Orientation 固定寫入 1。
+ * 回傳 null 表示不需要寫入任何中繼資料。
+ *
+ * @param {ExifMetadata | null} metadata - 原圖解析出的中繼資料
+ * @param {MetadataPolicy} policy - 中繼資料處理策略
+ * @returns {Uint8Array | null} Big Endian 的 TIFF 資料
+ */
+export const buildExifData = (
+  metadata: ExifMetadata | null,
+  policy: MetadataPolicy,
+): Uint8Array | null => {
+  if (!metadata || policy === 'strip-all') return null
+
+  const gps = policy === 'keep' ? metadata.gps : undefined
+  if (!metadata.capturedAt && !gps) return null
+
+  const exifEntries: TiffEntry[] = metadata.capturedAt
+    ? [
+        {
+          tag: TAG_DATE_TIME_ORIGINAL,
+          type: TYPE_ASCII,
+          count: 20,
+          data: ascii(formatExifDate(metadata.capturedAt)),
+        },
+      ]
+    : []
+
+  const gpsEntries: TiffEntry[] = []
+  if (gps) {
+    gpsEntries.push(
+      { tag: TAG_GPS_VERSION_ID, type: TYPE_BYTE, count: 4, data: [2, 3, 0, 0] },
+      {
+        tag: TAG_GPS_LATITUDE_REF,
+        type: TYPE_ASCII,
+        count: 2,
+        data: ascii(gps.latitude < 0 ? 'S' : 'N'),
+      },
+      { tag: TAG_GPS_LATITUDE, type: TYPE_RATIONAL, count: 3, data: toDmsRationals(gps.latitude) },
+      {
+        tag: TAG_GPS_LONGITUDE_REF,
+        type: TYPE_ASCII,
+        count: 2,
+        data: ascii(gps.longitude < 0 ? 'W' : 'E'),
+      },
+      {
+        tag: TAG_GPS_LONGITUDE,
+        type: TYPE_RATIONAL,
+        count: 3,
+        data: toDmsRationals(gps.longitude),
+      },
+    )
+    if (gps.altitude !== undefined) {
+      gpsEntries.push(
+        { tag: TAG_GPS_ALTITUDE_REF, type: TYPE_BYTE, count: 1, data: [gps.altitude < 0 ? 1 : 0] },
+        {
+          tag: TAG_GPS_ALTITUDE,
+          type: TYPE_RATIONAL,
+          count: 1,
+          data: rational(Math.abs(gps.altitude)),
+        },
+      )
+    }
+  }
+
+  // IFD0 的指標欄位需要子 IFD 的位置，先以佔位值計算尺寸
+  const ifd0Entries: TiffEntry[] = [
+    { tag: TAG_ORIENTATION, type: TYPE_SHORT, count: 1, data: uint16(1) },
+  ]
+  if (exifEntries.length) {
+    ifd0Entries.push({ tag: TAG_EXIF_IFD, type: TYPE_LONG, count: 1, data: uint32(0) })
+  }
+  if (gpsEntries.length) {
+    ifd0Entries.push({ tag: TAG_GPS_IFD, type: TYPE_LONG, count: 1, data: uint32(0) })
+  }
+
+  const ifd0Offset = 8
+  const exifOffset = ifd0Offset + getIfdSize(ifd0Entries)
+  const gpsOffset = exifOffset + (exifEntries.length ? getIfdSize(exifEntries) : 0)
+
+  for (const entry of ifd0Entries) {
+    if (entry.tag === TAG_EXIF_IFD) entry.data = uint32(exifOffset)
+    if (entry.tag === TAG_GPS_IFD) entry.data = uint32(gpsOffset)
+  }
+
+  const bytes = [
+    // "MM" (Big Endian)、42、IFD0 偏移量
+    0x4d,
+    0x4d,
+    ...uint16(42),
+    ...uint32(ifd0Offset),
+    ...encodeIfd(ifd0Entries, ifd0Offset),
+    ...(exifEntries.length ? encodeIfd(exifEntries, exifOffset) : []),
+    ...(gpsEntries.length ? encodeIfd(gpsEntries, gpsOffset) : []),
+  ]
+  return new Uint8Array(bytes)
+}
+
+const concatBytes = (...parts: (Uint8Array | number[])[]) => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0)
+  const result = new Uint8Array(total)
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+/**
+ * 將 EXIF 寫入 JPEG (APP1 區段，置於 SOI 與 APP0 之後)
+ */
+const insertJpegExif = (bytes: Uint8Array, tiff: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let insertAt = 2
+  if (view.getUint16(2) === 0xffe0) {
+    insertAt = 4 + view.getUint16(4)
+  }
+
+  const segment = concatBytes(
+    [0xff, 0xe1],
+    uint16(2 + EXIF_HEADER.length + tiff.length),
+    EXIF_HEADER,
+    tiff,
+  )
+  return concatBytes(bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt))
+}
+
+let crcTable: Uint32Array | null = null
+
+const crc32 = (bytes: Uint8Array) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * 將 EXIF 寫入 PNG (eXIf 區塊，置於第一個 IDAT 之前)
+ */
+const insertPngExif = (bytes: Uint8Array, tiff: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = PNG_SIGNATURE.length
+  while (offset + 8 <= bytes.length && readFourCC(view, offset + 4) !== 'IDAT') {
+    offset += 12 + view.getUint32(offset)
+  }
+  if (offset + 8 > bytes.length) return bytes
+
+  const typeAndData = concatBytes([0x65, 0x58, 0x49, 0x66], tiff) // "eXIf"
+  const chunk = concatBytes(uint32(tiff.length), typeAndData, uint32(crc32(typeAndData)))
+  return concatBytes(bytes.subarray(0, offset), chunk, bytes.subarray(offset))
+}
+
+const uint24LE = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff]
+const uint32LE = (value: number) => uint32(value).reverse()
+
+/**
+ * 將 EXIF 寫入 WebP (EXIF 區塊)
+ *
+ * @description
+ * 只有 Extended 格式 (VP8X) 能攜帶中繼資料。Canvas 匯出的 WebP 多為 Simple 格式 (VP8 / VP8L)，
+ * 因此需要從影像區塊讀出尺寸與透明度，補上 VP8X 區塊並開啟 EXIF 旗標。
+ */
+const insertWebpExif = (bytes: Uint8Array, tiff: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const firstChunk = readFourCC(view, 12)
+  const EXIF_FLAG = 0x08
+  const ALPHA_FLAG = 0x10
+
+  let body = bytes.subarray(12)
+  if (firstChunk === 'VP8X') {
+    body = body.slice()
+    body[8] = body[8]! | EXIF_FLAG
+  } else {
+    let width = 0
+    let height = 0
+    let flags = EXIF_FLAG
+    if (firstChunk === 'VP8 ') {
+      // Frame tag (3 bytes) + Start code (3 bytes) 之後為 14 bits 寬高
+      width = view.getUint16(20 + 6, true) & 0x3fff
+      height = view.getUint16(20 + 8, true) & 0x3fff
+    } else if (firstChunk === 'VP8L') {
+      // Signature (1 byte) 之後為 14 bits (寬 - 1)、14 bits (高 - 1)、1 bit alpha_is_used
+      const bits = view.getUint32(20 + 1, true)
+      width = (bits & 0x3fff) + 1
+      height = ((bits >> 14) & 0x3fff) + 1
+      if ((bits >> 28) & 1) flags |= ALPHA_FLAG
+    } else {
+      return bytes
+    }
+
+    const vp8x = concatBytes(
+      [0x56, 0x50, 0x38, 0x58], // "VP8X"
+      uint32LE(10),
+      [flags, 0, 0, 0],
+      uint24LE(width - 1),
+      uint24LE(height - 1),
+    )
+    body = concatBytes(vp8x, body)
+  }
+
+  const exifChunk = concatBytes(
+    [0x45, 0x58, 0x49, 0x46], // "EXIF"
+    uint32LE(tiff.length),
+    tiff,
+    tiff.length % 2 ? [0] : [],
+  )
+  const riffBody = concatBytes([0x57, 0x45, 0x42, 0x50], body, exifChunk) // "WEBP"
+  return concatBytes([0x52, 0x49, 0x46, 0x46], uint32LE(riffBody.length), riffBody) // "RIFF"
+}
+
+/**
+ * 依照中繼資料策略處理輸出圖片
+ *
+ * @description
+ * Canvas 匯出的圖片本身不含任何中繼資料 (等同 strip-all)。
+ * 策略為 strip-gps / keep 時，會將原圖的拍攝時間 (與 GPS 位置) 寫回輸出圖片。
+ * 支援 JPEG、PNG 與 WebP；其他格式 (例如 AVIF) 無法寫入，會原樣回傳 (不含中繼資料)。
+ *
+ * [為什麼寫入後要再檢查檔案大小？]
+ * 編碼時的檔案大小上限 (exportOptions.maxBytes) 只計算圖片本身，寫回的中繼資料會讓檔案變大，
+ * 原本剛好符合上限的圖片可能因此超過。寫入後超過 maxBytes 時改回傳不含中繼資料的圖片 (等同 strip-all)，
+ * 檔案大小上限優先於保留中繼資料。
+ *
+ * @param {Blob} blob - 匯出的圖片
+ * @param {ExifMetadata | null} metadata - 原圖解析出的中繼資料
+ * @param {MetadataPolicy} policy - 中繼資料處理策略
+ * @param {number} [maxBytes] - 檔案大小上限 (exportOptions.maxBytes)，寫入後超過時不寫入中繼資料
+ * @returns {Promise<Blob>} 處理後的圖片
+ *
+ * @example
+ * const output = await applyMetadataPolicy(blob, imageMetadata.value, 'strip-gps', 500 * 1024)
+ */
+export const applyMetadataPolicy = async (
+  blob: Blob,
+  metadata: ExifMetadata | null,
+  policy: MetadataPolicy,
+  maxBytes?: number,
+): Promise<Blob> => {
+  const tiff = buildExifData(metadata, policy)
+  if (!tiff) return blob
+
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let output: Uint8Array
+
+  switch (blob.type) {
+    case 'image/jpeg':
+      output = insertJpegExif(bytes, tiff)
+      break
+    case 'image/png':
+      output = insertPngExif(bytes, tiff)
+      break
+    case 'image/webp':
+      output = insertWebpExif(bytes, tiff)
+      break
+    default:
+      return blob
+  }
+
+  if (maxBytes !== undefined && output.length > maxBytes) return blob
+
+  return new Blob([output as BlobPart], { type: blob.type })
+}
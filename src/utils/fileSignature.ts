@@ -0,0 +1,182 @@
+/**
+ * 可由檔案內容辨識的圖片格式 (MIME types)
+ */
+export type DetectedImageType =
+  | 'image/jpeg'
+  | 'image/png'
+  | 'image/gif'
+  | 'image/webp'
+  | 'image/bmp'
+  | 'image/avif'
+  | 'image/heic'
+  | 'image/heif'
+
+/**
+ * 辨識格式所需讀取的檔案開頭長度 (bytes)
+ * @constant
+ * @description ISOBMFF (AVIF / HEIC) 的 ftyp box 會列出多個相容品牌，64 bytes 足以涵蓋常見編碼器的輸出
+ */
+export const SIGNATURE_BYTES_LENGTH = 64
+
+/**
+ * 各格式的檔案簽章 (Magic bytes)
+ * @constant
+ * @description null 表示該位置可為任意值 (例如 RIFF 的檔案大小)
+ */
+const SIGNATURES: { type: DetectedImageType; bytes: (number | null)[] }[] = [
+  // JPEG: SOI (FF D8) + 任一 marker (FF xx)
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  // PNG: \x89PNG\r\n\x1a\n
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  // GIF87a / GIF89a
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38, 0x37, 0x61] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38, 0x39, 0x61] },
+  // RIFF....WEBP
+  {
+    type: 'image/webp',
+    bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+  },
+]
+
+/**
+ * BMP 的 DIB header 大小 (offset 14，little-endian)
+ * @constant
+ * @description
+ * BITMAPCOREHEADER (12)、OS/2 2.x (16 / 64)、BITMAPINFOHEADER (40)、
+ * BITMAPV2 / V3INFOHEADER (52 / 56)、BITMAPV4HEADER (108)、BITMAPV5HEADER (124)
+ */
+const BMP_DIB_HEADER_SIZES = [12, 16, 40, 52, 56, 64, 108, 124]
+
+/**
+ * ISOBMFF (ftyp box) 品牌與格式的對應
+ * @constant
+ * @description AVIF 檔案的主要品牌常為通用的 mif1，因此需一併檢查相容品牌，且 AVIF 優先於 HEIF
+ */
+const AVIF_BRANDS = ['avif', 'avis']
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs']
+const HEIF_BRANDS = ['mif1', 'msf1']
+
+/**
+ * 宣告類型 (File.type) 的別名，對應到 detectImageType 回傳的標準 MIME type
+ * @constant
+ */
+const MIME_TYPE_ALIASES: Record<string, DetectedImageType> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-png': 'image/png',
+  'image/x-ms-bmp': 'image/bmp',
+  'image/x-bmp': 'image/bmp',
+  'image/x-windows-bmp': 'image/bmp',
+  'application/bmp': 'image/bmp',
+  'application/x-bmp': 'image/bmp',
+  'image/heic-sequence': 'image/heic',
+  'image/heif-sequence': 'image/heif',
+}
+
+/**
+ * 格式的顯示名稱 (用於錯誤訊息)
+ * @constant
+ */
+export const IMAGE_TYPE_LABELS: Record<DetectedImageType, string> = {
+  'image/jpeg': 'JPG',
+  'image/png': 'PNG',
+  'image/gif': 'GIF',
+  'image/webp': 'WebP',
+  'image/bmp': 'BMP',
+  'image/avif': 'AVIF',
+  'image/heic': 'HEIC',
+  'image/heif': 'HEIF',
+}
+
+const matchesSignature = (bytes: Uint8Array, signature: (number | null)[]) =>
+  bytes.length >= signature.length &&
+  signature.every((value, index) => value === null || bytes[index] === value)
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+/**
+ * 以 BM 開頭與 DIB header 大小判斷 BMP
+ * @description 只有 2 bytes 的 BM 太容易與其他內容 (例如以 BM 開頭的文字檔) 誤判，因此一併檢查 offset 14 的 header 大小
+ */
+const isBmp = (bytes: Uint8Array) => {
+  if (bytes.length < 18 || bytes[0] !== 0x42 || bytes[1] !== 0x4d) return false
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return BMP_DIB_HEADER_SIZES.includes(view.getUint32(14, true))
+}
+
+/**
+ * 由 ftyp box 的主要品牌與相容品牌判斷 AVIF / HEIC / HEIF
+ */
+const detectIsobmffType = (bytes: Uint8Array): DetectedImageType | null => {
+  if (bytes.length < 16 || readAscii(bytes, 4, 4) !== 'ftyp') return null
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const boxSize = view.getUint32(0)
+  const end = Math.min(boxSize || bytes.length, bytes.length)
+
+  // 主要品牌 (offset 8) + 次要版本 (offset 12，略過) + 相容品牌 (offset 16 起，每 4 bytes 一個)
+  const brands = [readAscii(bytes, 8, 4)]
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(readAscii(bytes, offset, 4))
+  }
+
+  if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return 'image/avif'
+  if (brands.some((brand) => HEIC_BRANDS.includes(brand))) return 'image/heic'
+  if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return 'image/heif'
+  return null
+}
+
+/**
+ * 依檔案開頭的簽章 (Magic bytes) 判斷圖片格式
+ *
+ * @description
+ * File.type 是由作業系統或副檔名推測而來，改副檔名的執行檔也會被標示為 image/jpeg，
+ * 而 Windows 上的 HEIC 則常常沒有 MIME type。因此以實際內容判斷格式。
+ *
+ * @param {Uint8Array} bytes - 檔案開頭的內容 (建議至少 SIGNATURE_BYTES_LENGTH bytes)
+ * @returns {DetectedImageType | null} 圖片格式，無法辨識時回傳 null
+ *
+ * @example
+ * const bytes = new Uint8Array(await file.slice(0, SIGNATURE_BYTES_LENGTH).arrayBuffer())
+ * detectImageType(bytes) // 'image/png'
+ */
+export const detectImageType = (bytes: Uint8Array): DetectedImageType | null => {
+  const matched = SIGNATURES.find((signature) => matchesSignature(bytes, signature.bytes))
+  if (matched) return matched.type
+  if (isBmp(bytes)) return 'image/bmp'
+  return detectIsobmffType(bytes)
+}
+
+/**
+ * 將宣告的 MIME type 轉為標準名稱 (例如 image/jpg → image/jpeg)
+ *
+ * @param {string} type - File.type
+ * @returns {string} 標準化後的 MIME type (小寫)
+ */
+export const normalizeMimeType = (type: string) => {
+  const lowerType = type.toLowerCase()
+  return MIME_TYPE_ALIASES[lowerType] ?? lowerType
+}
+
+/**
+ * 檢查宣告的 MIME type 是否與實際內容相符
+ *
+ * @description
+ * - 沒有宣告 (空字串) 或宣告為 application/octet-stream 時視為相符，以實際內容為準
+ * - HEIC 與 HEIF 使用相同的容器格式，各系統標示不一，彼此視為相符
+ *
+ * @param {string} declaredType - File.type
+ * @param {DetectedImageType} detectedType - detectImageType 的結果
+ * @returns {boolean} 是否相符
+ */
+export const isDeclaredTypeConsistent = (declaredType: string, detectedType: DetectedImageType) => {
+  const normalized = normalizeMimeType(declaredType)
+  if (!normalized || normalized === 'application/octet-stream') return true
+
+  const heifFamily: string[] = ['image/heic', 'image/heif']
+  if (heifFamily.includes(normalized) && heifFamily.includes(detectedType)) return true
+
+  return normalized === detectedType
+}
@@ -0,0 +1,255 @@
+import type { PixelBuffer } from './resampleUtils'
+
+/**
+ * 焦點 (原始圖片像素座標)
+ */
+export interface FocalPoint {
+  x: number
+  y: number
+}
+
+/**
+ * 焦點範圍 (原始圖片像素，x / y 為左上角)，例如偵測到的臉部
+ */
+export interface FocalBox extends FocalPoint {
+  width: number
+  height: number
+}
+
+/**
+ * 焦點提供者
+ *
+ * @description
+ * 依載入完成的圖片回傳焦點或焦點範圍 (原始圖片像素)，初始構圖會以其中心為準；
+ * 找不到焦點時回傳 null，維持置中。可為同步或非同步函式。
+ *
+ * @example
+ * // 以後端預先算好的焦點為準
+ * const provider: FocalPointProvider = () => ({ x: 320, y: 180 })
+ */
+export type FocalPointProvider = (
+  image: HTMLImageElement,
+) => FocalPoint | FocalBox | null | Promise<FocalPoint | FocalBox | null>
+
+/**
+ * 取得焦點或焦點範圍的中心
+ */
+export const getFocusCenter = (focus: FocalPoint | FocalBox): FocalPoint =>
+  'width' in focus
+    ? { x: focus.x + focus.width / 2, y: focus.y + focus.height / 2 }
+    : { x: focus.x, y: focus.y }
+
+// 瀏覽器的 Shape Detection API (Chrome 需開啟實驗性功能)，TypeScript 尚未內建型別
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly
+}
+
+interface FaceDetectorLike {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>
+}
+
+type FaceDetectorConstructor = new (options?: {
+  maxDetectedFaces?: number
+  fastMode?: boolean
+}) => FaceDetectorLike
+
+const getFaceDetector = () =>
+  (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector
+
+/**
+ * 以瀏覽器的 FaceDetector 偵測臉部
+ *
+ * @description
+ * 偵測到多張臉時回傳涵蓋所有臉部的範圍 (合照時不會只對準其中一人)。
+ * 瀏覽器不支援或沒有偵測到臉部時回傳 null。
+ */
+export const detectFaces: FocalPointProvider = async (image) => {
+  const FaceDetector = getFaceDetector()
+  if (!FaceDetector) return null
+
+  const faces = await new FaceDetector({ fastMode: true }).detect(image)
+  if (!faces.length) return null
+
+  const left = Math.min(...faces.map((face) => face.boundingBox.left))
+  const top = Math.min(...faces.map((face) => face.boundingBox.top))
+  const right = Math.max(...faces.map((face) => face.boundingBox.right))
+  const bottom = Math.max(...faces.map((face) => face.boundingBox.bottom))
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/**
+ * 顯著性分析的區塊大小 (像素)
+ * @constant
+ */
+const SALIENCY_CELL_SIZE = 8
+
+/**
+ * 計算區塊熵值的亮度直方圖分格數
+ * @constant
+ */
+const SALIENCY_HISTOGRAM_BINS = 16
+
+/**
+ * 納入焦點計算的區塊分數門檻 (相對於最高分)
+ * @constant
+ */
+const SALIENCY_THRESHOLD = 0.5
+
+/**
+ * 以邊緣強度與亮度熵值估計圖片的視覺焦點
+ *
+ * @description
+ * 將圖片切成 8x8 的區塊，每個區塊的分數為「平均邊緣強度 × 亮度直方圖的熵值」：
+ * 主體通常細節多 (邊緣強) 且明暗變化豐富 (熵值高)，天空、牆面等背景兩者皆低。
+ * 取分數達最高分一半以上的區塊，以分數加權平均其中心作為焦點。透明像素視為黑色。
+ *
+ * @param {PixelBuffer} pixels - RGBA 像素資料 (建議先縮小到約 128 像素以內)
+ * @returns {FocalPoint | null} 焦點 (像素資料的座標)，整張圖片沒有任何細節時為 null
+ */
+export const calculateSaliencyFocus = (pixels: PixelBuffer): FocalPoint | null => {
+  const { data, width, height } = pixels
+  if (!width || !height) return null
+
+  const luminance = new Float32Array(width * height)
+  for (let i = 0; i < luminance.length; i++) {
+    const offset = i * 4
+    luminance[i] =
+      ((0.2126 * data[offset]! + 0.7152 * data[offset + 1]! + 0.0722 * data[offset + 2]!) *
+        data[offset + 3]!) /
+      255
+  }
+
+  const columns = Math.ceil(width / SALIENCY_CELL_SIZE)
+  const rows = Math.ceil(height / SALIENCY_CELL_SIZE)
+  const edges = new Float64Array(columns * rows)
+  const counts = new Uint32Array(columns * rows)
+  const histograms = new Uint32Array(columns * rows * SALIENCY_HISTOGRAM_BINS)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = luminance[y * width + x]!
+      const gradientX =
+        luminance[y * width + Math.min(x + 1, width - 1)]! -
+        luminance[y * width + Math.max(x - 1, 0)]!
+      const gradientY =
+        luminance[Math.min(y + 1, height - 1) * width + x]! -
+        luminance[Math.max(y - 1, 0) * width + x]!
+
+      const cell = Math.floor(y / SALIENCY_CELL_SIZE) * columns + Math.floor(x / SALIENCY_CELL_SIZE)
+      const bin = Math.min(
+        SALIENCY_HISTOGRAM_BINS - 1,
+        Math.floor((value / 256) * SALIENCY_HISTOGRAM_BINS),
+      )
+
+      edges[cell]! += Math.abs(gradientX) + Math.abs(gradientY)
+      counts[cell]!++
+      histograms[cell * SALIENCY_HISTOGRAM_BINS + bin]!++
+    }
+  }
+
+  const scores = new Float64Array(columns * rows)
+  for (let cell = 0; cell < scores.length; cell++) {
+    const count = counts[cell]!
+    let entropy = 0
+    for (let bin = 0; bin < SALIENCY_HISTOGRAM_BINS; bin++) {
+      const probability = histograms[cell * SALIENCY_HISTOGRAM_BINS + bin]! / count
+      if (probability > 0) entropy -= probability * Math.log2(probability)
+    }
+    scores[cell] = (edges[cell]! / count) * entropy
+  }
+
+  const maxScore = Math.max(...scores)
+  if (!(maxScore > 0)) return null
+
+  let totalWeight = 0
+  let focusX = 0
+  let focusY = 0
+  for (let cell = 0; cell < scores.length; cell++) {
+    const score = scores[cell]!
+    if (score < maxScore * SALIENCY_THRESHOLD) continue
+
+    // 右側與下方的區塊可能不足 8 像素，以實際範圍的中心計算
+    const left = (cell % columns) * SALIENCY_CELL_SIZE
+    const top = Math.floor(cell / columns) * SALIENCY_CELL_SIZE
+    focusX += ((left + Math.min(left + SALIENCY_CELL_SIZE, width)) / 2) * score
+    focusY += ((top + Math.min(top + SALIENCY_CELL_SIZE, height)) / 2) * score
+    totalWeight += score
+  }
+
+  return { x: focusX / totalWeight, y: focusY / totalWeight }
+}
+
+/**
+ * 顯著性分析前將圖片縮小到的最大邊長 (像素)
+ * @constant
+ */
+const SALIENCY_MAX_SIZE = 128
+
+/**
+ * 以顯著性分析 (邊緣強度與熵值) 估計圖片的焦點
+ *
+ * @description
+ * 先將圖片縮小到 128 像素以內再分析 (見 calculateSaliencyFocus)，結果換算回原始圖片像素。
+ */
+export const detectSalientPoint: FocalPointProvider = (image) => {
+  const { naturalWidth, naturalHeight } = image
+  if (!naturalWidth || !naturalHeight) return null
+
+  const scale = Math.min(1, SALIENCY_MAX_SIZE / Math.max(naturalWidth, naturalHeight))
+  const width = Math.max(1, Math.round(naturalWidth * scale))
+  const height = Math.max(1, Math.round(naturalHeight * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) return null
+
+  context.drawImage(image, 0, 0, width, height)
+  const focus = calculateSaliencyFocus(context.getImageData(0, 0, width, height))
+  if (!focus) return null
+
+  return { x: (focus.x * naturalWidth) / width, y: (focus.y * naturalHeight) / height }
+}
+
+/**
+ * 預設的焦點提供者：瀏覽器支援 FaceDetector 且偵測到臉部時對準臉部，否則使用顯著性分析
+ */
+export const detectFocalPoint: FocalPointProvider = async (image) => {
+  const faces = await Promise.resolve(detectFaces(image)).catch(() => null)
+  return faces ?? detectSalientPoint(image)
+}
+
+/**
+ * 以焦點提供者取得圖片的焦點中心
+ *
+ * @description
+ * 焦點只影響初始構圖，因此提供者失敗時不中斷載入流程，記錄警告後回傳 null (維持置中)。
+ * 回傳的焦點會限制在圖片範圍內。
+ *
+ * @param {HTMLImageElement} image - 載入完成的圖片
+ * @param {FocalPointProvider} [provider] - 焦點提供者，預設為 detectFocalPoint
+ * @returns {Promise<FocalPoint | null>} 焦點中心 (原始圖片像素)，找不到時為 null
+ */
+export const findFocalPoint = async (
+  image: HTMLImageElement,
+  provider: FocalPointProvider = detectFocalPoint,
+): Promise<FocalPoint | null> => {
+  try {
+    const focus = await provider(image)
+    if (!focus) return null
+
+    const center = getFocusCenter(focus)
+    if (!Number.isFinite(center.x) || !Number.isFinite(center.y)) return null
+
+    return {
+      x: Math.min(Math.max(center.x, 0), image.naturalWidth),
+      y: Math.min(Math.max(center.y, 0), image.naturalHeight),
+    }
+  } catch (error) {
+    console.warn('Failed to detect focal point:', error)
+    return null
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * 構圖輔助線
+ * - thirds: 三分法
+ * - golden-grid: 黃金比例格線 (0.382 / 0.618)
+ * - golden-spiral: 黃金螺旋
+ * - diagonal: 對角線
+ * - center: 中心十字
+ */
+export type CompositionGuide = 'thirds' | 'golden-grid' | 'golden-spiral' | 'diagonal' | 'center'
+
+/**
+ * 安全區域的內縮距離 (裁切框寬高的比例，0 ~ 0.5)
+ *
+ * @example
+ * // 限時動態 (9:16)：上方 14%、下方 20% 會被介面遮住
+ * const safeArea: SafeAreaInsets = { top: 0.14, bottom: 0.2 }
+ */
+export interface SafeAreaInsets {
+  top?: number
+  right?: number
+  bottom?: number
+  left?: number
+}
+
+/**
+ * 構圖輔助線設定 (只在使用者操作裁切框或圖片時顯示)
+ */
+export interface CropGuides {
+  /** 顯示的構圖輔助線，可同時顯示多種 */
+  lines?: readonly CompositionGuide[]
+  /** 安全區域，區域外會標示為可能被介面遮住 */
+  safeArea?: SafeAreaInsets
+}
+
+/**
+ * 黃金比例 φ 的倒數 (≈ 0.618)
+ * @constant
+ */
+const GOLDEN_RATIO_INVERSE = (Math.sqrt(5) - 1) / 2
+
+/**
+ * 黃金螺旋的弧數 (每個弧為四分之一圈)
+ * @constant
+ */
+const GOLDEN_SPIRAL_ARCS = 10
+
+// SVG path 的座標取到小數點後三位，避免過長的字串
+const format = (value: number) => String(Math.round(value * 1000) / 1000)
+
+/**
+ * 產生黃金螺旋的 SVG path (0 ~ 100 的座標系)
+ *
+ * @description
+ * 依序從剩餘的矩形切下左、上、右、下 0.618 的區塊，並在每個區塊內畫四分之一圓弧 (裁切框不是黃金比例時為橢圓弧)，
+ * 前一段弧的終點即為下一段的起點，因此連成一條螺旋，收斂點位於黃金比例格線的交點附近。
+ */
+const getGoldenSpiralPath = () => {
+  let x = 0
+  let y = 0
+  let width = 100
+  let height = 100
+  const commands = [`M ${format(x)} ${format(y + height)}`]
+
+  for (let arc = 0; arc < GOLDEN_SPIRAL_ARCS; arc++) {
+    const direction = arc % 4
+    let endX: number
+    let endY: number
+    let radiusX: number
+    let radiusY: number
+
+    if (direction === 0) {
+      // 左側區塊：左下 → 右上
+      radiusX = width * GOLDEN_RATIO_INVERSE
+      radiusY = height
+      endX = x + radiusX
+      endY = y
+      x += radiusX
+      width -= radiusX
+    } else if (direction === 1) {
+      // 上方區塊：左上 → 右下
+      radiusX = width
+      radiusY = height * GOLDEN_RATIO_INVERSE
+      endX = x + width
+      endY = y + radiusY
+      y += radiusY
+      height -= radiusY
+    } else if (direction === 2) {
+      // 右側區塊：右上 → 左下
+      radiusX = width * GOLDEN_RATIO_INVERSE
+      radiusY = height
+      endX = x + width - radiusX
+      endY = y + height
+      width -= radiusX
+    } else {
+      // 下方區塊：右下 → 左上
+      radiusX = width
+      radiusY = height * GOLDEN_RATIO_INVERSE
+      endX = x
+      endY = y + height - radiusY
+      height -= radiusY
+    }
+
+    commands.push(`A ${format(radiusX)} ${format(radiusY)} 0 0 1 ${format(endX)} ${format(endY)}`)
+  }
+
+  return commands.join(' ')
+}
+
+const getGridPath = (first: number, second: number) =>
+  [
+    `M ${format(first)} 0 V 100`,
+    `M ${format(second)} 0 V 100`,
+    `M 0 ${format(first)} H 100`,
+    `M 0 ${format(second)} H 100`,
+  ].join(' ')
+
+/**
+ * 取得構圖輔助線的 SVG path
+ *
+ * @description
+ * 座標系為 0 ~ 100 (viewBox="0 0 100 100")，搭配 preserveAspectRatio="none" 延展到裁切框的大小，
+ * 線條以 vector-effect="non-scaling-stroke" 維持固定粗細。
+ *
+ * @param {CompositionGuide} guide - 構圖輔助線
+ * @returns {string} SVG path 的 d 屬性
+ */
+export const getGuidePath = (guide: CompositionGuide) => {
+  switch (guide) {
+    case 'thirds':
+      return getGridPath(100 / 3, 200 / 3)
+    case 'golden-grid':
+      return getGridPath(100 * (1 - GOLDEN_RATIO_INVERSE), 100 * GOLDEN_RATIO_INVERSE)
+    case 'golden-spiral':
+      return getGoldenSpiralPath()
+    case 'diagonal':
+      return 'M 0 0 L 100 100 M 100 0 L 0 100'
+    case 'center':
+      return 'M 50 40 V 60 M 40 50 H 60'
+  }
+}
+
+/**
+ * 將安全區域限制在有效範圍內 (各邊 0 ~ 0.5)，沒有任何內縮時回傳 null
+ *
+ * @param {SafeAreaInsets} [insets] - 安全區域
+ * @returns {Required<SafeAreaInsets> | null} 四邊的內縮比例
+ */
+export const normalizeSafeArea = (insets?: SafeAreaInsets): Required<SafeAreaInsets> | null => {
+  if (!insets) return null
+
+  const clamp = (value = 0) => (Number.isFinite(value) ? Math.min(Math.max(value, 0), 0.5) : 0)
+  const normalized = {
+    top: clamp(insets.top),
+    right: clamp(insets.right),
+    bottom: clamp(insets.bottom),
+    left: clamp(insets.left),
+  }
+
+  return Object.values(normalized).some((value) => value > 0) ? normalized : null
+}
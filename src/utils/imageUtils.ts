@@ -1,67 +1,260 @@
-import { EXPORT_IMAGE_QUALITY, EXPORT_WEBP_QUALITY } from '@/composables/useCropper'
+import type { CropData } from '@/composables/useCropper'
+import { getMessages } from '@/i18n'
+import type { ImageAdjustments } from './adjustmentUtils'
+import {
+  EncodeError,
+  calculateExportSize,
+  encodeCanvas,
+  getCropMaskGeometry,
+  type CropMask,
+  type CropMaskGeometry,
+  type EncodableCanvas,
+  type ExportErrorCode,
+  type ExportFormat,
+  type ExportOptions,
+  type OptimizedBlobResult,
+} from './encodeUtils'
+
+// 編碼相關的型別與函式移至 encodeUtils.ts (供編碼 Worker 使用)，此處維持原本的匯出
+export {
+  calculateExportSize,
+  getCropMaskGeometry,
+  hasTransparentPixels,
+  DEFAULT_MASK_RADIUS,
+  type CropShape,
+  type CropMask,
+  type CropMaskGeometry,
+  type EncodableCanvas,
+  type ExportErrorCode,
+  type ExportFormat,
+  type ExportOptions,
+  type OptimizedBlobResult,
+} from './encodeUtils'
+
+/**
+ * 隨上傳與下載事件提供的裁切結果資訊
+ */
+export interface CropResultInfo {
+  /** 裁切框長寬比 (width / height)，自由比例時為 null */
+  aspectRatio: number | null
+  /** 輸出圖片寬度 (像素) */
+  width: number
+  /** 輸出圖片高度 (像素) */
+  height: number
+  /** 裁切區域在原始圖片像素座標中的位置與旋轉、翻轉 (與輸出尺寸無關) */
+  cropData: CropData
+  /** 套用到輸出圖片的調整 (亮度、對比、濾鏡等) */
+  adjustments: ImageAdjustments
+  /** 遮罩在輸出圖片上的幾何資訊，只在 shape 不是矩形時提供 */
+  geometry?: CropMaskGeometry
+}
+
+/**
+ * 輸出變體：同一次裁切產生多種尺寸或比例的輸出 (例如 1x / 2x / 3x 頭像、1:1 縮圖與 16:9 封面)
+ */
+export interface OutputVariant {
+  /** 變體名稱，作為輸出結果的 key (例如 'avatar@2x')，不可重複 */
+  name: string
+  /** 分頁顯示文字，未指定時使用 name */
+  label?: string
+  /** 裁切框長寬比 (width / height)，未指定時使用容器的 aspectRatio */
+  aspectRatio?: number
+  /** 輸出寬度 (像素)，高度依比例計算 */
+  width?: number
+  /** 偏好的輸出格式，未指定時使用容器的 exportOptions.formats */
+  formats?: ExportFormat[]
+  /** 其他匯出設定，覆寫容器 exportOptions 的同名設定 */
+  exportOptions?: ExportOptions
+}
+
+/**
+ * 匯出錯誤
+ *
+ * @description message 為目前全域語系的訊息，需要自訂文字時可改以 code 判斷
+ */
+export class ExportError extends Error {
+  readonly code: ExportErrorCode
+
+  constructor(code: ExportErrorCode) {
+    super(getMessages().export[code])
+    this.name = 'ExportError'
+    this.code = code
+  }
+}
+
+/**
+ * 產生輸出檔名：移除原檔名的副檔名，加上後綴與輸出格式的副檔名
+ *
+ * @description 原檔名沒有副檔名時 (例如由 Blob 或 data URL 載入的 image) 直接加上後綴，避免輸出檔名缺少副檔名
+ *
+ * @param {string} name - 原檔名
+ * @param {string} suffix - 後綴 (例如 cropped 或變體名稱)
+ * @param {string} extension - 輸出格式的副檔名 (含 .)
+ * @returns {string} 輸出檔名
+ *
+ * @example
+ * getExportFileName('photo.jpg', 'cropped', '.webp') // 'photo-cropped.webp'
+ * getExportFileName('image', 'avatar@2x', '.png') // 'image-avatar@2x.png'
+ */
+export const getExportFileName = (name: string, suffix: string, extension: string) =>
+  `${name.replace(/\.[^.]+$/, '')}-${suffix}${extension}`
+
+/**
+ * 合併容器與輸出變體的匯出設定 (變體的設定優先)
+ *
+ * @param {OutputVariant} variant - 輸出變體
+ * @param {ExportOptions} [base] - 容器的匯出設定
+ * @returns {ExportOptions} 此變體使用的匯出設定
+ *
+ * @example
+ * resolveVariantExportOptions({ name: 'avatar@2x', width: 256 }, { formats: ['image/png'] })
+ * // { formats: ['image/png'], width: 256 }
+ */
+export const resolveVariantExportOptions = (
+  variant: OutputVariant,
+  base: ExportOptions = {},
+): ExportOptions => ({
+  ...base,
+  ...variant.exportOptions,
+  ...(variant.formats?.length ? { formats: variant.formats } : {}),
+  ...(variant.width ? { width: variant.width } : {}),
+})
+
+/**
+ * 合併容器的 exportOptions 與 backgroundColor / 遮罩 prop 的匯出設定
+ *
+ * @description backgroundColor 與遮罩 (shapeOutput 為 mask 時) 的 prop 優先於 exportOptions 的同名設定
+ *
+ * @param {ExportOptions} [options] - 容器的 exportOptions
+ * @param {Object} [overrides] - 覆寫的設定
+ * @param {string} [overrides.backgroundColor] - backgroundColor prop
+ * @param {CropMask | null} [overrides.mask] - 套用到輸出圖片的遮罩，不套用時為 null
+ * @returns {ExportOptions} 容器使用的匯出設定
+ *
+ * @example
+ * resolveExportOptions({ maxBytes: 500 * 1024 }, { backgroundColor: '#fff', mask: null })
+ * // { maxBytes: 512000, backgroundColor: '#fff', mask: undefined }
+ */
+export const resolveExportOptions = (
+  options: ExportOptions = {},
+  overrides: { backgroundColor?: string; mask?: CropMask | null } = {},
+): ExportOptions => ({
+  ...options,
+  backgroundColor: overrides.backgroundColor ?? options.backgroundColor,
+  mask: overrides.mask || options.mask,
+})
+
+/**
+ * 產生隨輸出事件提供的裁切結果資訊
+ *
+ * @description
+ * 包含裁切比例、輸出尺寸與原圖上的裁切區域 (getCropData)；
+ * 非矩形時附上遮罩在輸出圖片上的幾何資訊 (shapeOutput 為 metadata 時由呼叫端自行套用遮罩)。
+ *
+ * @param {Object} canvas - 裁切結果的 Canvas (只使用寬高)
+ * @param {ExportOptions} options - 此次輸出使用的匯出設定 (決定輸出尺寸)
+ * @param {Object} result - 裁切結果
+ * @param {number | null} result.aspectRatio - 裁切框長寬比，自由比例時為 null
+ * @param {CropData} result.cropData - 原始圖片像素座標中的裁切區域
+ * @param {ImageAdjustments} result.adjustments - 套用到輸出圖片的調整
+ * @param {CropMask | null} result.mask - 裁切形狀遮罩，矩形時為 null
+ * @returns {CropResultInfo} 裁切結果資訊
+ *
+ * @example
+ * const info = getCropResultInfo(canvas, options, {
+ *   aspectRatio: 1,
+ *   cropData,
+ *   adjustments: adjustments.value,
+ *   mask: cropMask.value,
+ * })
+ */
+export const getCropResultInfo = (
+  canvas: { width: number; height: number },
+  options: ExportOptions,
+  result: {
+    aspectRatio: number | null
+    cropData: CropData
+    adjustments: ImageAdjustments
+    mask: CropMask | null
+  },
+): CropResultInfo => {
+  const size = calculateExportSize(canvas.width, canvas.height, options)
+  return {
+    aspectRatio: result.aspectRatio,
+    ...size,
+    cropData: result.cropData,
+    adjustments: { ...result.adjustments },
+    ...(result.mask && { geometry: getCropMaskGeometry(result.mask, size) }),
+  }
+}
 
 /**
- * 圖片匯出結果介面
+ * 以 CSS border-radius 描述遮罩 (供編輯器與預覽顯示與匯出相同的形狀)
+ *
+ * @description
+ * 百分比的 border-radius 水平方向以寬度、垂直方向以高度計算，
+ * 因此依長寬比換算，讓 rounded 的圓角在非正方形的裁切框上仍為正圓角。
+ *
+ * @param {CropMask} mask - 裁切形狀遮罩
+ * @param {number} aspectRatio - 裁切框長寬比 (width / height)
+ * @returns {string} CSS border-radius 值
+ *
+ * @example
+ * getCropMaskBorderRadius({ shape: 'rounded', radius: 0.1 }, 2) // '5% / 10%'
  */
-export interface OptimizedBlobResult {
-  /** 圖片 Blob 物件 */
-  blob: Blob
-  /** 圖片 MIME type (例如: image/webp) */
-  mimeType: string
-  /** 建議的檔案副檔名 (包含點號，例如: .webp) */
-  extension: string
+export const getCropMaskBorderRadius = (mask: CropMask, aspectRatio: number) => {
+  const width = Math.max(aspectRatio, 1)
+  const height = Math.max(1 / aspectRatio, 1)
+  const { radiusX, radiusY } = getCropMaskGeometry(mask, { width, height })
+  return `${(radiusX / width) * 100}% / ${(radiusY / height) * 100}%`
 }
 
 /**
  * 取得最佳化後的圖片 Blob
  *
  * @description
- * 此函式實作了「WebP 優先」的匯出策略：
+ * 預設實作「WebP 優先」的匯出策略：
  * 1. 優先嘗試將 Canvas 匯出為 WebP 格式 (品質: EXPORT_WEBP_QUALITY)
  * 2. 若瀏覽器不支援 WebP (例如舊版 iOS)，則自動 Fallback 回 JPEG (品質: EXPORT_IMAGE_QUALITY)
  *
- * 這樣可以在支援的瀏覽器上獲得更小的檔案大小與更好的畫質，
- * 同時確保在舊版瀏覽器上的相容性。
+ * 透過 options 可以調整：
+ * - formats: 偏好的格式順序 (例如只要 PNG，或 AVIF → WebP → JPEG)
+ * - quality: 各格式的品質
+ * - maxWidth / maxHeight / fitWithin: 輸出尺寸上限 (只縮小、不放大)
+ * - resampling: 縮小時的縮圖演算法 (stepwise / lanczos3 / bilinear / browser)
+ * - mask: 圓形或圓角遮罩，遮罩外的像素為透明 (由下方的透明度保護改用支援透明度的格式)
+ * - maxBytes: 檔案大小上限，超過時以二分搜尋降低品質；
+ *   若某格式在最低品質仍無法符合，會改試下一個格式，全部失敗則以 ExportError (exceeds-max-bytes) reject
+ * - backgroundColor: 將透明區域填滿背景色 (刻意攤平透明度)
+ *
+ * [透明度保護]
+ * 未指定 backgroundColor 時，若裁切結果含有透明像素 (例如透明背景的 PNG Logo)，
+ * 會略過 JPEG 等不支援透明度的格式，改用 WebP → PNG，避免透明區域變成黑底或白底。
  *
- * @param {HTMLCanvasElement} canvas - 來源 Canvas 元素
+ * 此函式在呼叫的執行緒上編碼；大圖請改用 encodeImage (workerEncoder.ts) 交由 Web Worker 處理。
+ *
+ * @param {EncodableCanvas} canvas - 來源 Canvas 元素 (Worker 內為 OffscreenCanvas)
+ * @param {ExportOptions} [options] - 匯出設定
  * @returns {Promise<OptimizedBlobResult>} 包含 Blob、MimeType 與副檔名的結果物件
+ * @throws {ExportError} 無法在檔案大小上限內輸出、瀏覽器不支援任何指定的格式，或 Canvas 被跨來源圖片污染
+ *
+ * @example
+ * // 頭像：最長邊 512px，且檔案不超過 500KB
+ * const { blob, extension } = await getOptimizedBlob(canvas, {
+ *   fitWithin: 512,
+ *   maxBytes: 500 * 1024,
+ * })
  */
-export const getOptimizedBlob = (canvas: HTMLCanvasElement): Promise<OptimizedBlobResult> => {
-  return new Promise((resolve, reject) => {
-    // 優先嘗試 WebP 格式
-    canvas.toBlob(
-      (blob) => {
-        // 檢查是否成功匯出為 WebP
-        // iOS < 14 等不支援 WebP 的瀏覽器，即使指定 image/webp，也會回傳 image/png 或 image/jpeg
-        if (blob && blob.type === 'image/webp') {
-          resolve({
-            blob,
-            mimeType: 'image/webp',
-            extension: '.webp',
-          })
-          return
-        }
-
-        // WebP 失敗，Fallback 到 JPEG
-        // 使用 JPEG 而非 PNG，以避免檔案過大 (除非原圖有透明度需求，但在照片裁切場景通常以 JPEG 為主)
-        canvas.toBlob(
-          (jpegBlob) => {
-            if (jpegBlob) {
-              resolve({
-                blob: jpegBlob,
-                mimeType: 'image/jpeg',
-                extension: '.jpg',
-              })
-            } else {
-              reject(new Error('圖片匯出失敗 (JPEG Fallback)'))
-            }
-          },
-          'image/jpeg',
-          EXPORT_IMAGE_QUALITY,
-        )
-      },
-      'image/webp',
-      EXPORT_WEBP_QUALITY,
-    )
-  })
+export const getOptimizedBlob = async (
+  canvas: EncodableCanvas,
+  options: ExportOptions = {},
+): Promise<OptimizedBlobResult> => {
+  try {
+    return await encodeCanvas(canvas, options)
+  } catch (error) {
+    if (error instanceof EncodeError) {
+      throw new ExportError(error.code)
+    }
+    throw error
+  }
 }
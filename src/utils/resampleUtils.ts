@@ -0,0 +1,288 @@
+/**
+ * 縮圖演算法
+ * - browser: 交由瀏覽器的 drawImage 一次縮放 (最快，但大幅縮小時容易產生鋸齒與摩爾紋)
+ * - stepwise: 每次縮小一半 (2x2 平均) 直到接近目標尺寸，最後以雙線性插值縮放至目標尺寸
+ * - bilinear: 雙線性插值 (適合小幅縮放，大幅縮小時仍會產生鋸齒)
+ * - lanczos3: Lanczos (a = 3) 濾波 (品質最高、最慢)
+ */
+export type ResamplingMethod = 'browser' | 'stepwise' | 'bilinear' | 'lanczos3'
+
+/**
+ * RGBA 像素資料 (與 ImageData 相容)
+ */
+export interface PixelBuffer {
+  /** RGBA，每 4 個值為一個像素 */
+  data: Uint8ClampedArray<ArrayBuffer>
+  width: number
+  height: number
+}
+
+/**
+ * 以 TypeScript 實作的縮圖演算法 (browser 需要 Canvas，不在此列)
+ */
+export type PixelResamplingMethod = Exclude<ResamplingMethod, 'browser'>
+
+type Kernel = (x: number) => number
+
+interface AxisWeights {
+  /** 第一個取樣的來源像素 */
+  start: number
+  /** 各來源像素的權重 (總和為 1) */
+  weights: Float32Array
+}
+
+const triangle: Kernel = (x) => Math.max(0, 1 - Math.abs(x))
+
+/**
+ * Lanczos 濾波的視窗半徑 (Lanczos3 取前後各 3 個像素)
+ * @constant
+ */
+const LANCZOS_RADIUS = 3
+
+const lanczos3: Kernel = (x) => {
+  if (x === 0) return 1
+  if (Math.abs(x) >= LANCZOS_RADIUS) return 0
+
+  const px = Math.PI * x
+  return (LANCZOS_RADIUS * Math.sin(px) * Math.sin(px / LANCZOS_RADIUS)) / (px * px)
+}
+
+// [為什麼以預乘 Alpha 計算？]
+// 直接對 RGBA 插值時，完全透明的像素 (通常是黑色 0,0,0,0) 會把顏色混進邊緣，
+// 讓透明背景的 Logo 縮小後出現黑邊。先將顏色乘上 Alpha 再插值，最後再除回來即可避免。
+const toPremultiplied = ({ data }: PixelBuffer) => {
+  const result = new Float32Array(data.length)
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3]! / 255
+    result[i] = data[i]! * alpha
+    result[i + 1] = data[i + 1]! * alpha
+    result[i + 2] = data[i + 2]! * alpha
+    result[i + 3] = data[i + 3]!
+  }
+  return result
+}
+
+const fromPremultiplied = (pixels: Float32Array, width: number, height: number): PixelBuffer => {
+  const data = new Uint8ClampedArray(pixels.length)
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + 3]!
+    if (alpha <= 0) continue
+
+    // Lanczos 的負權重可能讓顏色超出 Alpha，由 Uint8ClampedArray 限制在 0 ~ 255
+    const factor = 255 / alpha
+    data[i] = pixels[i]! * factor
+    data[i + 1] = pixels[i + 1]! * factor
+    data[i + 2] = pixels[i + 2]! * factor
+    data[i + 3] = alpha
+  }
+  return { data, width, height }
+}
+
+/**
+ * 計算單一方向上每個輸出像素對應的來源像素與權重
+ *
+ * @description
+ * 以像素中心對齊 (第 i 個輸出像素的中心對應來源的 (i + 0.5) / scale)。
+ * widen 為 true 時，縮小會依比例放寬濾波範圍，讓每個輸出像素涵蓋所有對應的來源像素 (抗鋸齒)；
+ * 雙線性插值不放寬，固定只取相鄰的兩個像素。
+ */
+const computeAxisWeights = (
+  sourceLength: number,
+  targetLength: number,
+  kernel: Kernel,
+  radius: number,
+  widen: boolean,
+): AxisWeights[] => {
+  const scale = targetLength / sourceLength
+  const filterScale = widen ? Math.max(1, 1 / scale) : 1
+  const support = radius * filterScale
+
+  return Array.from({ length: targetLength }, (_, index) => {
+    const center = (index + 0.5) / scale
+    const start = Math.max(0, Math.floor(center - support))
+    const end = Math.min(sourceLength, Math.ceil(center + support))
+
+    const weights = new Float32Array(Math.max(0, end - start))
+    let sum = 0
+    for (let j = start; j < end; j++) {
+      const weight = kernel((j + 0.5 - center) / filterScale)
+      weights[j - start] = weight
+      sum += weight
+    }
+
+    // 權重總和為 0 時 (理論上不會發生) 改用最近的像素
+    if (sum === 0) {
+      const nearest = Math.min(sourceLength - 1, Math.max(0, Math.floor(center)))
+      return { start: nearest, weights: Float32Array.of(1) }
+    }
+
+    return { start, weights: weights.map((weight) => weight / sum) }
+  })
+}
+
+/**
+ * 可分離濾波：先水平縮放每一列，再垂直縮放每一欄
+ */
+const convolve = (
+  pixels: Float32Array,
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number,
+  kernel: Kernel,
+  radius: number,
+  widen: boolean,
+) => {
+  const horizontal = computeAxisWeights(width, targetWidth, kernel, radius, widen)
+  const vertical = computeAxisWeights(height, targetHeight, kernel, radius, widen)
+
+  const temp = new Float32Array(targetWidth * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < targetWidth; x++) {
+      const { start, weights } = horizontal[x]!
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let k = 0; k < weights.length; k++) {
+        const weight = weights[k]!
+        const src = (y * width + start + k) * 4
+        r += pixels[src]! * weight
+        g += pixels[src + 1]! * weight
+        b += pixels[src + 2]! * weight
+        a += pixels[src + 3]! * weight
+      }
+      const out = (y * targetWidth + x) * 4
+      temp[out] = r
+      temp[out + 1] = g
+      temp[out + 2] = b
+      temp[out + 3] = a
+    }
+  }
+
+  const result = new Float32Array(targetWidth * targetHeight * 4)
+  for (let y = 0; y < targetHeight; y++) {
+    const { start, weights } = vertical[y]!
+    for (let x = 0; x < targetWidth; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let k = 0; k < weights.length; k++) {
+        const weight = weights[k]!
+        const src = ((start + k) * targetWidth + x) * 4
+        r += temp[src]! * weight
+        g += temp[src + 1]! * weight
+        b += temp[src + 2]! * weight
+        a += temp[src + 3]! * weight
+      }
+      const out = (y * targetWidth + x) * 4
+      result[out] = r
+      result[out + 1] = g
+      result[out + 2] = b
+      result[out + 3] = a
+    }
+  }
+
+  return result
+}
+
+/**
+ * 縮小一半 (每 2x2 個像素平均為 1 個像素)
+ * @description 奇數尺寸時最後一列 / 欄與前一列 / 欄合併，避免遺失邊緣像素
+ */
+const halve = (pixels: Float32Array, width: number, height: number) => {
+  const targetWidth = Math.max(1, Math.floor(width / 2))
+  const targetHeight = Math.max(1, Math.floor(height / 2))
+  const result = new Float32Array(targetWidth * targetHeight * 4)
+
+  for (let y = 0; y < targetHeight; y++) {
+    const y0 = y * 2
+    const y1 = y === targetHeight - 1 ? height : y0 + 2
+    for (let x = 0; x < targetWidth; x++) {
+      const x0 = x * 2
+      const x1 = x === targetWidth - 1 ? width : x0 + 2
+      const count = (y1 - y0) * (x1 - x0)
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const src = (sy * width + sx) * 4
+          r += pixels[src]!
+          g += pixels[src + 1]!
+          b += pixels[src + 2]!
+          a += pixels[src + 3]!
+        }
+      }
+
+      const out = (y * targetWidth + x) * 4
+      result[out] = r / count
+      result[out + 1] = g / count
+      result[out + 2] = b / count
+      result[out + 3] = a / count
+    }
+  }
+
+  return { pixels: result, width: targetWidth, height: targetHeight }
+}
+
+/**
+ * 以指定的演算法縮放像素資料
+ *
+ * @description
+ * 純 TypeScript 實作 (不依賴 Canvas)，相同輸入一定得到相同輸出，可在 Web Worker 與單元測試中使用。
+ * 尺寸相同時直接回傳原資料。
+ *
+ * @param {PixelBuffer} source - 來源像素 (例如 context.getImageData 的結果)
+ * @param {number} width - 目標寬度 (像素)
+ * @param {number} height - 目標高度 (像素)
+ * @param {PixelResamplingMethod} method - 縮圖演算法
+ * @returns {PixelBuffer} 縮放後的像素資料
+ *
+ * @example
+ * const resized = resamplePixels(context.getImageData(0, 0, 4000, 3000), 1000, 750, 'lanczos3')
+ * targetContext.putImageData(new ImageData(resized.data, resized.width, resized.height), 0, 0)
+ */
+export const resamplePixels = (
+  source: PixelBuffer,
+  width: number,
+  height: number,
+  method: PixelResamplingMethod,
+): PixelBuffer => {
+  if (source.width === width && source.height === height) return source
+
+  let pixels = toPremultiplied(source)
+  let currentWidth = source.width
+  let currentHeight = source.height
+
+  if (method === 'lanczos3') {
+    pixels = convolve(
+      pixels,
+      currentWidth,
+      currentHeight,
+      width,
+      height,
+      lanczos3,
+      LANCZOS_RADIUS,
+      true,
+    )
+    return fromPremultiplied(pixels, width, height)
+  }
+
+  if (method === 'stepwise') {
+    while (currentWidth / 2 >= width && currentHeight / 2 >= height) {
+      const halved = halve(pixels, currentWidth, currentHeight)
+      pixels = halved.pixels
+      currentWidth = halved.width
+      currentHeight = halved.height
+    }
+  }
+
+  if (currentWidth !== width || currentHeight !== height) {
+    pixels = convolve(pixels, currentWidth, currentHeight, width, height, triangle, 1, false)
+  }
+  return fromPremultiplied(pixels, width, height)
+}
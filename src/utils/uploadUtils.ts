@@ -0,0 +1,476 @@
+import { getMessages } from '@/i18n'
+
+/**
+ * 上傳進度 (bytes)
+ */
+export interface UploadProgress {
+  /** 已傳送的大小 */
+  loaded: number
+  /** 總大小 (無法得知時為 0) */
+  total: number
+}
+
+/**
+ * 上傳時的控制項
+ */
+export interface UploadContext {
+  /** 取消上傳 (AbortController.signal) */
+  signal: AbortSignal
+  /** 回報上傳進度 */
+  onProgress: (progress: UploadProgress) => void
+}
+
+/**
+ * 上傳轉接器 (Adapter)
+ *
+ * @description
+ * 實作 upload 即可接上任意後端。內建 createFormDataUploader (multipart POST)
+ * 與 createPresignedUrlUploader (預先簽署網址 PUT)。失敗時應拋出 UploadError，以便判斷是否重試。
+ */
+export interface Uploader<T = unknown> {
+  upload: (file: File, context: UploadContext) => Promise<T>
+}
+
+/**
+ * 傳送給 UploadTransport 的請求
+ */
+export interface UploadRequest {
+  method: 'POST' | 'PUT'
+  url: string
+  headers?: Record<string, string>
+  body: Blob | FormData
+}
+
+/**
+ * UploadTransport 回傳的回應
+ */
+export interface UploadHttpResponse {
+  /** HTTP 狀態碼 */
+  status: number
+  /** 回應內容 (文字) */
+  body: string
+}
+
+/**
+ * 實際送出請求的函式
+ *
+ * @description
+ * 預設使用 xhrTransport (XMLHttpRequest 才能取得上傳進度)；
+ * 測試或不需要進度時可改用 createFetchTransport 並傳入 fetch stub。
+ * 網路錯誤與取消應拋出 UploadError，HTTP 錯誤則照常回傳，由轉接器判斷。
+ */
+export type UploadTransport = (
+  request: UploadRequest,
+  context: UploadContext,
+) => Promise<UploadHttpResponse>
+
+/**
+ * 上傳錯誤代碼
+ * - http-error: 伺服器回應非 2xx 狀態碼
+ * - network-error: 網路錯誤或無法取得上傳網址
+ * - invalid-response: 上傳成功但無法解析伺服器的回應 (parseResponse 拋出錯誤)
+ * - upload-failed: 自訂轉接器拋出 UploadError 以外的錯誤 (無法判斷原因，不重試)
+ * - aborted: 使用者取消上傳
+ */
+export type UploadErrorCode =
+  | 'http-error'
+  | 'network-error'
+  | 'invalid-response'
+  | 'upload-failed'
+  | 'aborted'
+
+/**
+ * 上傳錯誤
+ *
+ * @description message 為目前全域語系的訊息，需要自訂文字時可改以 code 與 status 判斷
+ */
+export class UploadError extends Error {
+  readonly code: UploadErrorCode
+  /** HTTP 狀態碼 (僅 http-error) */
+  readonly status?: number
+
+  constructor(code: UploadErrorCode, status?: number) {
+    super(getMessages().upload[code]({ status }))
+    this.name = 'UploadError'
+    this.code = code
+    this.status = status
+  }
+}
+
+/**
+ * 上傳重試設定
+ */
+export interface UploadRetryOptions {
+  /** 最多重試次數 (不含第一次上傳)，預設 2 */
+  retries?: number
+  /** 第一次重試前的等待時間 (ms)，之後每次加倍，預設 500 */
+  baseDelay?: number
+  /** 重試等待時間上限 (ms)，預設 8000 */
+  maxDelay?: number
+}
+
+/**
+ * 上傳結果
+ * - ok: true 時 data 為轉接器回傳的資料
+ * - ok: false 時 error 為最後一次失敗的原因
+ */
+export type UploadResult<T = unknown> =
+  | { ok: true; data: T; attempts: number }
+  | { ok: false; error: UploadError; attempts: number }
+
+const DEFAULT_RETRIES = 2
+const DEFAULT_BASE_DELAY_MS = 500
+const DEFAULT_MAX_DELAY_MS = 8000
+
+/**
+ * 以 XMLHttpRequest 送出請求 (支援上傳進度)
+ */
+export const xhrTransport: UploadTransport = (request, { signal, onProgress }) =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new UploadError('aborted'))
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    const abort = () => xhr.abort()
+
+    xhr.open(request.method, request.url)
+    Object.entries(request.headers ?? {}).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value)
+    })
+
+    xhr.upload.onprogress = (event) => {
+      onProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : 0 })
+    }
+    xhr.onload = () => resolve({ status: xhr.status, body: xhr.responseText })
+    xhr.onerror = () => reject(new UploadError('network-error'))
+    xhr.onabort = () => reject(new UploadError('aborted'))
+    xhr.onloadend = () => signal.removeEventListener('abort', abort)
+
+    signal.addEventListener('abort', abort, { once: true })
+    xhr.send(request.body)
+  })
+
+/**
+ * 建立以 fetch 送出請求的 Transport
+ *
+ * @description fetch 無法取得上傳進度，只會在開始與完成時各回報一次
+ *
+ * @param {typeof fetch} [fetchFn] - fetch 實作 (測試時可傳入 stub)
+ * @returns {UploadTransport} Transport
+ *
+ * @example
+ * const uploader = createFormDataUploader({
+ *   url: '/api/upload',
+ *   transport: createFetchTransport(vi.fn().mockResolvedValue(new Response('{}'))),
+ * })
+ */
+export const createFetchTransport =
+  (fetchFn: typeof fetch = (input, init) => fetch(input, init)): UploadTransport =>
+  async (request, { signal, onProgress }) => {
+    const total = request.body instanceof Blob ? request.body.size : 0
+    onProgress({ loaded: 0, total })
+
+    let response: Response
+    try {
+      response = await fetchFn(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal,
+      })
+    } catch {
+      throw new UploadError(signal.aborted ? 'aborted' : 'network-error')
+    }
+
+    // 讀取回應內容時連線中斷也是網路錯誤
+    let body: string
+    try {
+      body = await response.text()
+    } catch {
+      throw new UploadError(signal.aborted ? 'aborted' : 'network-error')
+    }
+    onProgress({ loaded: total, total })
+    return { status: response.status, body }
+  }
+
+/**
+ * 送出請求並檢查狀態碼 (非 2xx 時拋出 http-error)
+ */
+const sendRequest = async (
+  transport: UploadTransport,
+  request: UploadRequest,
+  context: UploadContext,
+) => {
+  const response = await transport(request, context)
+  if (response.status < 200 || response.status >= 300) {
+    throw new UploadError('http-error', response.status)
+  }
+  return response
+}
+
+/**
+ * 以 parseResponse 解析回應 (解析失敗時拋出 invalid-response)
+ *
+ * [為什麼不視為網路錯誤？]
+ * 此時檔案已上傳成功 (2xx)，重試只會重複上傳同一個檔案，而且解析結果也不會改變。
+ * parseResponse 自行拋出的 UploadError (例如回應內容表示失敗) 則照常回報。
+ */
+const parseUploadResponse = <T>(
+  parseResponse: (response: UploadHttpResponse) => T,
+  response: UploadHttpResponse,
+) => {
+  try {
+    return parseResponse(response)
+  } catch (error) {
+    if (error instanceof UploadError) throw error
+    throw new UploadError('invalid-response')
+  }
+}
+
+/**
+ * 解析回應內容：JSON 時回傳物件，否則回傳原始文字
+ */
+export const parseResponseBody = (response: UploadHttpResponse): unknown => {
+  if (!response.body) return null
+
+  try {
+    return JSON.parse(response.body)
+  } catch {
+    return response.body
+  }
+}
+
+/**
+ * multipart/form-data 上傳設定
+ */
+export interface FormDataUploaderOptions<T> {
+  /** 上傳網址 */
+  url: string
+  /** 檔案欄位名稱，預設 'file' */
+  fieldName?: string
+  /** 額外的表單欄位 */
+  fields?: Record<string, string>
+  /** 額外的 HTTP headers (不需指定 Content-Type，由瀏覽器自動加上 boundary) */
+  headers?: Record<string, string>
+  /** 送出請求的方式，預設 xhrTransport */
+  transport?: UploadTransport
+  /** 解析回應，預設為 parseResponseBody */
+  parseResponse?: (response: UploadHttpResponse) => T
+}
+
+/**
+ * 建立 multipart/form-data POST 上傳轉接器
+ *
+ * @param {FormDataUploaderOptions} options - 上傳設定
+ * @returns {Uploader} 上傳轉接器，回傳解析後的回應內容
+ *
+ * @example
+ * const uploader = createFormDataUploader<{ id: string }>({
+ *   url: '/api/avatars',
+ *   fields: { userId: '42' },
+ * })
+ */
+export const createFormDataUploader = <T = unknown>(
+  options: FormDataUploaderOptions<T>,
+): Uploader<T> => {
+  const {
+    url,
+    fieldName = 'file',
+    fields = {},
+    headers,
+    transport = xhrTransport,
+    parseResponse = parseResponseBody as (response: UploadHttpResponse) => T,
+  } = options
+
+  return {
+    upload: async (file, context) => {
+      const body = new FormData()
+      Object.entries(fields).forEach(([name, value]) => body.append(name, value))
+      body.append(fieldName, file, file.name)
+
+      const response = await sendRequest(transport, { method: 'POST', url, headers, body }, context)
+      return parseUploadResponse(parseResponse, response)
+    },
+  }
+}
+
+/**
+ * 預先簽署的上傳網址 (例如 S3 / GCS Presigned URL)
+ */
+export interface PresignedUpload {
+  /** 以 PUT 上傳的網址 */
+  url: string
+  /** 簽署時要求的 headers */
+  headers?: Record<string, string>
+  /** 上傳後的檔案網址，未指定時為 url 去除查詢參數 */
+  fileUrl?: string
+}
+
+/**
+ * 預先簽署網址上傳的結果
+ */
+export interface PresignedUploadResult {
+  /** 上傳後的檔案網址 */
+  url: string
+}
+
+/**
+ * 預先簽署網址上傳設定
+ */
+export interface PresignedUrlUploaderOptions {
+  /** 向後端取得上傳網址 (每次嘗試都會重新取得，避免網址過期) */
+  getUploadUrl: (file: File, signal: AbortSignal) => Promise<PresignedUpload>
+  /** 送出請求的方式，預設 xhrTransport */
+  transport?: UploadTransport
+}
+
+/**
+ * 建立預先簽署網址 PUT 上傳轉接器
+ *
+ * @param {PresignedUrlUploaderOptions} options - 上傳設定
+ * @returns {Uploader<PresignedUploadResult>} 上傳轉接器，回傳檔案網址
+ *
+ * @example
+ * const uploader = createPresignedUrlUploader({
+ *   getUploadUrl: async (file) => {
+ *     const response = await fetch(`/api/upload-url?type=${file.type}`)
+ *     return response.json()
+ *   },
+ * })
+ */
+export const createPresignedUrlUploader = (
+  options: PresignedUrlUploaderOptions,
+): Uploader<PresignedUploadResult> => {
+  const { getUploadUrl, transport = xhrTransport } = options
+
+  return {
+    upload: async (file, context) => {
+      let presigned: PresignedUpload
+      try {
+        presigned = await getUploadUrl(file, context.signal)
+      } catch (error) {
+        if (error instanceof UploadError) throw error
+        throw new UploadError(context.signal.aborted ? 'aborted' : 'network-error')
+      }
+
+      await sendRequest(
+        transport,
+        {
+          method: 'PUT',
+          url: presigned.url,
+          headers: { 'Content-Type': file.type, ...presigned.headers },
+          body: file,
+        },
+        context,
+      )
+
+      return { url: presigned.fileUrl ?? presigned.url.split('?')[0]! }
+    },
+  }
+}
+
+/**
+ * 計算第 n 次重試前的等待時間 (指數退避)
+ *
+ * @param {number} retry - 第幾次重試 (從 1 開始)
+ * @param {UploadRetryOptions} [options] - 重試設定
+ * @returns {number} 等待時間 (ms)
+ *
+ * @example
+ * calculateRetryDelay(1) // 500
+ * calculateRetryDelay(3) // 2000
+ */
+export const calculateRetryDelay = (retry: number, options: UploadRetryOptions = {}) => {
+  const { baseDelay = DEFAULT_BASE_DELAY_MS, maxDelay = DEFAULT_MAX_DELAY_MS } = options
+  return Math.min(maxDelay, baseDelay * 2 ** (retry - 1))
+}
+
+// 只重試暫時性的錯誤：網路錯誤、伺服器錯誤 (5xx) 與流量限制 (429)
+const isRetryable = (error: UploadError) =>
+  error.code === 'network-error' ||
+  (error.code === 'http-error' && !!error.status && (error.status >= 500 || error.status === 429))
+
+// 可被取消的等待
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new UploadError('aborted'))
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new UploadError('aborted'))
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+
+// 網路錯誤由 transport 轉為 UploadError (network-error)，其他未分類的錯誤無法判斷重試是否有效，因此不重試
+const toUploadError = (error: unknown, signal: AbortSignal) =>
+  error instanceof UploadError
+    ? error
+    : new UploadError(signal.aborted ? 'aborted' : 'upload-failed')
+
+/**
+ * 上傳檔案，暫時性錯誤時以指數退避重試
+ *
+ * @description
+ * 不會拋出錯誤，一律回傳 UploadResult。
+ * 只重試網路錯誤、5xx 與 429；其他 HTTP 錯誤 (例如 400、413)、回應解析失敗與取消會立即回傳失敗。
+ *
+ * @param {Uploader} uploader - 上傳轉接器
+ * @param {File} file - 要上傳的檔案
+ * @param {Object} [options] - 上傳設定
+ * @param {UploadRetryOptions} [options.retry] - 重試設定
+ * @param {AbortSignal} [options.signal] - 取消上傳
+ * @param {Function} [options.onProgress] - 上傳進度
+ * @param {Function} [options.onRetry] - 重試前呼叫 (參數為接下來是第幾次嘗試)
+ * @returns {Promise<UploadResult>} 上傳結果
+ *
+ * @example
+ * const controller = new AbortController()
+ * const result = await uploadWithRetry(uploader, file, { signal: controller.signal })
+ * if (result.ok) console.log(result.data)
+ */
+export const uploadWithRetry = async <T>(
+  uploader: Uploader<T>,
+  file: File,
+  options: {
+    retry?: UploadRetryOptions
+    signal?: AbortSignal
+    onProgress?: (progress: UploadProgress) => void
+    onRetry?: (attempt: number) => void
+  } = {},
+): Promise<UploadResult<T>> => {
+  const { retry = {}, signal = new AbortController().signal, onProgress = () => {} } = options
+  const retries = retry.retries ?? DEFAULT_RETRIES
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const data = await uploader.upload(file, { signal, onProgress })
+      return { ok: true, data, attempts: attempt }
+    } catch (caught) {
+      const error = toUploadError(caught, signal)
+      if (signal.aborted || attempt > retries || !isRetryable(error)) {
+        return {
+          ok: false,
+          error: signal.aborted ? new UploadError('aborted') : error,
+          attempts: attempt,
+        }
+      }
+
+      try {
+        await wait(calculateRetryDelay(attempt, retry), signal)
+      } catch {
+        return { ok: false, error: new UploadError('aborted'), attempts: attempt }
+      }
+      options.onRetry?.(attempt + 1)
+    }
+  }
+}
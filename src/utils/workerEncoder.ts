@@ -0,0 +1,168 @@
+import {
+  ExportError,
+  getOptimizedBlob,
+  type ExportErrorCode,
+  type ExportOptions,
+  type OptimizedBlobResult,
+} from './imageUtils'
+
+/**
+ * 傳給編碼 Worker 的訊息
+ */
+export interface EncodeRequest {
+  id: number
+  /** 裁切結果 (以 Transferable 轉移，不複製像素) */
+  bitmap: ImageBitmap
+  options: ExportOptions
+}
+
+/**
+ * 編碼 Worker 回傳的訊息
+ */
+export type EncodeResponse =
+  | { id: number; result: OptimizedBlobResult; error?: undefined }
+  | { id: number; result?: undefined; error: { code: ExportErrorCode } | { message: string } }
+
+interface PendingRequest {
+  resolve: (result: OptimizedBlobResult) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * 判斷目前環境是否能在 Web Worker 中編碼
+ * @description 需要 Worker、createImageBitmap 與支援 convertToBlob 的 OffscreenCanvas (Safari 16.4 以前不支援)
+ */
+export const isWorkerEncodingSupported = () =>
+  typeof Worker !== 'undefined' &&
+  typeof createImageBitmap === 'function' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof OffscreenCanvas.prototype.convertToBlob === 'function'
+
+/**
+ * 等待 Worker 回應的時間上限 (毫秒)
+ * @constant
+ * @description
+ * Worker 被 CSP 擋下、打包設定錯誤或卡住時不一定會觸發 error 事件，
+ * 超過此時間就放棄 Worker 改走主執行緒，避免匯出永遠停在處理中。大圖加上 maxBytes 的品質搜尋通常也在數秒內完成。
+ */
+export const WORKER_ENCODE_TIMEOUT_MS = 30_000
+
+let worker: Worker | null = null
+let nextId = 0
+const pendingRequests = new Map<number, PendingRequest>()
+
+// Worker 無法使用時 (例如載入失敗、逾時)，結束 Worker 並讓所有等待中的請求改走主執行緒；下次編碼時重新建立
+const abandonWorker = (error: Error) => {
+  worker?.terminate()
+  worker = null
+
+  for (const { reject } of pendingRequests.values()) {
+    reject(error)
+  }
+  pendingRequests.clear()
+}
+
+const getWorker = () => {
+  if (worker) return worker
+
+  worker = new Worker(new URL('../workers/imageEncoder.worker.ts', import.meta.url), {
+    type: 'module',
+  })
+
+  worker.addEventListener('message', (event: MessageEvent<EncodeResponse>) => {
+    const { id, result, error } = event.data
+    const pending = pendingRequests.get(id)
+    if (!pending) return
+    pendingRequests.delete(id)
+
+    if (result) {
+      pending.resolve(result)
+    } else if ('code' in error) {
+      pending.reject(new ExportError(error.code))
+    } else {
+      pending.reject(new Error(error.message))
+    }
+  })
+
+  worker.addEventListener('error', (event) => {
+    event.preventDefault()
+    abandonWorker(new Error(event.message || 'Image encoder worker failed'))
+  })
+
+  // 回應無法還原 (structured clone 失敗) 時無法得知是哪個請求，全部改走主執行緒
+  worker.addEventListener('messageerror', () => {
+    abandonWorker(new Error('Image encoder worker sent an unreadable message'))
+  })
+
+  return worker
+}
+
+const encodeInWorker = async (canvas: HTMLCanvasElement, options: ExportOptions) => {
+  const bitmap = await createImageBitmap(canvas)
+
+  return new Promise<OptimizedBlobResult>((resolve, reject) => {
+    const id = nextId++
+    const timeout = setTimeout(() => {
+      abandonWorker(new Error(`Image encoder worker timed out after ${WORKER_ENCODE_TIMEOUT_MS}ms`))
+    }, WORKER_ENCODE_TIMEOUT_MS)
+
+    pendingRequests.set(id, {
+      resolve: (result) => {
+        clearTimeout(timeout)
+        resolve(result)
+      },
+      reject: (error) => {
+        clearTimeout(timeout)
+        reject(error)
+      },
+    })
+
+    try {
+      // 匯出設定可能來自 props (Vue 的 reactive Proxy 無法 structured clone)，先複製成一般物件
+      const message: EncodeRequest = { id, bitmap, options: JSON.parse(JSON.stringify(options)) }
+      getWorker().postMessage(message, [bitmap])
+    } catch (error) {
+      clearTimeout(timeout)
+      pendingRequests.delete(id)
+      bitmap.close()
+      reject(error)
+    }
+  })
+}
+
+/**
+ * 在 Web Worker 中編碼裁切結果
+ *
+ * @description
+ * 與 getOptimizedBlob 相同的輸出規則，但將編碼移到 Web Worker，避免大圖編碼時畫面凍結：
+ * 主執行緒只負責把 Canvas 轉成 ImageBitmap 並轉移給 Worker，Worker 以 OffscreenCanvas.convertToBlob 編碼。
+ *
+ * [Fallback]
+ * 不支援 OffscreenCanvas (或 Worker 載入、執行失敗、逾時) 時，改在主執行緒以 getOptimizedBlob 編碼。
+ * ExportError (例如超出檔案大小上限) 是輸出設定造成的，改走主執行緒也會得到相同結果，因此直接拋出。
+ *
+ * @param {HTMLCanvasElement} canvas - 來源 Canvas 元素
+ * @param {ExportOptions} [options] - 匯出設定
+ * @returns {Promise<OptimizedBlobResult>} 包含 Blob、MimeType 與副檔名的結果物件
+ *
+ * @example
+ * const canvas = await editor.toCanvas()
+ * const { blob, extension } = await encodeImage(canvas, { maxBytes: 500 * 1024 })
+ */
+export const encodeImage = async (
+  canvas: HTMLCanvasElement,
+  options: ExportOptions = {},
+): Promise<OptimizedBlobResult> => {
+  if (!isWorkerEncodingSupported()) {
+    return getOptimizedBlob(canvas, options)
+  }
+
+  try {
+    return await encodeInWorker(canvas, options)
+  } catch (error) {
+    if (error instanceof ExportError) throw error
+
+    console.warn('[encodeImage] Worker 編碼失敗，改在主執行緒編碼:', error)
+    return getOptimizedBlob(canvas, options)
+  }
+}
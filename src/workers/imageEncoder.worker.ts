@@ -0,0 +1,35 @@
+// 只引入 encodeUtils (不依賴 Vue 與 i18n)，避免 Worker bundle 打包 Vue 與 composables
+import { EncodeError, encodeCanvas } from '@/utils/encodeUtils'
+import type { EncodeRequest, EncodeResponse } from '@/utils/workerEncoder'
+
+/**
+ * 圖片編碼 Worker
+ *
+ * @description
+ * 接收主執行緒轉移過來的 ImageBitmap，繪製到 OffscreenCanvas 後以 encodeCanvas 編碼 (與 getOptimizedBlob 相同的輸出規則)，
+ * 讓大圖的 WebP / JPEG 編碼與檔案大小上限的品質搜尋不會卡住畫面。
+ * 由 workerEncoder.ts 建立與呼叫，不直接使用。
+ */
+self.addEventListener('message', async (event: MessageEvent<EncodeRequest>) => {
+  const { id, bitmap, options } = event.data
+
+  let response: EncodeResponse
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0)
+    bitmap.close()
+
+    response = { id, result: await encodeCanvas(canvas, options) }
+  } catch (error) {
+    // Error 無法完整複製到主執行緒，EncodeError 只傳錯誤代碼，由主執行緒建立 ExportError (並套用目前語系)
+    response = {
+      id,
+      error:
+        error instanceof EncodeError
+          ? { code: error.code }
+          : { message: error instanceof Error ? error.message : String(error) },
+    }
+  }
+
+  self.postMessage(response)
+})
@@ -0,0 +1,81 @@
+import { fileURLToPath, URL } from 'node:url'
+import { existsSync, readFileSync, readdirSync, rmSync } from 'node:fs'
+import { join, posix, sep } from 'node:path'
+
+import { defineConfig, type Plugin } from 'vite'
+import vue from '@vitejs/plugin-vue'
+
+// 與 tsconfig.lib.json 的 declarationDir 相同
+const TYPES_DIR = fileURLToPath(new URL('./node_modules/.tmp/lib-types', import.meta.url))
+
+/**
+ * 將 vue-tsc 產生的型別宣告加入函式庫輸出 (dist/lib/types)
+ *
+ * [為什麼要改寫路徑？]
+ * tsc 不會改寫 import 路徑，宣告檔中的 '@/...' 別名在宿主專案中無法解析 (甚至會指到宿主自己的 src)，
+ * 因此依宣告檔的位置換成相對路徑。
+ */
+const libraryTypes = (): Plugin => ({
+  name: 'library-types',
+  apply: 'build',
+  generateBundle() {
+    if (!existsSync(TYPES_DIR)) {
+      this.error('找不到型別宣告，請先執行 vue-tsc -p tsconfig.lib.json (npm run build-lib)')
+    }
+
+    for (const file of readdirSync(TYPES_DIR, { recursive: true, encoding: 'utf8' })) {
+      if (!file.endsWith('.d.ts')) continue
+
+      const fileName = file.split(sep).join(posix.sep)
+      const source = readFileSync(join(TYPES_DIR, file), 'utf8').replace(
+        /(['"])@\/([^'"]+)\1/g,
+        (_, quote: string, target: string) => {
+          const path = posix.relative(posix.dirname(fileName), target)
+          return `${quote}${path.startsWith('.') ? path : `./${path}`}${quote}`
+        },
+      )
+
+      this.emitFile({ type: 'asset', fileName: `types/${fileName}`, source })
+    }
+  },
+  closeBundle() {
+    // 清除暫存，避免已刪除的檔案在下次建置時殘留
+    rmSync(TYPES_DIR, { recursive: true, force: true })
+  },
+})
+
+// 函式庫建置 (npm run build-lib)，示範頁面請使用 vite.config.ts
+export default defineConfig({
+  // 編碼 Worker 以相對於函式庫檔案的路徑載入，而不是宿主網站的根目錄
+  base: './',
+  plugins: [
+    vue({
+      template: {
+        compilerOptions: {
+          // 將所有 cropper- 開頭的標籤視為自定義元素
+          isCustomElement: (tag) => tag.startsWith('cropper-'),
+        },
+      },
+    }),
+    libraryTypes(),
+  ],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  build: {
+    outDir: 'dist/lib',
+    copyPublicDir: false,
+    lib: {
+      entry: fileURLToPath(new URL('./src/index.ts', import.meta.url)),
+      formats: ['es'],
+      fileName: 'client-side-crop',
+      cssFileName: 'client-side-crop',
+    },
+    rollupOptions: {
+      // 由宿主應用提供，避免重複打包 (兩份 Vue 會導致 provide / inject 與響應性失效)
+      external: ['vue', /^cropperjs/],
+    },
+  },
+})